@@ -0,0 +1,51 @@
+import { Clock } from '../../limits/clock';
+
+export const FRAME_SIZE = 417; // 128kbps, 44.1kHz, MPEG1 Layer III
+
+// Builds `count` silent 128kbps, 44.1kHz, MPEG1 Layer III frames
+export const createFrames = (count: number): Buffer => {
+  const buffer = Buffer.alloc(FRAME_SIZE * count);
+  for (let i = 0; i < count; i++) {
+    Buffer.from([0xff, 0xfb, 0x90, 0x00]).copy(buffer, i * FRAME_SIZE);
+  }
+  return buffer;
+};
+
+export interface TestFile {
+  name: string;
+  data: Buffer;
+}
+
+// Builds a ustar archive
+export const createTar = (files: TestFile[]): Buffer => {
+  const blocks: Buffer[] = [];
+
+  for (const { name, data } of files) {
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 'utf8');
+    header.write('0000644\0', 100, 'latin1');
+    header.write(data.length.toString(8).padStart(11, '0') + '\0', 124, 'latin1');
+    header.write('0', 156, 'latin1');
+    header.write('ustar\0' + '00', 257, 'latin1');
+    header.fill(0x20, 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 'latin1');
+
+    const padded = Buffer.alloc(Math.ceil(data.length / 512) * 512);
+    data.copy(padded);
+    blocks.push(header, padded);
+  }
+
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+};
+
+// A clock that only moves when told to
+export const createClock = (): Clock & { advance: (ms: number) => void } => {
+  let time = 0;
+  return {
+    now: () => time,
+    advance: (ms) => {
+      time += ms;
+    },
+  };
+};
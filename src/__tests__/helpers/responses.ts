@@ -0,0 +1,13 @@
+import { Response } from 'supertest';
+import { BatchResponse, ErrorResponse, Job, UploadSuccessResponse } from '../../types';
+
+// supertest leaves a parsed JSON body untyped; these read it as the route documents it
+
+export const errorBody = (response: Response): ErrorResponse => response.body as ErrorResponse;
+
+export const analysisBody = (response: Response): UploadSuccessResponse =>
+  response.body as UploadSuccessResponse;
+
+export const batchBody = (response: Response): BatchResponse => response.body as BatchResponse;
+
+export const jobBody = (response: Response): Job => response.body as Job;
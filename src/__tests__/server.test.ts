@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { App, createApp } from '../app';
+import { shutdown } from '../server';
+import { AppConfig, loadConfig } from '../config/config';
+import { ReadinessResponse } from '../types';
+import { createFrames } from './helpers/fixtures';
+
+const BOUNDARY = 'mp3-boundary';
+
+interface SlowUpload {
+  // Sends the rest of the file
+  finish(): void;
+  response: Promise<{ status: number; connection: string | undefined }>;
+}
+
+// Starts a multipart upload of an MP3 and sends only its first part
+const startUpload = (port: number, urlPath: string, mp3: Buffer): SlowUpload => {
+  const head = Buffer.from(
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="file"; filename="a.mp3"\r\n` +
+      'Content-Type: audio/mpeg\r\n\r\n'
+  );
+  const tail = Buffer.from(`\r\n--${BOUNDARY}--\r\n`);
+  const half = Math.floor(mp3.length / 2);
+
+  const req = http.request({
+    port,
+    path: urlPath,
+    method: 'POST',
+    headers: {
+      'Content-Type': `multipart/form-data; boundary=${BOUNDARY}`,
+      'Content-Length': head.length + mp3.length + tail.length,
+    },
+  });
+  const response = new Promise<{ status: number; connection: string | undefined }>(
+    (resolve, reject) => {
+      req.on('response', (res) => {
+        res.resume();
+        res.on('end', () =>
+          resolve({ status: res.statusCode ?? 0, connection: res.headers.connection })
+        );
+      });
+      req.on('error', reject);
+    }
+  );
+  req.write(Buffer.concat([head, mp3.subarray(0, half)]));
+
+  return {
+    finish: () => req.end(Buffer.concat([mp3.subarray(half), tail])),
+    response,
+  };
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let attempt = 0; attempt < 200 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('createApp', () => {
+  let uploadsDir: string;
+  let config: AppConfig;
+
+  beforeEach(() => {
+    uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-app-'));
+    config = { ...loadConfig({}), uploadsDir, rateLimitPerMinute: 0, minFreeDiskBytes: 0 };
+  });
+
+  afterEach(() => {
+    fs.rmSync(uploadsDir, { recursive: true, force: true });
+  });
+
+  it('should use the configuration it is given', async () => {
+    const { handler } = createApp({
+      config: {
+        ...config,
+        routes: { ...config.routes, cut: { maxFileSize: 100, parseTimeoutMs: 0 } },
+      },
+    });
+
+    const tooLarge = await request(handler)
+      .post('/cut?startFrame=0&endFrame=1')
+      .attach('file', createFrames(3), 'a.mp3');
+    const uploaded = await request(handler)
+      .post('/file-upload')
+      .attach('file', createFrames(3), 'a.mp3');
+
+    expect(tooLarge.status).toBe(413);
+    expect(uploaded.status).toBe(200);
+    expect(fs.readdirSync(uploadsDir)).toEqual([]);
+  });
+
+  it('should rate limit by the forwarded address only behind a trusted proxy', async () => {
+    const limited = { ...config, rateLimitPerMinute: 1, rateLimitBurst: 1 };
+    const statuses = async (trustProxy: number) => {
+      const { handler } = createApp({ config: { ...limited, trustProxy } });
+      const first = await request(handler).post('/file-upload').set('X-Forwarded-For', '10.0.0.1');
+      const second = await request(handler).post('/file-upload').set('X-Forwarded-For', '10.0.0.2');
+      return [first.status, second.status];
+    };
+
+    expect(await statuses(0)).toEqual([400, 429]);
+    expect(await statuses(1)).toEqual([400, 400]);
+  });
+
+  it('should keep its own metrics', async () => {
+    const first = createApp({ config });
+    const second = createApp({ config });
+
+    await request(first.handler).post('/file-upload').attach('file', createFrames(3), 'a.mp3');
+    const firstMetrics = await request(first.handler).get('/metrics');
+    const secondMetrics = await request(second.handler).get('/metrics');
+
+    expect(firstMetrics.text).toContain('route="/file-upload",status="200"');
+    expect(secondMetrics.text).not.toContain('route="/file-upload"');
+  });
+
+  it('should be ready until it starts shutting down', async () => {
+    const app = createApp({ config });
+
+    const ready = await request(app.handler).get('/ready');
+    app.beginShutdown();
+    const shuttingDown = await request(app.handler).get('/ready');
+
+    expect(ready.status).toBe(200);
+    expect((ready.body as ReadinessResponse).ready).toBe(true);
+    expect(shuttingDown.status).toBe(503);
+    expect((shuttingDown.body as ReadinessResponse).checks).toContainEqual({
+      name: 'shuttingDown',
+      ok: false,
+    });
+    expect(shuttingDown.headers.connection).toBe('close');
+  });
+
+  it('should not be ready without enough free space', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { handler } = createApp({
+      config: { ...config, minFreeDiskBytes: Number.MAX_SAFE_INTEGER },
+    });
+
+    try {
+      const response = await request(handler).get('/ready');
+
+      expect(response.status).toBe(503);
+      expect(response.body).toEqual({
+        ready: false,
+        checks: [
+          { name: 'uploadsDirWritable', ok: true },
+          { name: 'diskSpace', ok: false },
+        ],
+      });
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
+
+describe('shutdown', () => {
+  let uploadsDir: string;
+  let app: App;
+  let server: http.Server;
+  let port: number;
+
+  beforeEach(async () => {
+    uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-shutdown-'));
+    app = createApp({
+      config: { ...loadConfig({}), uploadsDir, rateLimitPerMinute: 0, minFreeDiskBytes: 0 },
+    });
+    server = app.handler.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(() => {
+    server.closeAllConnections();
+    server.close();
+    fs.rmSync(uploadsDir, { recursive: true, force: true });
+  });
+
+  it('should let requests in progress finish before closing', async () => {
+    const upload = startUpload(port, '/frame-index', createFrames(2000));
+    await waitFor(() => fs.readdirSync(uploadsDir).length > 0);
+
+    const stopped = shutdown(server, app, 5000);
+    upload.finish();
+
+    expect(await upload.response).toEqual({ status: 200, connection: 'close' });
+    expect(await stopped).toBe(true);
+    expect(server.listening).toBe(false);
+    expect(fs.readdirSync(uploadsDir)).toEqual([]);
+  });
+
+  it('should cut off requests still running at the deadline and delete their files', async () => {
+    const upload = startUpload(port, '/file-upload', createFrames(2000));
+    const outcome = upload.response.then(
+      () => 'answered',
+      () => 'cut off'
+    );
+    await waitFor(() => fs.readdirSync(uploadsDir).length > 0);
+    expect(fs.readdirSync(uploadsDir)).toHaveLength(1);
+
+    expect(await shutdown(server, app, 50)).toBe(false);
+    expect(await outcome).toBe('cut off');
+    expect(fs.readdirSync(uploadsDir)).toEqual([]);
+  });
+
+  it('should cancel background jobs', async () => {
+    const created = await request(`http://localhost:${port}`)
+      .post('/jobs')
+      .attach('file', createFrames(20000), 'a.mp3');
+    expect(created.status).toBe(202);
+
+    expect(await shutdown(server, app, 1000)).toBe(true);
+    expect(fs.readdirSync(uploadsDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { createUploadRouter } from './routes/upload.routes';
+import { createFrameIndexRouter } from './routes/frame-index.routes';
+import { createAnalyzeRouter } from './routes/analyze.routes';
+import { createBatchRouter } from './routes/batch.routes';
+import { createJobsRouter } from './routes/jobs.routes';
+import { createCutRouter } from './routes/cut.routes';
+import { createHealthRouter } from './routes/health.routes';
+import { createMetricsRouter } from './routes/metrics.routes';
+import { createDocsRouter } from './routes/docs.routes';
+import { createErrorHandler } from './middleware/error.middleware';
+import { requestId } from './middleware/request-id.middleware';
+import { createAdmissionControl } from './middleware/admission.middleware';
+import { createRequestMetrics } from './middleware/metrics.middleware';
+import { UploadSettings } from './middleware/upload.middleware';
+import { ConcurrencyLimiter } from './limits/concurrency-limiter';
+import { TokenBucketRateLimiter } from './limits/rate-limiter';
+import { LruAnalysisCache } from './cache/analysis-cache';
+import { JobRunner } from './jobs/job-runner';
+import { InMemoryJobStore } from './jobs/job-store';
+import { checkReadiness } from './lifecycle/readiness';
+import { removeTempFiles } from './lifecycle/temp-files';
+import { AppConfig, loadConfig } from './config/config';
+import { ADMISSION_CONFIG, JOBS_CONFIG } from './config/constants';
+import { AppMetrics } from './metrics/metrics';
+
+// The routes that take an upload, and so are subject to admission control
+const UPLOAD_PATHS = ['/file-upload', '/frame-index', '/analyze', '/batch', '/jobs', '/cut'];
+
+export interface AppOptions {
+  // Loaded from the environment and CONFIG_FILE by default
+  config?: AppConfig;
+}
+
+export interface App {
+  // The Express application, to listen with or to mount in another app
+  handler: Express;
+  // Fails /ready and stops keeping connections alive, so that no new work arrives
+  beginShutdown(): void;
+  // Cancels background jobs and deletes the uploads of requests that never finished
+  close(): Promise<void>;
+}
+
+/**
+ * Builds the application with its own admission limits, cache, jobs and metrics, so
+ * several can run side by side with different settings. Nothing is created or started
+ * until this is called. The app doesn't listen; see server.ts.
+ */
+export const createApp = ({ config = loadConfig() }: AppOptions = {}): App => {
+  const app = express();
+  // Tells Express how many proxies to look past for the client's IP address
+  app.set('trust proxy', config.trustProxy);
+  let isShuttingDown = false;
+  // Responses not yet finished, so their connections can be closed at shutdown
+  const inProgress = new Set<Response>();
+
+  // Every file this app stores starts with the prefix, so it can find them at shutdown
+  const filePrefix = `${randomUUID().slice(0, 8)}-`;
+  const uploads: UploadSettings = {
+    uploadsDir: config.uploadsDir,
+    allowedMimetypes: config.allowedMimetypes,
+    filePrefix,
+  };
+
+  // Shared by every route that takes an upload
+  const concurrency = new ConcurrencyLimiter(
+    config.maxConcurrentAnalyses,
+    config.maxQueuedAnalyses,
+    ADMISSION_CONFIG.BUSY_RETRY_AFTER_SECONDS
+  );
+  const admission = createAdmissionControl({
+    concurrency,
+    rateLimiter:
+      config.rateLimitPerMinute > 0
+        ? new TokenBucketRateLimiter({
+            requestsPerMinute: config.rateLimitPerMinute,
+            burst: config.rateLimitBurst,
+            maxClients: ADMISSION_CONFIG.MAX_RATE_LIMITED_CLIENTS,
+          })
+        : null,
+    apiKeys: new Set(config.apiKeys),
+  });
+  const jobRunner = new JobRunner(
+    new InMemoryJobStore(),
+    JOBS_CONFIG.CONCURRENCY,
+    JOBS_CONFIG.RESULT_TTL_MS,
+    config.routes.jobs.parseTimeoutMs,
+    config.maxQueuedJobs
+  );
+
+  const metrics = new AppMetrics(config.uploadsDir);
+  metrics.watchAdmission(concurrency);
+
+  app.use(requestId);
+  app.use(createRequestMetrics(metrics));
+
+  // Clients send their next request elsewhere while this server is stopping
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (isShuttingDown) {
+      res.setHeader('Connection', 'close');
+    } else {
+      inProgress.add(res);
+      res.once('close', () => inProgress.delete(res));
+    }
+    next();
+  });
+
+  app.use(
+    createHealthRouter(async () => {
+      const readiness = await checkReadiness(config.uploadsDir, config.minFreeDiskBytes);
+      if (!isShuttingDown) {
+        return readiness;
+      }
+      return {
+        ready: false,
+        checks: [...readiness.checks, { name: 'shuttingDown', ok: false }],
+      };
+    })
+  );
+
+  // Mounted for each path on its own so requests are counted under the path in /metrics
+  for (const uploadPath of UPLOAD_PATHS) {
+    app.post(uploadPath, admission);
+  }
+  app.put('/analyze', admission);
+
+  app.use(createMetricsRouter(metrics));
+  app.use(createDocsRouter());
+
+  app.use(
+    createUploadRouter(
+      config.storage,
+      config.routes.upload,
+      config.cacheMaxEntries > 0
+        ? new LruAnalysisCache({ maxEntries: config.cacheMaxEntries, ttlMs: config.cacheTtlMs })
+        : null,
+      uploads,
+      metrics
+    )
+  );
+  app.use(createFrameIndexRouter(config.routes.frameIndex, uploads, metrics));
+  app.use(createAnalyzeRouter(config.routes.analyze, metrics));
+  app.use(createBatchRouter(config.routes.batch, uploads, metrics));
+  app.use(createJobsRouter(jobRunner, config.routes.jobs, uploads, metrics));
+  app.use(createCutRouter(config.routes.cut, uploads, metrics));
+  app.use(createErrorHandler(metrics));
+
+  return {
+    handler: app,
+    beginShutdown: () => {
+      isShuttingDown = true;
+      for (const res of inProgress) {
+        if (!res.headersSent) {
+          res.setHeader('Connection', 'close');
+        }
+      }
+    },
+    close: async () => {
+      isShuttingDown = true;
+      await jobRunner.cancelAll();
+      await removeTempFiles(config.uploadsDir, filePrefix);
+    },
+  };
+};
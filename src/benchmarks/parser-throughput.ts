@@ -0,0 +1,104 @@
+/**
+ * Measures parser throughput over a synthetic MP3 file.
+ *
+ * Usage: npm run bench -- [sizeInMB]
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { analyzeBuffer, analyzeStream } from '../core/mp3-analyzer';
+import { StreamingMp3Parser } from '../core/streaming-mp3-parser';
+
+const DEFAULT_SIZE_MB = 256;
+
+// MPEG1 Layer III, 44.1kHz, unprotected, joint stereo; bitrates cycle to make a VBR stream
+const BITRATES = [128, 160, 192, 256, 320];
+const BITRATE_INDEXES: Record<number, number> = { 128: 9, 160: 10, 192: 11, 256: 13, 320: 14 };
+
+const createFrame = (bitrate: number): Buffer => {
+  const frame = Buffer.alloc(Math.floor((144 * bitrate * 1000) / 44100));
+  frame.writeUInt8(0xff, 0);
+  frame.writeUInt8(0xfb, 1);
+  frame.writeUInt8((BITRATE_INDEXES[bitrate] ?? 9) << 4, 2);
+  frame.writeUInt8(0x40, 3);
+  // Audio data that is full of false frame syncs
+  frame.fill(0xff, 4 + 32);
+  return frame;
+};
+
+/**
+ * Writes the file in 1MB blocks so the whole file never has to be held in memory.
+ */
+const createSyntheticFile = (filePath: string, sizeBytes: number): number => {
+  const frames = BITRATES.map(createFrame);
+  const block: Buffer[] = [];
+  let blockSize = 0;
+  let frameCount = 0;
+
+  while (blockSize < 1024 * 1024) {
+    const frame = frames[frameCount % frames.length] as Buffer;
+    block.push(frame);
+    blockSize += frame.length;
+    frameCount++;
+  }
+  // Junk between blocks makes the decoder lose sync and search for the next frame
+  block.push(Buffer.alloc(997, 0xff));
+
+  const blockBuffer = Buffer.concat(block);
+  const blocks = Math.max(1, Math.round(sizeBytes / blockBuffer.length));
+  const fd = fs.openSync(filePath, 'w');
+  try {
+    for (let i = 0; i < blocks; i++) {
+      fs.writeSync(fd, blockBuffer);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return blocks * frameCount;
+};
+
+const measure = async (label: string, sizeBytes: number, run: () => Promise<number>) => {
+  const start = process.hrtime.bigint();
+  const frameCount = await run();
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+  const megabytes = sizeBytes / (1024 * 1024);
+
+  console.log(
+    `${label}: ${frameCount} frames in ${seconds.toFixed(2)}s ` +
+      `(${(megabytes / seconds).toFixed(1)} MB/s)`
+  );
+};
+
+const main = async () => {
+  const sizeMb = Number(process.argv[2] ?? DEFAULT_SIZE_MB);
+  if (!Number.isFinite(sizeMb) || sizeMb <= 0) {
+    throw new Error('Size must be a positive number of megabytes');
+  }
+
+  const filePath = path.join(os.tmpdir(), `mp3-benchmark-${process.pid}.mp3`);
+
+  try {
+    const expectedFrames = createSyntheticFile(filePath, sizeMb * 1024 * 1024);
+    const { size } = fs.statSync(filePath);
+    console.log(
+      `Synthetic file: ${(size / (1024 * 1024)).toFixed(0)} MB, ${expectedFrames} frames`
+    );
+
+    await measure('File path', size, () => new StreamingMp3Parser(filePath).getFrameCount());
+
+    await measure('Readable stream', size, async () => {
+      const analysis = await analyzeStream(fs.createReadStream(filePath));
+      return analysis.frameCount;
+    });
+
+    const buffer = fs.readFileSync(filePath);
+    await measure('Buffer', size, () => Promise.resolve(analyzeBuffer(buffer).frameCount));
+  } finally {
+    fs.rmSync(filePath, { force: true });
+  }
+};
+
+main().catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
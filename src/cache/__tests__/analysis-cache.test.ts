@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { LruAnalysisCache, getCacheKey } from '../analysis-cache';
+import { Mp3Analysis } from '../../types';
+import { createClock } from '../../__tests__/helpers/fixtures';
+
+const createAnalysis = (frameCount: number) => ({ frameCount }) as Mp3Analysis;
+
+describe('LruAnalysisCache', () => {
+  it('should return copies of stored analyses', async () => {
+    const cache = new LruAnalysisCache({ maxEntries: 10, ttlMs: 1000 });
+    const analysis = createAnalysis(5);
+
+    await cache.set('a', analysis);
+    analysis.frameCount = 6;
+    const cached = await cache.get('a');
+
+    expect(cached).toEqual(createAnalysis(5));
+    expect(await cache.get('b')).toBeUndefined();
+  });
+
+  it('should drop the least recently used analysis when full', async () => {
+    const cache = new LruAnalysisCache({ maxEntries: 2, ttlMs: 1000 });
+    await cache.set('a', createAnalysis(1));
+    await cache.set('b', createAnalysis(2));
+    await cache.get('a');
+
+    await cache.set('c', createAnalysis(3));
+
+    expect(cache.size).toBe(2);
+    expect(await cache.get('a')).toEqual(createAnalysis(1));
+    expect(await cache.get('b')).toBeUndefined();
+  });
+
+  it('should forget analyses once their time is up', async () => {
+    const clock = createClock();
+    const cache = new LruAnalysisCache({ maxEntries: 10, ttlMs: 1000 }, clock);
+    await cache.set('a', createAnalysis(1));
+
+    clock.advance(999);
+    expect(await cache.get('a')).toEqual(createAnalysis(1));
+
+    clock.advance(1);
+    expect(await cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('getCacheKey', () => {
+  it('should key on the options that change the analysis, in any order', () => {
+    const signal = new AbortController().signal;
+
+    expect(getCacheKey('abc', { strict: true, minSilenceMs: 100 })).toBe(
+      getCacheKey('abc', { minSilenceMs: 100, strict: true, signal })
+    );
+    expect(getCacheKey('abc', { strict: true })).not.toBe(getCacheKey('abc', { strict: false }));
+    expect(getCacheKey('abc', {})).toBe('abc');
+  });
+});
@@ -0,0 +1,85 @@
+import { Mp3Analysis, ParserOptions } from '../types';
+import { Clock, systemClock } from '../limits/clock';
+
+/**
+ * Where analyses are kept by the content hash of the file they came from. The methods
+ * are async so that a shared backend such as Redis can implement the same interface.
+ */
+export interface AnalysisCache {
+  get(key: string): Promise<Mp3Analysis | undefined>;
+  set(key: string, analysis: Mp3Analysis): Promise<void>;
+}
+
+export interface LruCacheOptions {
+  // Analyses kept at once; the least recently used are dropped first
+  maxEntries: number;
+  // How long an analysis is kept after it is stored
+  ttlMs: number;
+}
+
+interface Entry {
+  analysis: Mp3Analysis;
+  expiresAt: number;
+}
+
+/**
+ * The cache key for a file analysed with the given options. Options that change the
+ * analysis are part of the key, so a strict analysis isn't answered with a lenient one;
+ * the abort signal and callbacks are left out.
+ */
+export const getCacheKey = (hash: string, options: ParserOptions): string => {
+  const settings = Object.entries(options)
+    .filter(([, value]) => ['boolean', 'number', 'string'].includes(typeof value))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${String(value)}`);
+
+  return [hash, ...settings].join(';');
+};
+
+/**
+ * Keeps analyses in memory, up to a number of entries and for a limited time. Entries
+ * are lost when the process restarts.
+ */
+export class LruAnalysisCache implements AnalysisCache {
+  private options: LruCacheOptions;
+  private clock: Clock;
+  // Kept in order of last use, so the first entry is the least recently used
+  private entries = new Map<string, Entry>();
+
+  constructor(options: LruCacheOptions, clock: Clock = systemClock) {
+    this.options = options;
+    this.clock = clock;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: string): Promise<Mp3Analysis | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(undefined);
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.clock.now()) {
+      return Promise.resolve(undefined);
+    }
+
+    this.entries.set(key, entry);
+    return Promise.resolve(structuredClone(entry.analysis));
+  }
+
+  public set(key: string, analysis: Mp3Analysis): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      analysis: structuredClone(analysis),
+      expiresAt: this.clock.now() + this.options.ttlMs,
+    });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { EXIT_CODES, formatAnalysis, runCli } from '../cli';
+import { analyzeBuffer } from '../../core/mp3-analyzer';
+import { createFrames } from '../../__tests__/helpers/fixtures';
+
+describe('runCli', () => {
+  let dir: string;
+
+  const writeFile = (name: string, data: Buffer): string => {
+    const filePath = path.join(dir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, data);
+    return filePath;
+  };
+
+  const run = async (argv: string[], stdinData?: Buffer) => {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const stdin = Object.assign(stdinData ? Readable.from([stdinData]) : new PassThrough(), {
+      isTTY: stdinData === undefined,
+    });
+    const exitCode = await runCli(argv, { stdin, stdout, stderr });
+    return {
+      exitCode,
+      stdout: (stdout.read() as Buffer | null)?.toString() ?? '',
+      stderr: (stderr.read() as Buffer | null)?.toString() ?? '',
+    };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should print a summary of each file', async () => {
+    const filePath = writeFile('song.mp3', createFrames(10));
+
+    const { exitCode, stdout } = await run([filePath]);
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    expect(stdout).toContain(filePath);
+    expect(stdout).toContain('Frames:      10');
+    expect(stdout).toContain('128 kbps CBR');
+  });
+
+  it('should print one JSON result per line with --json', async () => {
+    const first = writeFile('a.mp3', createFrames(3));
+    const second = writeFile('b.mp3', createFrames(5));
+
+    const { exitCode, stdout } = await run(['--json', first, second]);
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    const results = stdout
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as { name: string; analysis: { frameCount: number } });
+    expect(results.map((result) => [result.name, result.analysis.frameCount])).toEqual([
+      [first, 3],
+      [second, 5],
+    ]);
+  });
+
+  it('should report the same analysis as the parser core', async () => {
+    const data = createFrames(7);
+    const filePath = writeFile('song.mp3', data);
+
+    const { stdout } = await run(['--json', filePath]);
+
+    expect(JSON.parse(stdout)).toEqual({ name: filePath, analysis: analyzeBuffer(data) });
+  });
+
+  it('should read standard input', async () => {
+    const { exitCode, stdout } = await run(['--json', '-'], createFrames(4));
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(stdout)).toMatchObject({ name: '-', analysis: { frameCount: 4 } });
+  });
+
+  it('should read standard input when no files are given and it is not a terminal', async () => {
+    const { stdout } = await run(['--json'], createFrames(2));
+
+    expect(JSON.parse(stdout)).toMatchObject({ analysis: { frameCount: 2 } });
+  });
+
+  it('should exit with the invalid MP3 code when a file is not an MP3', async () => {
+    const good = writeFile('good.mp3', createFrames(2));
+    const bad = writeFile('bad.mp3', Buffer.alloc(1000));
+
+    const { exitCode, stdout, stderr } = await run([good, bad]);
+
+    expect(exitCode).toBe(EXIT_CODES.INVALID_MP3);
+    expect(stdout).toContain(good);
+    expect(stderr).toBe(`${bad}: No valid MP3 frames found\n`);
+  });
+
+  it('should exit with the I/O error code when a file is missing', async () => {
+    const bad = writeFile('bad.mp3', Buffer.alloc(1000));
+    const missing = path.join(dir, 'missing.mp3');
+
+    const { exitCode, stderr } = await run([bad, missing]);
+
+    expect(exitCode).toBe(EXIT_CODES.IO_ERROR);
+    expect(stderr).toContain(`${missing}: ENOENT`);
+  });
+
+  it('should exit with the I/O error code when a read fails partway through', async () => {
+    const mp3 = createFrames(10);
+    const stdin = Object.assign(
+      Readable.from(
+        (function* () {
+          yield mp3;
+          throw new Error('EIO: i/o error, read');
+        })()
+      ),
+      { isTTY: false }
+    );
+    const stderr = new PassThrough();
+
+    const exitCode = await runCli(['-'], { stdin, stdout: new PassThrough(), stderr });
+
+    expect(exitCode).toBe(EXIT_CODES.IO_ERROR);
+    expect((stderr.read() as Buffer).toString()).toBe('-: EIO: i/o error, read\n');
+  });
+
+  it('should only scan directories with --recursive', async () => {
+    writeFile('album/01.mp3', createFrames(1));
+    writeFile('album/disc2/02.MP3', createFrames(2));
+    writeFile('album/notes.txt', Buffer.from('liner notes'));
+    const album = path.join(dir, 'album');
+
+    const withoutFlag = await run([album]);
+    const recursive = await run(['--json', '-r', album]);
+
+    expect(withoutFlag.exitCode).toBe(EXIT_CODES.IO_ERROR);
+    expect(withoutFlag.stderr).toContain('use --recursive');
+    expect(recursive.exitCode).toBe(EXIT_CODES.SUCCESS);
+    expect(
+      recursive.stdout
+        .trim()
+        .split('\n')
+        .map((line) => (JSON.parse(line) as { name: string }).name)
+    ).toEqual([path.join(album, '01.mp3'), path.join(album, 'disc2', '02.MP3')]);
+  });
+
+  it('should expand glob patterns', async () => {
+    writeFile('a.mp3', createFrames(1));
+    writeFile('b.mp3', createFrames(1));
+    writeFile('c.wav', createFrames(1));
+
+    const { stdout } = await run(['--json', path.join(dir, '*.mp3')]);
+
+    expect(stdout.trim().split('\n')).toHaveLength(2);
+  });
+
+  it('should reject an invalid CRC failure threshold', async () => {
+    const filePath = writeFile('song.mp3', createFrames(1));
+
+    const { exitCode, stderr } = await run(['--crc-failure-threshold', '2', filePath]);
+
+    expect(exitCode).toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('--crc-failure-threshold must be a number between 0 and 1');
+  });
+
+  it('should exit with the usage code for unknown options', async () => {
+    const { exitCode, stderr } = await run(['--bogus']);
+
+    expect(exitCode).toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('Usage: mp3-analyze');
+  });
+
+  it('should print usage when no files are given at a terminal', async () => {
+    const { exitCode, stderr } = await run([]);
+
+    expect(exitCode).toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('Usage: mp3-analyze');
+  });
+});
+
+describe('formatAnalysis', () => {
+  it('should describe VBR streams with their bitrate range', () => {
+    const analysis = analyzeBuffer(
+      Buffer.concat([
+        Buffer.from([0xff, 0xfb, 0x90, 0x00]),
+        Buffer.alloc(413),
+        Buffer.from([0xff, 0xfb, 0xb0, 0x00]),
+        Buffer.alloc(622),
+      ])
+    );
+
+    expect(formatAnalysis('song.mp3', analysis)).toContain('kbps VBR (128-192)');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandInputs, findMp3Files, matchGlob } from '../files';
+
+describe('CLI file expansion', () => {
+  let dir: string;
+
+  const touch = (...names: string[]) => {
+    for (const name of names) {
+      const filePath = path.join(dir, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, '');
+    }
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-cli-files-'));
+    touch('a.mp3', 'b.mp3', 'c.wav', '.hidden.mp3', 'x/1.mp3', 'x/y/2.mp3', 'track10.mp3');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('matchGlob', () => {
+    it('should match wildcards within a directory, skipping hidden files', async () => {
+      expect(await matchGlob(path.join(dir, '*.mp3'))).toEqual(
+        ['a.mp3', 'b.mp3', 'track10.mp3'].map((name) => path.join(dir, name))
+      );
+    });
+
+    it('should match single characters and classes', async () => {
+      expect(await matchGlob(path.join(dir, '?.mp3'))).toHaveLength(2);
+      expect(await matchGlob(path.join(dir, '[!a].*'))).toEqual(
+        ['b.mp3', 'c.wav'].map((name) => path.join(dir, name))
+      );
+      expect(await matchGlob(path.join(dir, 'track[0-9][0-9].mp3'))).toHaveLength(1);
+    });
+
+    it('should match any depth with **', async () => {
+      expect(await matchGlob(path.join(dir, 'x', '**', '*.mp3'))).toEqual(
+        [path.join('x', '1.mp3'), path.join('x', 'y', '2.mp3')].map((name) => path.join(dir, name))
+      );
+    });
+
+    it('should treat other characters literally', async () => {
+      touch('a+b (1).mp3');
+
+      expect(await matchGlob(path.join(dir, 'a+b (*).mp3'))).toHaveLength(1);
+    });
+  });
+
+  describe('findMp3Files', () => {
+    it('should find MP3 files in subdirectories', async () => {
+      expect(await findMp3Files(path.join(dir, 'x'))).toEqual([
+        path.join(dir, 'x', '1.mp3'),
+        path.join(dir, 'x', 'y', '2.mp3'),
+      ]);
+    });
+  });
+
+  describe('expandInputs', () => {
+    it('should pass files and unmatched patterns through', async () => {
+      const file = path.join(dir, 'a.mp3');
+      const pattern = path.join(dir, '*.flac');
+
+      expect(await expandInputs([file, pattern, file], false)).toEqual([file, pattern]);
+    });
+
+    it('should only expand directories when recursive', async () => {
+      const x = path.join(dir, 'x');
+
+      expect(await expandInputs([x], false)).toEqual([x]);
+      expect(await expandInputs([x], true)).toHaveLength(2);
+    });
+  });
+});
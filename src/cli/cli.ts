@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { BatchFileResult, Mp3Analysis, Mp3ParserError, ParserOptions } from '../types';
+import { StreamingMp3Parser } from '../core/streaming-mp3-parser';
+import { analyzeStream } from '../core/mp3-analyzer';
+import { expandInputs } from './files';
+
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  INVALID_MP3: 1, // a file isn't a valid MP3 or failed the strict checks
+  IO_ERROR: 2, // a file couldn't be found or read
+  USAGE: 64, // bad arguments
+} as const;
+
+export interface CliIo {
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+}
+
+const STDIN_NAME = '-';
+
+const USAGE = `Usage: mp3-analyze [options] [file|glob|directory ...]
+
+Analyses MP3 files the same way as the /file-upload endpoint. Reads standard input
+when no files are given or a file is "-".
+
+Options:
+  --json                       Print one JSON result per line
+  -r, --recursive              Analyse the MP3 files in directories and subdirectories
+  --strict                     Fail files whose protected frames fail the CRC check
+  --crc-failure-threshold <n>  Share of CRC failures allowed in strict mode (0-1)
+  -h, --help                   Show this help
+
+Exit codes: 0 success, 1 invalid MP3, 2 file not found or unreadable, 64 bad arguments.
+`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CliOptions {
+  inputs: string[];
+  json: boolean;
+  recursive: boolean;
+  help: boolean;
+  parserOptions: ParserOptions;
+}
+
+const parseCliArgs = (argv: string[]): CliOptions => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean', default: false },
+        recursive: { type: 'boolean', short: 'r', default: false },
+        strict: { type: 'boolean', default: false },
+        'crc-failure-threshold': { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  const parserOptions: ParserOptions = { strict: values.strict };
+
+  if (values['crc-failure-threshold'] !== undefined) {
+    const threshold = Number(values['crc-failure-threshold']);
+    if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+      throw new UsageError('--crc-failure-threshold must be a number between 0 and 1');
+    }
+    parserOptions.crcFailureThreshold = threshold;
+  }
+
+  return {
+    inputs: positionals,
+    json: values.json,
+    recursive: values.recursive,
+    help: values.help,
+    parserOptions,
+  };
+};
+
+const formatDuration = (durationMs: number): string => {
+  const totalSeconds = durationMs / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds - minutes * 60).toFixed(3).padStart(6, '0');
+  return `${minutes}:${seconds}`;
+};
+
+const LAYER_NAMES = { 1: 'I', 2: 'II', 3: 'III' } as const;
+
+/**
+ * A short human-readable summary of an analysis.
+ */
+export const formatAnalysis = (name: string, analysis: Mp3Analysis): string => {
+  const { bitrate, crc } = analysis;
+  const lines: [string, string | number][] = [
+    ['Frames', analysis.frameCount],
+    ['Duration', formatDuration(analysis.durationMs)],
+    [
+      'Bitrate',
+      bitrate.mode === 'CBR'
+        ? `${bitrate.average} kbps CBR`
+        : `${bitrate.average} kbps ${bitrate.mode} (${bitrate.min}-${bitrate.max})`,
+    ],
+    [
+      'Stream',
+      `MPEG ${analysis.mpegVersion} Layer ${LAYER_NAMES[analysis.layer]}, ` +
+        `${analysis.sampleRate} Hz, ${analysis.channelMode.replace('_', ' ')}`,
+    ],
+    ['Audio bytes', analysis.audioBytes],
+  ];
+
+  if (analysis.gapless) {
+    lines.push([
+      'Gapless',
+      `${formatDuration(analysis.gapless.durationMs)} (${analysis.gapless.sampleCount} samples)`,
+    ]);
+  }
+  if (analysis.tags?.artist || analysis.tags?.title) {
+    lines.push(['Tags', [analysis.tags.artist, analysis.tags.title].filter(Boolean).join(' - ')]);
+  }
+  if (crc.protectedFrames > 0) {
+    lines.push(['CRC', `${crc.passed} passed, ${crc.failed} failed, ${crc.unchecked} unchecked`]);
+  }
+  if (analysis.gaps.length > 0) {
+    const skipped = analysis.gaps.reduce((total, gap) => total + gap.length, 0);
+    lines.push(['Gaps', `${analysis.gaps.length} (${skipped} bytes skipped)`]);
+  }
+  if (analysis.frameCountMismatch) {
+    lines.push(['Warning', `VBR header declares ${analysis.vbrHeader?.frames} frames`]);
+  }
+
+  return [name, ...lines.map(([label, value]) => `  ${`${label}:`.padEnd(13)}${value}`)].join('\n');
+};
+
+// Analyses a file the same way as the /file-upload route
+const analyzePath = async (filePath: string, options: ParserOptions): Promise<Mp3Analysis> => {
+  // Checked first so that I/O problems are told apart from invalid files
+  const stats = await fs.promises.stat(filePath);
+  if (stats.isDirectory()) {
+    throw new Error('Is a directory (use --recursive to scan it)');
+  }
+  await fs.promises.access(filePath, fs.constants.R_OK);
+
+  return new StreamingMp3Parser(filePath, options).analyze();
+};
+
+const exitCodeFor = (error: unknown): number =>
+  error instanceof Mp3ParserError ? EXIT_CODES.INVALID_MP3 : EXIT_CODES.IO_ERROR;
+
+/**
+ * Runs the command line and resolves with the exit code. Files are analysed one at a
+ * time and each result is printed as soon as it is ready. The exit code is the most
+ * serious failure: an I/O error over an invalid MP3.
+ */
+export const runCli = async (argv: string[], io: CliIo): Promise<number> => {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr.write(`mp3-analyze: ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+
+  if (options.help) {
+    io.stdout.write(USAGE);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const inputs = options.inputs.length > 0 ? options.inputs : [STDIN_NAME];
+  if (inputs.filter((input) => input === STDIN_NAME).length > 1) {
+    io.stderr.write('mp3-analyze: standard input can only be read once\n');
+    return EXIT_CODES.USAGE;
+  }
+  if (options.inputs.length === 0 && io.stdin.isTTY) {
+    io.stderr.write(USAGE);
+    return EXIT_CODES.USAGE;
+  }
+
+  const files = await expandInputs(
+    inputs.filter((input) => input !== STDIN_NAME),
+    options.recursive
+  );
+  const names = inputs.includes(STDIN_NAME) ? [STDIN_NAME, ...files] : files;
+  let exitCode: number = EXIT_CODES.SUCCESS;
+
+  for (const [index, name] of names.entries()) {
+    let result: BatchFileResult;
+    try {
+      const analysis =
+        name === STDIN_NAME
+          ? await analyzeStream(io.stdin as AsyncIterable<Buffer>, options.parserOptions)
+          : await analyzePath(name, options.parserOptions);
+      result = { name, analysis };
+    } catch (error) {
+      // The messages of unexpected errors are kept, as they describe the user's own files
+      result = {
+        name,
+        error: (error as Error).message,
+        code: error instanceof Mp3ParserError ? error.code : 'INTERNAL',
+      };
+      exitCode = Math.max(exitCode, exitCodeFor(error));
+    }
+
+    if (options.json) {
+      io.stdout.write(`${JSON.stringify(result)}\n`);
+    } else if ('analysis' in result) {
+      io.stdout.write(`${index > 0 ? '\n' : ''}${formatAnalysis(name, result.analysis)}\n`);
+    } else {
+      io.stderr.write(`${name}: ${result.error}\n`);
+    }
+  }
+
+  return exitCode;
+};
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const GLOB_CHARS = /[*?[]/;
+const MP3_EXTENSION = /\.mp3$/i;
+
+const isGlob = (segment: string): boolean => GLOB_CHARS.test(segment);
+
+const exists = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.promises.stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Directory entries, or none when the path can't be listed
+const listDirectory = async (dir: string): Promise<fs.Dirent[]> => {
+  try {
+    return await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Converts one path segment of a glob to a regular expression. Supports `*`, `?` and
+ * bracket classes such as `[0-9]` or `[!a]`.
+ */
+const segmentToRegExp = (segment: string): RegExp => {
+  let source = '';
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i] as string;
+
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[' && segment.indexOf(']', i + 2) !== -1) {
+      const end = segment.indexOf(']', i + 2);
+      const members = segment.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += members.startsWith('!') ? `[^${members.slice(1)}]` : `[${members}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const matchSegments = async (dir: string, segments: string[]): Promise<string[]> => {
+  const [segment, ...rest] = segments;
+
+  if (segment === undefined) {
+    return (await exists(dir)) ? [dir] : [];
+  }
+  if (!isGlob(segment)) {
+    return matchSegments(path.join(dir, segment), rest);
+  }
+
+  const entries = await listDirectory(dir);
+  const matches: string[] = [];
+
+  // `**` matches any number of directories, including none
+  if (segment === '**') {
+    matches.push(...(await matchSegments(dir, rest)));
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.')) {
+        matches.push(...(await matchSegments(path.join(dir, entry.name), segments)));
+      }
+    }
+    return matches;
+  }
+
+  // As in the shell, wildcards don't match hidden files
+  const pattern = segmentToRegExp(segment);
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') && !segment.startsWith('.')) continue;
+    if (!pattern.test(entry.name)) continue;
+    if (rest.length > 0 && !entry.isDirectory()) continue;
+
+    matches.push(...(await matchSegments(path.join(dir, entry.name), rest)));
+  }
+  return matches;
+};
+
+/**
+ * Files matching a glob pattern, sorted.
+ */
+export const matchGlob = async (pattern: string): Promise<string[]> => {
+  const segments = pattern.split('/').filter((segment) => segment !== '' && segment !== '.');
+  const root = pattern.startsWith('/') ? '/' : '.';
+  const matches = await matchSegments(root, segments);
+  return [...new Set(matches)].sort();
+};
+
+/**
+ * The MP3 files under a directory and its subdirectories, sorted.
+ */
+export const findMp3Files = async (dir: string): Promise<string[]> => {
+  const files: string[] = [];
+
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findMp3Files(entryPath)));
+    } else if (entry.isFile() && MP3_EXTENSION.test(entry.name)) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+};
+
+/**
+ * Turns the command-line arguments into the files to analyse. Globs are expanded here
+ * for shells that don't, and directories are searched for MP3s when `recursive`.
+ * Anything that doesn't exist or match is passed through so that reading it reports
+ * the error.
+ */
+export const expandInputs = async (inputs: string[], recursive: boolean): Promise<string[]> => {
+  const files: string[] = [];
+
+  for (const input of inputs) {
+    if (isGlob(input) && !(await exists(input))) {
+      const matches = await matchGlob(input);
+      files.push(...(matches.length > 0 ? matches : [input]));
+      continue;
+    }
+
+    const stats = await fs.promises.stat(input).catch(() => null);
+    if (recursive && stats?.isDirectory()) {
+      files.push(...(await findMp3Files(input)));
+    } else {
+      files.push(input);
+    }
+  }
+  return [...new Set(files)];
+};
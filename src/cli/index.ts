@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { EXIT_CODES, runCli } from './cli';
+
+runCli(process.argv.slice(2), process)
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error: unknown) => {
+    console.error(error);
+    process.exitCode = EXIT_CODES.IO_ERROR;
+  });
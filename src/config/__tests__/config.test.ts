@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig } from '../config';
+import {
+  ADMISSION_CONFIG,
+  BATCH_CONFIG,
+  CACHE_CONFIG,
+  JOBS_CONFIG,
+  SERVER_CONFIG,
+  UPLOAD_CONFIG,
+} from '../constants';
+import { ConfigError } from '../../types';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  const writeConfigFile = (contents: unknown): string => {
+    const filePath = path.join(dir, 'config.json');
+    fs.writeFileSync(filePath, JSON.stringify(contents));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should use the defaults when nothing is set', () => {
+    const config = loadConfig({});
+
+    expect(config.port).toBe(SERVER_CONFIG.PORT);
+    expect(config.uploadsDir).toBe(path.resolve(UPLOAD_CONFIG.DIR));
+    expect(config.storage).toBe('disk');
+    expect(config.allowedMimetypes).toEqual(UPLOAD_CONFIG.ALLOWED_MIMETYPES);
+    expect(config.routes.upload).toEqual({
+      maxFileSize: UPLOAD_CONFIG.MAX_FILE_SIZE,
+      parseTimeoutMs: UPLOAD_CONFIG.PARSE_TIMEOUT_MS,
+    });
+    expect(config.routes.batch).toEqual({
+      maxFileSize: BATCH_CONFIG.MAX_UPLOAD_SIZE,
+      parseTimeoutMs: BATCH_CONFIG.PARSE_TIMEOUT_MS,
+      maxEntrySize: BATCH_CONFIG.MAX_ENTRY_SIZE,
+      maxExtractedSize: BATCH_CONFIG.MAX_EXTRACTED_SIZE,
+      concurrency: BATCH_CONFIG.CONCURRENCY,
+    });
+    expect(config.routes.jobs.parseTimeoutMs).toBe(0);
+    expect(config.maxConcurrentAnalyses).toBe(ADMISSION_CONFIG.MAX_CONCURRENT_ANALYSES);
+    expect(config.maxQueuedJobs).toBe(JOBS_CONFIG.MAX_QUEUED);
+    expect(config.rateLimitPerMinute).toBe(ADMISSION_CONFIG.RATE_LIMIT_PER_MINUTE);
+    expect(config.apiKeys).toEqual([]);
+    expect(config.trustProxy).toBe(0);
+    expect(config.cacheMaxEntries).toBe(CACHE_CONFIG.MAX_ENTRIES);
+    expect(config.shutdownTimeoutMs).toBe(SERVER_CONFIG.SHUTDOWN_TIMEOUT_MS);
+    expect(config.minFreeDiskBytes).toBe(SERVER_CONFIG.MIN_FREE_DISK_BYTES);
+  });
+
+  it('should read settings from environment variables', () => {
+    const config = loadConfig({
+      PORT: '8080',
+      UPLOADS_DIR: dir,
+      UPLOAD_STORAGE: 'stream',
+      ALLOWED_MIMETYPES: 'audio/mpeg, application/octet-stream',
+      FRAME_INDEX_MAX_FILE_SIZE: '1048576',
+      CUT_PARSE_TIMEOUT_MS: '500',
+      BATCH_MAX_ENTRY_SIZE: '2048',
+      BATCH_CONCURRENCY: '2',
+      RATE_LIMIT_PER_MINUTE: '0',
+      API_KEYS: 'first-key, second-key',
+      TRUST_PROXY: '1',
+      SHUTDOWN_TIMEOUT_MS: '0',
+    });
+
+    expect(config.port).toBe(8080);
+    expect(config.uploadsDir).toBe(dir);
+    expect(config.storage).toBe('stream');
+    expect(config.allowedMimetypes).toEqual(['audio/mpeg', 'application/octet-stream']);
+    expect(config.routes.frameIndex.maxFileSize).toBe(1048576);
+    expect(config.routes.cut.parseTimeoutMs).toBe(500);
+    expect(config.routes.batch).toMatchObject({ maxEntrySize: 2048, concurrency: 2 });
+    expect(config.routes.upload.maxFileSize).toBe(UPLOAD_CONFIG.MAX_FILE_SIZE);
+    expect(config.rateLimitPerMinute).toBe(0);
+    expect(config.apiKeys).toEqual(['first-key', 'second-key']);
+    expect(config.trustProxy).toBe(1);
+    expect(config.shutdownTimeoutMs).toBe(0);
+  });
+
+  it('should let environment variables override the config file', () => {
+    const configFile = writeConfigFile({
+      port: 4000,
+      storage: 'stream',
+      routes: { batch: { maxFileSize: 1000, parseTimeoutMs: 2000 } },
+    });
+
+    const config = loadConfig({ CONFIG_FILE: configFile, PORT: '5000' });
+
+    expect(config.port).toBe(5000);
+    expect(config.storage).toBe('stream');
+    expect(config.routes.batch).toMatchObject({ maxFileSize: 1000, parseTimeoutMs: 2000 });
+  });
+
+  it('should report every invalid setting at once', () => {
+    const load = () =>
+      loadConfig({
+        PORT: 'abc',
+        UPLOAD_STORAGE: 'memory',
+        ANALYZE_MAX_FILE_SIZE: '0',
+        JOBS_PARSE_TIMEOUT_MS: '-1',
+      });
+
+    expect(load).toThrow(ConfigError);
+    expect(load).toThrow(
+      [
+        'Invalid configuration:',
+        '  PORT must be a whole number (got "abc")',
+        '  UPLOAD_STORAGE must be one of disk, stream (got "memory")',
+        '  ANALYZE_MAX_FILE_SIZE must be from 1 to 9007199254740991 (got 0)',
+        '  JOBS_PARSE_TIMEOUT_MS must be from 0 to 86400000 (got -1)',
+      ].join('\n')
+    );
+  });
+
+  it('should reject wrongly typed and unknown keys in the config file', () => {
+    const configFile = writeConfigFile({
+      port: '3000',
+      maxFileSize: 100,
+      routes: { upload: { maxFileSize: 1.5 }, cut: 10 },
+      allowedMimetypes: ['mpeg'],
+    });
+
+    expect(() => loadConfig({ CONFIG_FILE: configFile })).toThrow(
+      [
+        'Invalid configuration:',
+        `  maxFileSize is unknown in ${configFile}`,
+        `  routes.cut must be an object in ${configFile}`,
+        `  port in ${configFile} must be a whole number (got "3000")`,
+        `  allowedMimetypes in ${configFile} must be a list of MIME types such as audio/mpeg (got ["mpeg"])`,
+        `  routes.upload.maxFileSize in ${configFile} must be a whole number (got 1.5)`,
+      ].join('\n')
+    );
+  });
+
+  it('should fail when the config file is missing or not JSON', () => {
+    const missing = path.join(dir, 'missing.json');
+    expect(() => loadConfig({ CONFIG_FILE: missing })).toThrow(
+      `Could not read config file ${missing}`
+    );
+
+    const invalid = path.join(dir, 'invalid.json');
+    fs.writeFileSync(invalid, '{ port: 3000 }');
+    expect(() => loadConfig({ CONFIG_FILE: invalid })).toThrow(
+      `Config file ${invalid} is not valid JSON`
+    );
+
+    expect(() => loadConfig({ CONFIG_FILE: writeConfigFile([]) })).toThrow(
+      'must contain a JSON object'
+    );
+  });
+});
@@ -0,0 +1,395 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigError, UploadStorage } from '../types';
+import { BatchLimits } from '../core/batch';
+import {
+  ADMISSION_CONFIG,
+  BATCH_CONFIG,
+  CACHE_CONFIG,
+  JOBS_CONFIG,
+  SERVER_CONFIG,
+  UPLOAD_CONFIG,
+} from './constants';
+
+export type RouteName = 'upload' | 'frameIndex' | 'analyze' | 'batch' | 'jobs' | 'cut';
+
+export interface RouteLimits {
+  // Largest file (or raw body) the route accepts, in bytes
+  maxFileSize: number;
+  // How long parsing may run before it is stopped; 0 for no limit
+  parseTimeoutMs: number;
+}
+
+// The batch route also limits the archives it expands and how many files it analyses at once
+export interface BatchRouteLimits extends RouteLimits, BatchLimits {}
+
+export interface AppConfig {
+  port: number;
+  // Where uploads are written, resolved against the working directory
+  uploadsDir: string;
+  storage: UploadStorage;
+  // MIME types that let an upload through when its content isn't recognised
+  allowedMimetypes: string[];
+  routes: Record<RouteName, RouteLimits> & { batch: BatchRouteLimits };
+  // Uploads analysed at once across all routes, and how many more may wait
+  maxConcurrentAnalyses: number;
+  maxQueuedAnalyses: number;
+  // Background jobs that may wait to run before new ones get a 503
+  maxQueuedJobs: number;
+  // Upload requests each client may make per minute, 0 for no limit, and in a burst
+  rateLimitPerMinute: number;
+  rateLimitBurst: number;
+  // X-API-Key values that get a rate limit of their own; any other key is ignored
+  apiKeys: string[];
+  // Proxies in front of the server, whose X-Forwarded-For gives the client's IP address
+  trustProxy: number;
+  // Analyses /file-upload keeps by content hash, 0 for no cache, and for how long
+  cacheMaxEntries: number;
+  cacheTtlMs: number;
+  // How long requests in progress may take to finish at shutdown, 0 to cut them off
+  shutdownTimeoutMs: number;
+  // Free space the uploads directory needs for /ready to succeed, in bytes
+  minFreeDiskBytes: number;
+}
+
+// Prefix of each route's environment variables, such as FRAME_INDEX_MAX_FILE_SIZE
+const ROUTE_ENV_PREFIXES: Record<RouteName, string> = {
+  upload: 'UPLOAD',
+  frameIndex: 'FRAME_INDEX',
+  analyze: 'ANALYZE',
+  batch: 'BATCH',
+  jobs: 'JOBS',
+  cut: 'CUT',
+};
+
+const STORAGE_TYPES: UploadStorage[] = ['disk', 'stream'];
+
+// 0 leaves a limit off, otherwise at most a day
+const MAX_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHE_TTL_MS = 365 * MAX_TIMEOUT_MS;
+
+type SettingType = 'integer' | 'string' | 'list';
+
+interface Setting {
+  // Path of the setting in the config object and the config file
+  path: string[];
+  env: string;
+  type: SettingType;
+  // Describes what is wrong with a value of the right type, or returns null
+  check?: (value: never) => string | null;
+}
+
+const inRange =
+  (min: number, max: number) =>
+  (value: number): string | null =>
+    value >= min && value <= max ? null : `must be from ${min} to ${max}`;
+
+const routeSettings = (route: RouteName): Setting[] => [
+  {
+    path: ['routes', route, 'maxFileSize'],
+    env: `${ROUTE_ENV_PREFIXES[route]}_MAX_FILE_SIZE`,
+    type: 'integer',
+    check: inRange(1, Number.MAX_SAFE_INTEGER),
+  },
+  {
+    path: ['routes', route, 'parseTimeoutMs'],
+    env: `${ROUTE_ENV_PREFIXES[route]}_PARSE_TIMEOUT_MS`,
+    type: 'integer',
+    check: inRange(0, MAX_TIMEOUT_MS),
+  },
+];
+
+const SETTINGS: Setting[] = [
+  { path: ['port'], env: 'PORT', type: 'integer', check: inRange(0, 65535) },
+  {
+    path: ['uploadsDir'],
+    env: 'UPLOADS_DIR',
+    type: 'string',
+    check: (value: string) => (value === '' ? 'must not be empty' : null),
+  },
+  {
+    path: ['storage'],
+    env: 'UPLOAD_STORAGE',
+    type: 'string',
+    check: (value: string) =>
+      STORAGE_TYPES.some((type) => type === value)
+        ? null
+        : `must be one of ${STORAGE_TYPES.join(', ')}`,
+  },
+  {
+    path: ['allowedMimetypes'],
+    env: 'ALLOWED_MIMETYPES',
+    type: 'list',
+    check: (value: string[]) =>
+      value.every((type) => /^[\w.+-]+\/[\w.+-]+$/.test(type))
+        ? null
+        : 'must be a list of MIME types such as audio/mpeg',
+  },
+  ...(Object.keys(ROUTE_ENV_PREFIXES) as RouteName[]).flatMap(routeSettings),
+  {
+    path: ['routes', 'batch', 'maxEntrySize'],
+    env: 'BATCH_MAX_ENTRY_SIZE',
+    type: 'integer',
+    check: inRange(1, Number.MAX_SAFE_INTEGER),
+  },
+  {
+    path: ['routes', 'batch', 'maxExtractedSize'],
+    env: 'BATCH_MAX_EXTRACTED_SIZE',
+    type: 'integer',
+    check: inRange(1, Number.MAX_SAFE_INTEGER),
+  },
+  {
+    path: ['routes', 'batch', 'concurrency'],
+    env: 'BATCH_CONCURRENCY',
+    type: 'integer',
+    check: inRange(1, 100),
+  },
+  {
+    path: ['maxConcurrentAnalyses'],
+    env: 'MAX_CONCURRENT_ANALYSES',
+    type: 'integer',
+    check: inRange(1, 1000),
+  },
+  {
+    path: ['maxQueuedAnalyses'],
+    env: 'MAX_QUEUED_ANALYSES',
+    type: 'integer',
+    check: inRange(0, 100000),
+  },
+  {
+    path: ['maxQueuedJobs'],
+    env: 'MAX_QUEUED_JOBS',
+    type: 'integer',
+    check: inRange(0, 100000),
+  },
+  {
+    path: ['rateLimitPerMinute'],
+    env: 'RATE_LIMIT_PER_MINUTE',
+    type: 'integer',
+    check: inRange(0, 1000000),
+  },
+  {
+    path: ['rateLimitBurst'],
+    env: 'RATE_LIMIT_BURST',
+    type: 'integer',
+    check: inRange(1, 1000000),
+  },
+  {
+    path: ['apiKeys'],
+    env: 'API_KEYS',
+    type: 'list',
+    check: (value: string[]) => (value.includes('') ? 'must not contain empty keys' : null),
+  },
+  {
+    path: ['trustProxy'],
+    env: 'TRUST_PROXY',
+    type: 'integer',
+    check: inRange(0, 100),
+  },
+  {
+    path: ['cacheMaxEntries'],
+    env: 'CACHE_MAX_ENTRIES',
+    type: 'integer',
+    check: inRange(0, 1000000),
+  },
+  {
+    path: ['cacheTtlMs'],
+    env: 'CACHE_TTL_MS',
+    type: 'integer',
+    check: inRange(1, MAX_CACHE_TTL_MS),
+  },
+  {
+    path: ['shutdownTimeoutMs'],
+    env: 'SHUTDOWN_TIMEOUT_MS',
+    type: 'integer',
+    check: inRange(0, MAX_TIMEOUT_MS),
+  },
+  {
+    path: ['minFreeDiskBytes'],
+    env: 'MIN_FREE_DISK_BYTES',
+    type: 'integer',
+    check: inRange(0, Number.MAX_SAFE_INTEGER),
+  },
+];
+
+const getDefaults = (): AppConfig => {
+  const limits = (maxFileSize: number, parseTimeoutMs: number): RouteLimits => ({
+    maxFileSize,
+    parseTimeoutMs,
+  });
+  const { MAX_FILE_SIZE, PARSE_TIMEOUT_MS } = UPLOAD_CONFIG;
+
+  return {
+    port: SERVER_CONFIG.PORT,
+    uploadsDir: UPLOAD_CONFIG.DIR,
+    storage: UPLOAD_CONFIG.STORAGE,
+    allowedMimetypes: [...UPLOAD_CONFIG.ALLOWED_MIMETYPES],
+    routes: {
+      upload: limits(MAX_FILE_SIZE, PARSE_TIMEOUT_MS),
+      frameIndex: limits(MAX_FILE_SIZE, PARSE_TIMEOUT_MS),
+      analyze: limits(MAX_FILE_SIZE, PARSE_TIMEOUT_MS),
+      batch: {
+        ...limits(BATCH_CONFIG.MAX_UPLOAD_SIZE, BATCH_CONFIG.PARSE_TIMEOUT_MS),
+        maxEntrySize: BATCH_CONFIG.MAX_ENTRY_SIZE,
+        maxExtractedSize: BATCH_CONFIG.MAX_EXTRACTED_SIZE,
+        concurrency: BATCH_CONFIG.CONCURRENCY,
+      },
+      jobs: limits(MAX_FILE_SIZE, JOBS_CONFIG.PARSE_TIMEOUT_MS),
+      cut: limits(MAX_FILE_SIZE, PARSE_TIMEOUT_MS),
+    },
+    maxConcurrentAnalyses: ADMISSION_CONFIG.MAX_CONCURRENT_ANALYSES,
+    maxQueuedAnalyses: ADMISSION_CONFIG.MAX_QUEUED_ANALYSES,
+    maxQueuedJobs: JOBS_CONFIG.MAX_QUEUED,
+    rateLimitPerMinute: ADMISSION_CONFIG.RATE_LIMIT_PER_MINUTE,
+    rateLimitBurst: ADMISSION_CONFIG.RATE_LIMIT_BURST,
+    apiKeys: [...ADMISSION_CONFIG.API_KEYS],
+    trustProxy: ADMISSION_CONFIG.TRUST_PROXY,
+    cacheMaxEntries: CACHE_CONFIG.MAX_ENTRIES,
+    cacheTtlMs: CACHE_CONFIG.TTL_MS,
+    shutdownTimeoutMs: SERVER_CONFIG.SHUTDOWN_TIMEOUT_MS,
+    minFreeDiskBytes: SERVER_CONFIG.MIN_FREE_DISK_BYTES,
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeType = (type: SettingType): string => {
+  switch (type) {
+    case 'integer':
+      return 'a whole number';
+    case 'string':
+      return 'a string';
+    case 'list':
+      return 'a list of strings';
+  }
+};
+
+const hasType = (value: unknown, type: SettingType): boolean => {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isSafeInteger(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'list':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+  }
+};
+
+// Environment variables are strings; numbers and comma-separated lists are converted
+const fromEnv = (value: string, type: SettingType): unknown => {
+  switch (type) {
+    case 'integer':
+      return /^\s*-?\d+\s*$/.test(value) ? Number(value) : value;
+    case 'string':
+      return value.trim();
+    case 'list':
+      return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item !== '');
+  }
+};
+
+const getValue = (source: Record<string, unknown>, keys: string[]): unknown => {
+  let value: unknown = source;
+  for (const key of keys) {
+    if (!isObject(value)) {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+};
+
+const setValue = (target: AppConfig, keys: string[], value: unknown): void => {
+  let parent = target as unknown as Record<string, unknown>;
+  for (const key of keys.slice(0, -1)) {
+    parent = parent[key] as Record<string, unknown>;
+  }
+  parent[keys[keys.length - 1] as string] = value;
+};
+
+// Names every key in the file that isn't a setting, so typos don't go unnoticed
+const findUnknownKeys = (file: Record<string, unknown>, prefix: string[] = []): string[] =>
+  Object.entries(file).flatMap(([key, value]) => {
+    const keys = [...prefix, key];
+    const isSetting = SETTINGS.some((setting) => setting.path.join('.') === keys.join('.'));
+    const isGroup = SETTINGS.some((setting) =>
+      setting.path.join('.').startsWith(`${keys.join('.')}.`)
+    );
+
+    if (isSetting) {
+      return [];
+    }
+    if (isGroup && isObject(value)) {
+      return findUnknownKeys(value, keys);
+    }
+    return isGroup ? [`${keys.join('.')} must be an object`] : [`${keys.join('.')} is unknown`];
+  });
+
+const readConfigFile = (filePath: string): Record<string, unknown> => {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Could not read config file ${filePath}: ${(error as Error).message}`);
+  }
+
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Config file ${filePath} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(file)) {
+    throw new ConfigError(`Config file ${filePath} must contain a JSON object`);
+  }
+  return file;
+};
+
+/**
+ * Builds the configuration from the defaults in constants.ts, then the JSON file named
+ * by CONFIG_FILE (if set), then individual environment variables. Every setting is
+ * checked, and all the problems found are reported together in one ConfigError.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+  const config = getDefaults();
+  const configFile = env.CONFIG_FILE;
+  const file = configFile ? readConfigFile(configFile) : {};
+  const problems = configFile
+    ? findUnknownKeys(file).map((problem) => `${problem} in ${configFile}`)
+    : [];
+
+  for (const setting of SETTINGS) {
+    const sources: { value: unknown; name: string }[] = [];
+
+    const fileValue = getValue(file, setting.path);
+    if (fileValue !== undefined) {
+      sources.push({ value: fileValue, name: `${setting.path.join('.')} in ${configFile}` });
+    }
+    const envValue = env[setting.env];
+    if (envValue !== undefined) {
+      sources.push({ value: fromEnv(envValue, setting.type), name: setting.env });
+    }
+
+    for (const { value, name } of sources) {
+      const problem = hasType(value, setting.type)
+        ? (setting.check?.(value as never) ?? null)
+        : `must be ${describeType(setting.type)}`;
+
+      if (problem) {
+        problems.push(`${name} ${problem} (got ${JSON.stringify(value)})`);
+      } else {
+        setValue(config, setting.path, value);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid configuration:\n${problems.map((p) => `  ${p}`).join('\n')}`);
+  }
+
+  config.uploadsDir = path.resolve(config.uploadsDir);
+  return config;
+};
@@ -1,16 +1,83 @@
+import { UploadStorage } from '../types';
+
+// Defaults for the settings in config.ts, which a config file or the environment can
+// override
+
 export const SERVER_CONFIG = {
   PORT: 3000,
+  SHUTDOWN_TIMEOUT_MS: 30 * 1000, // for requests in progress to finish at shutdown
+  MIN_FREE_DISK_BYTES: 100 * 1024 * 1024, // in the uploads directory, or /ready fails
 } as const;
 
 export const UPLOAD_CONFIG = {
   MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB in bytes
   ALLOWED_MIMETYPES: ['audio/mpeg', 'audio/mp3'],
+  // Content types accepted for raw request bodies
+  RAW_BODY_MIMETYPES: ['audio/mpeg', 'audio/mp3', 'application/octet-stream'],
+  // 'disk' stores uploads in DIR before parsing, 'stream' parses them as they arrive
+  STORAGE: 'disk' as UploadStorage,
+  DIR: 'uploads', // relative to the working directory
+  PARSE_TIMEOUT_MS: 60 * 1000, // a minute
+} as const;
+
+export const BATCH_CONFIG = {
+  MAX_FILES: 100, // per request
+  MAX_UPLOAD_SIZE: 200 * 1024 * 1024, // per uploaded file or archive, 200MB
+  MAX_ENTRY_SIZE: 10 * 1024 * 1024, // each MP3 inside an archive, 10MB
+  MAX_EXTRACTED_SIZE: 1024 * 1024 * 1024, // a gzipped tar archive once expanded on disk, 1GB
+  CONCURRENCY: 4, // files analysed at the same time
+  PARSE_TIMEOUT_MS: 5 * 60 * 1000, // the whole batch, five minutes
+  ARCHIVE_MIMETYPES: [
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/x-tar',
+    'application/gzip',
+    'application/x-gzip',
+    'application/octet-stream',
+  ],
+} as const;
+
+export const JOBS_CONFIG = {
+  CONCURRENCY: 2, // jobs running at the same time
+  MAX_QUEUED: 100, // jobs waiting to run, each with its upload on disk
+  RESULT_TTL_MS: 60 * 60 * 1000, // finished jobs are kept for an hour
+  PARSE_TIMEOUT_MS: 0, // jobs run in the background, so have no time limit
+} as const;
+
+export const CACHE_CONFIG = {
+  MAX_ENTRIES: 1000, // analyses kept by /file-upload, 0 to turn the cache off
+  TTL_MS: 24 * 60 * 60 * 1000, // cached analyses are kept for a day
+} as const;
+
+export const ADMISSION_CONFIG = {
+  MAX_CONCURRENT_ANALYSES: 4, // uploads received and analysed at the same time
+  MAX_QUEUED_ANALYSES: 16, // uploads waiting for a turn before the server says it is busy
+  BUSY_RETRY_AFTER_SECONDS: 5, // sent in Retry-After when the queue is full
+  RATE_LIMIT_PER_MINUTE: 60, // upload requests per client, 0 to turn rate limiting off
+  RATE_LIMIT_BURST: 10, // requests a client can make back to back
+  MAX_RATE_LIMITED_CLIENTS: 10000, // clients tracked at once, the longest idle forgotten first
+  API_KEYS: [], // keys rate limited on their own; other clients are limited by IP address
+  TRUST_PROXY: 0, // proxies in front of the server whose X-Forwarded-For is believed
+} as const;
+
+export const CUT_CONFIG = {
+  MAX_SEGMENTS: 1000, // per split
+} as const;
+
+export const ANALYSIS_CONFIG = {
+  // Share of CRC-checked frames allowed to fail in strict mode
+  CRC_FAILURE_THRESHOLD: 0,
+  // Matching frames that must follow a candidate frame when (re)gaining sync
+  SYNC_CONFIRMATION_FRAMES: 2,
+  // Frames that can't be louder than this (dBFS) count as silent
+  SILENCE_THRESHOLD_DB: -60,
+  // Shortest silence reported between audible frames
+  MIN_SILENCE_MS: 500,
 } as const;
 
 export const MP3_CONSTANTS = {
   FRAME_SYNC_BYTE1: 0xff,
   FRAME_SYNC_BYTE2_MASK: 0xe0,
-  FRAME_SIZE_COEFFICIENT: 144,
   BITRATE_MULTIPLIER: 1000,
   MIN_HEADER_SIZE: 4,
 } as const;
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import {
+  Archive,
+  ArchiveType,
+  createZip as writeZip,
+  detectArchive,
+  openArchive,
+} from '../archive';
+import { InvalidArchiveError } from '../../types';
+import { TestFile, createTar } from '../../__tests__/helpers/fixtures';
+
+const LIMITS = { maxEntrySize: 1024 * 1024, maxExtractedSize: 10 * 1024 * 1024 };
+
+// Builds a zip archive, deflating files unless `stored` is set
+const createZip = (files: TestFile[], stored = false): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data } of files) {
+    const compressed = stored ? data : zlib.deflateRawSync(data);
+    const nameBytes = Buffer.from(name, 'utf8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+};
+
+describe('archive', () => {
+  const files = [
+    { name: 'album/01.mp3', data: Buffer.from('first file') },
+    { name: 'album/cover.jpg', data: Buffer.alloc(3000, 0x42) },
+  ];
+
+  describe('detectArchive', () => {
+    it('should identify zip, tar and gzip archives', () => {
+      expect(detectArchive(createZip(files))).toBe('zip');
+      expect(detectArchive(createTar(files))).toBe('tar');
+      expect(detectArchive(zlib.gzipSync(createTar(files)))).toBe('tar.gz');
+    });
+
+    it('should return null for an MP3', () => {
+      expect(detectArchive(Buffer.from([0xff, 0xfb, 0x90, 0x00]))).toBeNull();
+    });
+  });
+
+  describe('openArchive', () => {
+    let dir: string;
+    let opened: Archive[];
+
+    const writeFile = (name: string, data: Buffer): string => {
+      const filePath = path.join(dir, name);
+      fs.writeFileSync(filePath, data);
+      return filePath;
+    };
+
+    // Writes the archive to a file and opens it; it is closed after the test
+    const open = async (data: Buffer, type: ArchiveType, limits = LIMITS): Promise<Archive> => {
+      const archive = await openArchive(writeFile(`${opened.length}.${type}`, data), type, limits);
+      opened.push(archive);
+      return archive;
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-'));
+      opened = [];
+    });
+
+    afterEach(async () => {
+      await Promise.all(opened.map((archive) => archive.close()));
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should extract deflated and stored zip entries', async () => {
+      for (const stored of [false, true]) {
+        const { entries } = await open(createZip(files, stored), 'zip');
+
+        expect(entries.map((entry) => entry.name)).toEqual(['album/01.mp3', 'album/cover.jpg']);
+        expect((await entries[0]?.read())?.toString()).toBe('first file');
+        expect(await entries[1]?.read()).toEqual(files[1]?.data);
+      }
+    });
+
+    it('should extract tar and gzipped tar entries', async () => {
+      const tar = createTar(files);
+
+      for (const [data, type] of [
+        [tar, 'tar'],
+        [zlib.gzipSync(tar), 'tar.gz'],
+      ] as const) {
+        const { entries } = await open(data, type);
+
+        expect(entries.map((entry) => entry.size)).toEqual([10, 3000]);
+        expect((await entries[0]?.read())?.toString()).toBe('first file');
+      }
+    });
+
+    it('should refuse to extract entries over the size limit', async () => {
+      const { entries } = await open(createZip(files), 'zip', { ...LIMITS, maxEntrySize: 100 });
+
+      await expect(entries[1]?.read()).rejects.toThrow('album/cover.jpg is too large');
+    });
+
+    it('should reject a damaged archive and close it', async () => {
+      const tar = createTar(files);
+      tar.writeUInt8(0x41, 10);
+
+      await expect(open(tar, 'tar')).rejects.toThrow(InvalidArchiveError);
+      await expect(open(Buffer.from('PK\x03\x04'), 'zip')).rejects.toThrow('Invalid zip archive');
+    });
+
+    it('should read zip and tar entries from the file', async () => {
+      for (const [name, data, type] of [
+        ['a.zip', createZip(files), 'zip'],
+        ['a.tar', createTar(files), 'tar'],
+      ] as const) {
+        const archive = await openArchive(writeFile(name, data), type, LIMITS);
+
+        expect(archive.entries.map((entry) => entry.name)).toEqual([
+          'album/01.mp3',
+          'album/cover.jpg',
+        ]);
+        expect((await archive.entries[0]?.read())?.toString()).toBe('first file');
+        expect(await archive.entries[1]?.read()).toEqual(files[1]?.data);
+        await archive.close();
+      }
+    });
+
+    it('should expand a gzipped tar beside it and delete it on close', async () => {
+      const archive = await openArchive(
+        writeFile('a.tar.gz', zlib.gzipSync(createTar(files))),
+        'tar.gz',
+        LIMITS
+      );
+
+      expect(fs.readdirSync(dir).sort()).toEqual(['a.tar.gz', 'a.tar.gz.tar']);
+      expect((await archive.entries[0]?.read())?.toString()).toBe('first file');
+      await archive.close();
+      expect(fs.readdirSync(dir)).toEqual(['a.tar.gz']);
+    });
+
+    it('should stop expanding a gzipped tar at the size limit', async () => {
+      const filePath = writeFile('a.tar.gz', zlib.gzipSync(createTar(files)));
+
+      await expect(
+        openArchive(filePath, 'tar.gz', { ...LIMITS, maxExtractedSize: 1000 })
+      ).rejects.toThrow('Invalid or too large gzip archive');
+      expect(fs.readdirSync(dir)).toEqual(['a.tar.gz']);
+    });
+
+    it('should reject a zip entry whose compressed size is too large for it', async () => {
+      const zip = createZip(files);
+      // The compressed size of the first entry in the central directory
+      const directoryOffset = zip.readUInt32LE(zip.length - 22 + 16);
+      zip.writeUInt32LE(0x7fffffff, directoryOffset + 20);
+      const archive = await openArchive(writeFile('a.zip', zip), 'zip', LIMITS);
+
+      await expect(archive.entries[0]?.read()).rejects.toThrow('Invalid zip archive');
+      await archive.close();
+    });
+  });
+
+  describe('createZip', () => {
+    it('should write a stored zip that reads back', async () => {
+      const zip = writeZip(files);
+
+      expect(detectArchive(zip)).toBe('zip');
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-'));
+      const filePath = path.join(dir, 'a.zip');
+      fs.writeFileSync(filePath, zip);
+      const archive = await openArchive(filePath, 'zip', LIMITS);
+      try {
+        expect(archive.entries.map((entry) => entry.name)).toEqual([
+          'album/01.mp3',
+          'album/cover.jpg',
+        ]);
+        expect(await archive.entries[1]?.read()).toEqual(files[1]?.data);
+      } finally {
+        await archive.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should record the CRC-32 of each file', () => {
+      const zip = writeZip(files.slice(0, 1));
+
+      expect(zip.readUInt32LE(14)).toBe(zlib.crc32(Buffer.from('first file')));
+    });
+  });
+});
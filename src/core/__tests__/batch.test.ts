@@ -0,0 +1,101 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { BatchLimits, analyzeBatch, mapWithConcurrency } from '../batch';
+import { createFrames, createTar } from '../../__tests__/helpers/fixtures';
+
+describe('batch', () => {
+  describe('mapWithConcurrency', () => {
+    it('should keep at most `limit` calls in flight and preserve order', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      const results = await mapWithConcurrency([5, 1, 4, 2, 3, 0], 2, async (delay) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        inFlight--;
+        return delay * 10;
+      });
+
+      expect(results).toEqual([50, 10, 40, 20, 30, 0]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should handle an empty list', async () => {
+      expect(await mapWithConcurrency([], 4, () => Promise.resolve(1))).toEqual([]);
+    });
+  });
+
+  describe('analyzeBatch', () => {
+    const limits: BatchLimits = {
+      maxEntrySize: 1024 * 1024,
+      maxExtractedSize: 10 * 1024 * 1024,
+      concurrency: 2,
+    };
+
+    it('should delete what it expanded from an archive once analysed', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+      const filePath = path.join(dir, 'album.tar.gz');
+      fs.writeFileSync(
+        filePath,
+        zlib.gzipSync(createTar([{ name: '01.mp3', data: createFrames(3) }]))
+      );
+
+      try {
+        const batch = await analyzeBatch([{ name: 'album.tar.gz', path: filePath }], {}, limits);
+
+        expect(batch.results[0]).toMatchObject({ name: '01.mp3', analysis: { frameCount: 3 } });
+        expect(fs.readdirSync(dir)).toEqual(['album.tar.gz']);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should limit archive entries to the size it is given', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+      const filePath = path.join(dir, 'album.tar');
+      fs.writeFileSync(filePath, createTar([{ name: '01.mp3', data: createFrames(3) }]));
+
+      try {
+        const batch = await analyzeBatch(
+          [{ name: 'album.tar', path: filePath }],
+          {},
+          {
+            ...limits,
+            maxEntrySize: 1000,
+          }
+        );
+
+        expect(batch.results).toEqual([
+          {
+            name: '01.mp3',
+            archive: 'album.tar',
+            error: '01.mp3 is too large',
+            code: 'INVALID_ARCHIVE',
+          },
+        ]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should report an unexpected error without its message', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      try {
+        const missing = path.join(os.tmpdir(), 'batch-missing', 'gone.mp3');
+        const batch = await analyzeBatch([{ name: 'gone.mp3', path: missing }], {}, limits);
+
+        expect(batch.results).toEqual([
+          { name: 'gone.mp3', error: 'Internal server error', code: 'INTERNAL' },
+        ]);
+        expect(consoleError).toHaveBeenCalledWith('Batch file gone.mp3 failed:', expect.anything());
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+import { crc16, crc16Arc, verifyFrameCrc, CrcStats } from '../crc';
+import { parseFrameHeader } from '../frame-header';
+import { FrameHeader } from '../../types';
+
+describe('crc', () => {
+  const FRAME_SIZE = 417;
+
+  // MPEG1 Layer III, 128 kbps, 44.1 kHz, protected, stereo unless given
+  const createProtectedFrame = (
+    channelByte: number = 0x00,
+    sideInfoFill: number = 0x5a
+  ): { frame: Buffer; header: FrameHeader } => {
+    const frame = Buffer.alloc(FRAME_SIZE);
+    Buffer.from([0xff, 0xfa, 0x90, channelByte]).copy(frame);
+    const sideInfoSize = channelByte === 0xc0 ? 17 : 32;
+    frame.fill(sideInfoFill, 6, 6 + sideInfoSize);
+    frame.writeUInt16BE(crc16(frame.subarray(6, 6 + sideInfoSize), crc16(frame.subarray(2, 4))), 4);
+
+    const header = parseFrameHeader(frame, 0);
+    if (!header) throw new Error('Test frame header is invalid');
+    return { frame, header };
+  };
+
+  describe('crc16', () => {
+    it('should match the CRC-16/CMS check value', () => {
+      expect(crc16(Buffer.from('123456789'))).toBe(0xaee7);
+    });
+  });
+
+  describe('crc16Arc', () => {
+    it('should match the CRC-16/ARC check value', () => {
+      expect(crc16Arc(Buffer.from('123456789'))).toBe(0xbb3d);
+    });
+  });
+
+  describe('verifyFrameCrc', () => {
+    it('should pass a frame with a correct CRC', () => {
+      const { frame, header } = createProtectedFrame();
+
+      expect(verifyFrameCrc(frame, header)).toBe(true);
+    });
+
+    it('should cover mono side information', () => {
+      const { frame, header } = createProtectedFrame(0xc0);
+
+      expect(verifyFrameCrc(frame, header)).toBe(true);
+    });
+
+    it('should fail a frame whose side information is damaged', () => {
+      const { frame, header } = createProtectedFrame();
+      frame.writeUInt8(frame.readUInt8(20) ^ 0x01, 20);
+
+      expect(verifyFrameCrc(frame, header)).toBe(false);
+    });
+
+    it('should return null for unprotected frames', () => {
+      const frame = Buffer.alloc(FRAME_SIZE);
+      Buffer.from([0xff, 0xfb, 0x90, 0x00]).copy(frame);
+      const header = parseFrameHeader(frame, 0) as FrameHeader;
+
+      expect(verifyFrameCrc(frame, header)).toBeNull();
+    });
+
+    it('should return null for protected Layer II frames', () => {
+      const frame = Buffer.alloc(576);
+      Buffer.from([0xff, 0xfc, 0xa4, 0x00]).copy(frame);
+      const header = parseFrameHeader(frame, 0) as FrameHeader;
+
+      expect(verifyFrameCrc(frame, header)).toBeNull();
+    });
+  });
+
+  describe('CrcStats', () => {
+    it('should tally passed, failed and unchecked frames with failure offsets', () => {
+      const crcStats = new CrcStats();
+      const good = createProtectedFrame();
+      const bad = createProtectedFrame();
+      bad.frame.writeUInt8(bad.frame.readUInt8(10) ^ 0xff, 10);
+      const layer2 = Buffer.alloc(576);
+      Buffer.from([0xff, 0xfc, 0xa4, 0x00]).copy(layer2);
+
+      crcStats.add(good.frame, good.header, 0);
+      crcStats.add(bad.frame, bad.header, 417);
+      crcStats.add(good.frame, good.header, 834);
+      crcStats.add(layer2, parseFrameHeader(layer2, 0) as FrameHeader, 1251);
+
+      expect(crcStats.getReport()).toEqual({
+        protectedFrames: 4,
+        passed: 2,
+        failed: 1,
+        unchecked: 1,
+        failedOffsets: [417],
+      });
+      expect(crcStats.failureRate).toBeCloseTo(1 / 3);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { describeFormat, sniffFormat } from '../format-sniffer';
+
+// MPEG1 Layer III, 128kbps, 44.1kHz
+const MP3_HEADER = Buffer.from([0xff, 0xfb, 0x90, 0x00]);
+
+const withText = (text: string, offset = 0, size = 64): Buffer => {
+  const buffer = Buffer.alloc(size);
+  buffer.write(text, offset, 'latin1');
+  return buffer;
+};
+
+// ID3v2.4 tag header followed by `size` bytes of tag data
+const createId3Tag = (size: number): Buffer => {
+  const tag = Buffer.alloc(10 + size);
+  tag.write('ID3', 0, 'latin1');
+  tag[3] = 4;
+  tag[9] = size; // syncsafe size, small enough for the last byte
+  return tag;
+};
+
+describe('sniffFormat', () => {
+  it('should detect an MP3 from its first frame header', () => {
+    expect(sniffFormat(Buffer.concat([MP3_HEADER, Buffer.alloc(60)]))).toBe('mp3');
+  });
+
+  it('should detect an MP3 from its ID3v2 tag', () => {
+    const head = Buffer.concat([createId3Tag(20), MP3_HEADER]);
+    expect(sniffFormat(head)).toBe('mp3');
+  });
+
+  it('should assume MPEG audio after a tag that runs past the bytes read', () => {
+    expect(sniffFormat(createId3Tag(100).subarray(0, 50))).toBe('mp3');
+  });
+
+  it('should look past an ID3v2 tag for other formats', () => {
+    const head = Buffer.concat([createId3Tag(20), withText('fLaC')]);
+    expect(sniffFormat(head)).toBe('flac');
+  });
+
+  it('should detect other audio formats', () => {
+    const wav = withText('RIFF');
+    wav.write('WAVE', 8, 'latin1');
+
+    expect(sniffFormat(wav)).toBe('wav');
+    expect(sniffFormat(withText('fLaC'))).toBe('flac');
+    expect(sniffFormat(withText('OggS'))).toBe('ogg');
+    expect(sniffFormat(withText('ftypM4A ', 4))).toBe('mp4');
+  });
+
+  it('should tell ADTS AAC apart from MPEG audio', () => {
+    // Sync, MPEG-4, layer 00, no CRC
+    expect(sniffFormat(Buffer.from([0xff, 0xf1, 0x50, 0x80, 0x00, 0x1f, 0xfc]))).toBe('aac');
+  });
+
+  it('should not take RIFF files other than WAVE for WAV', () => {
+    const avi = withText('RIFF');
+    avi.write('AVI ', 8, 'latin1');
+
+    expect(sniffFormat(avi)).toBe('unknown');
+  });
+
+  it('should return unknown for anything else', () => {
+    expect(sniffFormat(Buffer.from('not an mp3'))).toBe('unknown');
+    expect(sniffFormat(Buffer.alloc(0))).toBe('unknown');
+  });
+});
+
+describe('describeFormat', () => {
+  it('should name formats for error messages', () => {
+    expect(describeFormat('wav')).toBe('WAV');
+    expect(describeFormat('aac')).toBe('AAC (ADTS)');
+  });
+});
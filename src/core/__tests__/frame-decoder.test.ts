@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { DecodedFrame, FrameDecoder } from '../frame-decoder';
+import { FRAME_SIZE, createFrames } from '../../__tests__/helpers/fixtures';
+
+describe('FrameDecoder', () => {
+  const createId3v2Tag = (bodySize: number): Buffer => {
+    const tag = Buffer.alloc(10 + bodySize);
+    tag.write('ID3', 0, 'latin1');
+    tag.writeUInt8(4, 3);
+    // Syncsafe size
+    tag.writeUInt8((bodySize >> 7) & 0x7f, 8);
+    tag.writeUInt8(bodySize & 0x7f, 9);
+    return tag;
+  };
+
+  const decodeInChunks = (data: Buffer, chunkSize: number): DecodedFrame[] => {
+    const decoder = new FrameDecoder();
+    const frames: DecodedFrame[] = [];
+    for (let start = 0; start < data.length; start += chunkSize) {
+      frames.push(...decoder.write(data.subarray(start, start + chunkSize)));
+    }
+    frames.push(...decoder.end());
+    return frames;
+  };
+
+  it('should find the same frames whatever the chunk size', () => {
+    const data = Buffer.concat([createFrames(20), Buffer.alloc(300, 0x11), createFrames(20)]);
+    const offsets = (frames: DecodedFrame[]) => frames.map((frame) => frame.offset);
+
+    const expected = offsets(decodeInChunks(data, data.length));
+    expect(expected).toHaveLength(40);
+
+    for (const chunkSize of [1, 7, 416, 418, 1000, 4096]) {
+      expect(offsets(decodeInChunks(data, chunkSize))).toEqual(expected);
+    }
+  });
+
+  it('should return frames as views into the written chunk', () => {
+    const chunk = createFrames(5);
+    const decoder = new FrameDecoder();
+
+    const frames = [...decoder.write(chunk), ...decoder.end()];
+
+    expect(frames).toHaveLength(5);
+    expect(frames[1]?.data.buffer === chunk.buffer).toBe(true);
+    expect(frames[1]?.data.byteOffset).toBe(chunk.byteOffset + FRAME_SIZE);
+  });
+
+  it('should skip an ID3v2 tag split across chunks', () => {
+    const tag = createId3v2Tag(2000);
+    const data = Buffer.concat([tag, createFrames(3)]);
+
+    const frames = decodeInChunks(data, 500);
+
+    expect(frames.map((frame) => frame.offset)).toEqual([
+      tag.length,
+      tag.length + FRAME_SIZE,
+      tag.length + 2 * FRAME_SIZE,
+    ]);
+  });
+
+  it('should report where the audio starts after the tag', () => {
+    const tag = createId3v2Tag(100);
+    const decoder = new FrameDecoder();
+
+    decoder.write(Buffer.concat([tag, createFrames(3)]));
+    decoder.end();
+
+    expect(decoder.audioStart).toBe(tag.length);
+    expect(decoder.id3v2Tag).toEqual({ version: '2.4.0', pictures: [] });
+  });
+
+  it('should hold back frames until they and the frames confirming them arrive', () => {
+    const data = createFrames(3);
+    const decoder = new FrameDecoder();
+
+    expect(decoder.write(data.subarray(0, FRAME_SIZE + 10))).toEqual([]);
+    expect(decoder.write(data.subarray(FRAME_SIZE + 10, 2 * FRAME_SIZE + 10))).toHaveLength(2);
+    expect(decoder.write(data.subarray(2 * FRAME_SIZE + 10))).toHaveLength(1);
+    expect(decoder.end()).toEqual([]);
+  });
+});
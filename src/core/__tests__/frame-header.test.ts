@@ -0,0 +1,130 @@
+import { describe, it, expect } from '@jest/globals';
+import { hasFrameSync, parseFrameHeader } from '../frame-header';
+
+describe('frame-header', () => {
+  const createHeader = ({
+    versionBits = 0x03,
+    layerBits = 0x01,
+    protectionBit = 1,
+    bitrateIndex = 9,
+    sampleRateIndex = 0,
+    padding = 0,
+    channelModeBits = 0,
+  }: {
+    versionBits?: number;
+    layerBits?: number;
+    protectionBit?: number;
+    bitrateIndex?: number;
+    sampleRateIndex?: number;
+    padding?: number;
+    channelModeBits?: number;
+  } = {}): Buffer => {
+    const buffer = Buffer.alloc(4);
+
+    buffer[0] = 0xff;
+    buffer[1] = 0xe0 | (versionBits << 3) | (layerBits << 1) | protectionBit;
+    buffer[2] = (bitrateIndex << 4) | (sampleRateIndex << 2) | (padding << 1);
+    buffer[3] = channelModeBits << 6;
+
+    return buffer;
+  };
+
+  describe('hasFrameSync', () => {
+    it('should detect the 11-bit frame sync', () => {
+      expect(hasFrameSync(Buffer.from([0xff, 0xe0]), 0)).toBe(true);
+      expect(hasFrameSync(Buffer.from([0xff, 0xc0]), 0)).toBe(false);
+      expect(hasFrameSync(Buffer.from([0xff]), 0)).toBe(false);
+    });
+  });
+
+  describe('parseFrameHeader', () => {
+    it('should decode an MPEG1 Layer III header', () => {
+      const header = parseFrameHeader(createHeader({ channelModeBits: 1 }), 0);
+
+      expect(header).toEqual({
+        version: '1',
+        layer: 3,
+        hasCrc: false,
+        bitrate: 128,
+        sampleRate: 44100,
+        padding: false,
+        channelMode: 'joint_stereo',
+        modeExtension: 0,
+        samplesPerFrame: 1152,
+        frameSize: 417,
+      });
+    });
+
+    it('should report CRC protection when the protection bit is cleared', () => {
+      expect(parseFrameHeader(createHeader({ protectionBit: 0 }), 0)?.hasCrc).toBe(true);
+    });
+
+    it('should size MPEG2 Layer III frames with 576 samples per frame', () => {
+      // 64 kbps at 22.05 kHz
+      const header = parseFrameHeader(
+        createHeader({ versionBits: 0x02, bitrateIndex: 8, sampleRateIndex: 0, padding: 1 }),
+        0
+      );
+
+      expect(header?.version).toBe('2');
+      expect(header?.sampleRate).toBe(22050);
+      expect(header?.bitrate).toBe(64);
+      expect(header?.samplesPerFrame).toBe(576);
+      expect(header?.frameSize).toBe(Math.floor((72 * 64000) / 22050) + 1);
+    });
+
+    it('should size MPEG2.5 Layer III frames at 8 kHz', () => {
+      // 16 kbps at 8 kHz
+      const header = parseFrameHeader(
+        createHeader({ versionBits: 0x00, bitrateIndex: 2, sampleRateIndex: 2 }),
+        0
+      );
+
+      expect(header?.version).toBe('2.5');
+      expect(header?.sampleRate).toBe(8000);
+      expect(header?.bitrate).toBe(16);
+      expect(header?.frameSize).toBe(144);
+    });
+
+    it('should size MPEG1 Layer II frames', () => {
+      // 384 kbps at 48 kHz
+      const header = parseFrameHeader(
+        createHeader({ layerBits: 0x02, bitrateIndex: 14, sampleRateIndex: 1 }),
+        0
+      );
+
+      expect(header?.layer).toBe(2);
+      expect(header?.bitrate).toBe(384);
+      expect(header?.samplesPerFrame).toBe(1152);
+      expect(header?.frameSize).toBe(1152);
+    });
+
+    it('should size Layer I frames in 4-byte slots', () => {
+      // 448 kbps at 32 kHz with padding
+      const header = parseFrameHeader(
+        createHeader({ layerBits: 0x03, bitrateIndex: 14, sampleRateIndex: 2, padding: 1 }),
+        0
+      );
+
+      expect(header?.layer).toBe(1);
+      expect(header?.bitrate).toBe(448);
+      expect(header?.samplesPerFrame).toBe(384);
+      expect(header?.frameSize).toBe((Math.floor((12 * 448000) / 32000) + 1) * 4);
+    });
+
+    it('should reject the reserved version and layer values', () => {
+      expect(parseFrameHeader(createHeader({ versionBits: 0x01 }), 0)).toBeNull();
+      expect(parseFrameHeader(createHeader({ layerBits: 0x00 }), 0)).toBeNull();
+    });
+
+    it('should reject free-format, reserved bitrate and reserved sample rate indexes', () => {
+      expect(parseFrameHeader(createHeader({ bitrateIndex: 0 }), 0)).toBeNull();
+      expect(parseFrameHeader(createHeader({ bitrateIndex: 15 }), 0)).toBeNull();
+      expect(parseFrameHeader(createHeader({ sampleRateIndex: 3 }), 0)).toBeNull();
+    });
+
+    it('should return null when the header is truncated', () => {
+      expect(parseFrameHeader(createHeader().subarray(0, 3), 0)).toBeNull();
+    });
+  });
+});
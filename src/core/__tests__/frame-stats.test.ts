@@ -0,0 +1,116 @@
+import { describe, it, expect } from '@jest/globals';
+import { FrameStats } from '../frame-stats';
+import { FrameHeader, InvalidMp3Error } from '../../types';
+
+describe('FrameStats', () => {
+  const createHeader = (overrides: Partial<FrameHeader> = {}): FrameHeader => ({
+    version: '1',
+    layer: 3,
+    hasCrc: false,
+    bitrate: 128,
+    sampleRate: 44100,
+    padding: false,
+    channelMode: 'joint_stereo',
+    modeExtension: 0,
+    samplesPerFrame: 1152,
+    frameSize: 417,
+    ...overrides,
+  });
+
+  it('should throw InvalidMp3Error when no frames were added', () => {
+    expect(() => new FrameStats().getStreamProperties(null)).toThrow(InvalidMp3Error);
+  });
+
+  it('should derive duration and a CBR profile from identical frames', () => {
+    const frameStats = new FrameStats();
+    for (let i = 0; i < 100; i++) {
+      frameStats.add(createHeader());
+    }
+
+    expect(frameStats.frameCount).toBe(100);
+    expect(frameStats.getStreamProperties(null)).toEqual({
+      durationMs: Math.round(((100 * 1152) / 44100) * 1000),
+      bitrate: { average: 128, min: 128, max: 128, mode: 'CBR' },
+      sampleRate: 44100,
+      channelMode: 'joint_stereo',
+      mpegVersion: '1',
+      layer: 3,
+      audioBytes: 41700,
+    });
+  });
+
+  it('should classify varying bitrates as VBR', () => {
+    const frameStats = new FrameStats();
+    frameStats.add(createHeader({ bitrate: 96, frameSize: 313 }));
+    frameStats.add(createHeader({ bitrate: 320, frameSize: 1044 }));
+
+    const { bitrate } = frameStats.getStreamProperties(null);
+
+    expect(bitrate.min).toBe(96);
+    expect(bitrate.max).toBe(320);
+    expect(bitrate.mode).toBe('VBR');
+  });
+
+  it('should classify varying bitrates as ABR when the LAME tag says so', () => {
+    const frameStats = new FrameStats();
+    frameStats.add(createHeader({ bitrate: 112, frameSize: 365 }));
+    frameStats.add(createHeader({ bitrate: 160, frameSize: 522 }));
+
+    const { bitrate } = frameStats.getStreamProperties({
+      type: 'Xing',
+      lame: { encoder: 'LAME3.100', vbrMethod: 2 },
+    });
+
+    expect(bitrate.mode).toBe('ABR');
+  });
+
+  it('should use 576 samples per frame for MPEG2 Layer III durations', () => {
+    const frameStats = new FrameStats();
+    for (let i = 0; i < 50; i++) {
+      frameStats.add(
+        createHeader({
+          version: '2',
+          sampleRate: 22050,
+          samplesPerFrame: 576,
+          bitrate: 64,
+          frameSize: 208,
+        })
+      );
+    }
+
+    expect(frameStats.getStreamProperties(null).durationMs).toBe(
+      Math.round(((50 * 576) / 22050) * 1000)
+    );
+  });
+
+  describe('getGapless', () => {
+    it('should remove the encoder delay and padding from the sample count', () => {
+      const frameStats = new FrameStats();
+      for (let i = 0; i < 100; i++) {
+        frameStats.add(createHeader());
+      }
+
+      expect(
+        frameStats.getGapless({
+          encoder: 'LAME3.100',
+          vbrMethod: 1,
+          encoderDelay: 576,
+          encoderPadding: 1200,
+        })
+      ).toEqual({
+        encoderDelay: 576,
+        encoderPadding: 1200,
+        sampleCount: 115200 - 1776,
+        durationMs: ((115200 - 1776) / 44100) * 1000,
+      });
+    });
+
+    it('should return null without delay and padding', () => {
+      const frameStats = new FrameStats();
+      frameStats.add(createHeader());
+
+      expect(frameStats.getGapless(undefined)).toBeNull();
+      expect(frameStats.getGapless({ encoder: 'Lavf', vbrMethod: 0 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { confirmFrame, GapTracker, isSameStream } from '../frame-sync';
+import { parseFrameHeader } from '../frame-header';
+import { FrameHeader } from '../../types';
+import { FRAME_SIZE, createFrames } from '../../__tests__/helpers/fixtures';
+
+describe('frame-sync', () => {
+  const headerAt = (buffer: Buffer, offset: number): FrameHeader => {
+    const header = parseFrameHeader(buffer, offset);
+    if (!header) throw new Error('Test frame header is invalid');
+    return header;
+  };
+
+  describe('isSameStream', () => {
+    it('should allow the bitrate to change but not the sample rate', () => {
+      const buffer = Buffer.from([
+        0xff, 0xfb, 0x90, 0x00, 0xff, 0xfb, 0xb0, 0x00, 0xff, 0xfb, 0x94, 0x00,
+      ]);
+
+      expect(isSameStream(headerAt(buffer, 0), headerAt(buffer, 4))).toBe(true);
+      expect(isSameStream(headerAt(buffer, 0), headerAt(buffer, 8))).toBe(false);
+    });
+  });
+
+  describe('confirmFrame', () => {
+    it('should confirm a frame followed by matching headers', () => {
+      const buffer = createFrames(4);
+
+      expect(confirmFrame(buffer, 0, headerAt(buffer, 0), 2, false)).toBe('confirmed');
+    });
+
+    it('should reject a frame whose successor is not a header', () => {
+      const buffer = createFrames(4);
+      buffer.writeUInt8(0, FRAME_SIZE);
+
+      expect(confirmFrame(buffer, 0, headerAt(buffer, 0), 2, false)).toBe('rejected');
+    });
+
+    it('should ask for more data when the chain runs past the buffer', () => {
+      const buffer = createFrames(2);
+
+      expect(confirmFrame(buffer, 0, headerAt(buffer, 0), 2, false)).toBe('incomplete');
+    });
+
+    it('should accept complete frames that run into the end of the data', () => {
+      const buffer = createFrames(2);
+
+      expect(confirmFrame(buffer, 0, headerAt(buffer, 0), 2, true)).toBe('confirmed');
+      expect(confirmFrame(buffer.subarray(0, 600), 0, headerAt(buffer, 0), 2, true)).toBe(
+        'rejected'
+      );
+    });
+  });
+
+  describe('GapTracker', () => {
+    it('should report bytes between frames and after the last frame', () => {
+      const tracker = new GapTracker();
+      tracker.skip(10);
+      tracker.addFrame(10, 100);
+      tracker.addFrame(150, 100);
+
+      expect(tracker.getGaps(300)).toEqual([
+        { offset: 110, length: 40 },
+        { offset: 250, length: 50 },
+      ]);
+    });
+  });
+});
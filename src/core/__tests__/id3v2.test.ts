@@ -0,0 +1,149 @@
+import { describe, it, expect } from '@jest/globals';
+import { ID3V2_HEADER_SIZE, parseId3v2Header, parseId3v2Tag } from '../id3v2';
+
+describe('id3v2', () => {
+  const toSyncsafe = (value: number): Buffer =>
+    Buffer.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+  const createFrame = (majorVersion: number, id: string, data: Buffer): Buffer => {
+    const header = Buffer.alloc(10);
+    header.write(id, 0, 'latin1');
+    if (majorVersion === 4) {
+      toSyncsafe(data.length).copy(header, 4);
+    } else {
+      header.writeUInt32BE(data.length, 4);
+    }
+    return Buffer.concat([header, data]);
+  };
+
+  const createTag = (majorVersion: number, frames: Buffer[], flags: number = 0): Buffer => {
+    const body = Buffer.concat([...frames, Buffer.alloc(16)]); // trailing padding
+    const header = Buffer.from([0x49, 0x44, 0x33, majorVersion, 0, flags]);
+    return Buffer.concat([header, toSyncsafe(body.length), body]);
+  };
+
+  const textFrame = (text: string, encoding: number = 3): Buffer =>
+    Buffer.concat([Buffer.from([encoding]), Buffer.from(text, encoding === 0 ? 'latin1' : 'utf8')]);
+
+  describe('parseId3v2Header', () => {
+    it('should return null when there is no tag', () => {
+      expect(parseId3v2Header(Buffer.from([0xff, 0xfb, 0x90, 0x00, 0, 0, 0, 0, 0, 0]))).toBeNull();
+    });
+
+    it('should decode the syncsafe tag size', () => {
+      const tag = Buffer.concat([Buffer.from('ID3'), Buffer.from([3, 0, 0]), toSyncsafe(300000)]);
+
+      expect(parseId3v2Header(tag)).toEqual({
+        majorVersion: 3,
+        revision: 0,
+        flags: 0,
+        size: 300000,
+        totalSize: 300010,
+      });
+    });
+
+    it('should include the footer in the total size of an ID3v2.4 tag', () => {
+      const tag = Buffer.concat([Buffer.from('ID3'), Buffer.from([4, 0, 0x10]), toSyncsafe(100)]);
+
+      expect(parseId3v2Header(tag)?.totalSize).toBe(120);
+    });
+
+    it('should reject size bytes with the high bit set', () => {
+      const tag = Buffer.concat([Buffer.from('ID3'), Buffer.from([3, 0, 0, 0, 0, 0x80, 0])]);
+
+      expect(parseId3v2Header(tag)).toBeNull();
+    });
+  });
+
+  describe('parseId3v2Tag', () => {
+    it('should read the common ID3v2.3 text frames and comment', () => {
+      const comment = Buffer.concat([Buffer.from([0]), Buffer.from('eng'), Buffer.from('\0Nice')]);
+      const tagBuffer = createTag(3, [
+        createFrame(3, 'TIT2', textFrame('Song', 0)),
+        createFrame(3, 'TPE1', textFrame('Artist', 0)),
+        createFrame(3, 'TALB', textFrame('Album', 0)),
+        createFrame(3, 'TRCK', textFrame('3/12', 0)),
+        createFrame(3, 'TYER', textFrame('1999', 0)),
+        createFrame(3, 'COMM', comment),
+      ]);
+      const header = parseId3v2Header(tagBuffer);
+      if (!header) throw new Error('Expected a tag header');
+
+      expect(parseId3v2Tag(header, tagBuffer.subarray(ID3V2_HEADER_SIZE))).toEqual({
+        version: '2.3.0',
+        title: 'Song',
+        artist: 'Artist',
+        album: 'Album',
+        track: '3/12',
+        year: '1999',
+        comment: 'Nice',
+        pictures: [],
+      });
+    });
+
+    it('should decode UTF-16 text and TDRC in an ID3v2.4 tag', () => {
+      const utf16 = Buffer.concat([Buffer.from([1, 0xff, 0xfe]), Buffer.from('Café', 'utf16le')]);
+      const tagBuffer = createTag(4, [
+        createFrame(4, 'TIT2', utf16),
+        createFrame(4, 'TDRC', textFrame('2024-05-01')),
+      ]);
+      const header = parseId3v2Header(tagBuffer);
+      if (!header) throw new Error('Expected a tag header');
+
+      const tag = parseId3v2Tag(header, tagBuffer.subarray(ID3V2_HEADER_SIZE));
+
+      expect(tag.version).toBe('2.4.0');
+      expect(tag.title).toBe('Café');
+      expect(tag.year).toBe('2024-05-01');
+    });
+
+    it('should report APIC metadata without the image data', () => {
+      const image = Buffer.alloc(2048, 0xff);
+      const apic = Buffer.concat([
+        Buffer.from([0]),
+        Buffer.from('image/jpeg\0'),
+        Buffer.from([3]),
+        Buffer.from('Cover\0'),
+        image,
+      ]);
+      const tagBuffer = createTag(3, [createFrame(3, 'APIC', apic)]);
+      const header = parseId3v2Header(tagBuffer);
+      if (!header) throw new Error('Expected a tag header');
+
+      expect(parseId3v2Tag(header, tagBuffer.subarray(ID3V2_HEADER_SIZE)).pictures).toEqual([
+        { mimeType: 'image/jpeg', pictureType: 3, description: 'Cover', size: 2048 },
+      ]);
+    });
+
+    it('should skip an ID3v2.3 extended header', () => {
+      const extendedHeader = Buffer.from([0, 0, 0, 6, 0, 0, 0, 0, 0, 0]);
+      const tagBuffer = createTag(
+        3,
+        [extendedHeader, createFrame(3, 'TIT2', textFrame('After extended header', 0))],
+        0x40
+      );
+      const header = parseId3v2Header(tagBuffer);
+      if (!header) throw new Error('Expected a tag header');
+
+      expect(parseId3v2Tag(header, tagBuffer.subarray(ID3V2_HEADER_SIZE)).title).toBe(
+        'After extended header'
+      );
+    });
+
+    it('should read ID3v2.2 frames', () => {
+      const frame = Buffer.concat([
+        Buffer.from('TT2'),
+        Buffer.from([0, 0, 4]),
+        textFrame('Old', 0),
+      ]);
+      const tagBuffer = createTag(2, [frame]);
+      const header = parseId3v2Header(tagBuffer);
+      if (!header) throw new Error('Expected a tag header');
+
+      const tag = parseId3v2Tag(header, tagBuffer.subarray(ID3V2_HEADER_SIZE));
+
+      expect(tag.version).toBe('2.2.0');
+      expect(tag.title).toBe('Old');
+    });
+  });
+});
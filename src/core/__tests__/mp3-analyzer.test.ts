@@ -0,0 +1,137 @@
+import { describe, it, expect } from '@jest/globals';
+import { Readable } from 'stream';
+import { analyzeBuffer, analyzeStream } from '../mp3-analyzer';
+import { NoFramesError, ParseStats, TruncatedFrameError } from '../../types';
+import { FRAME_SIZE, createFrames } from '../../__tests__/helpers/fixtures';
+
+describe('mp3-analyzer', () => {
+  const createId3v1Tag = (): Buffer => {
+    const tag = Buffer.alloc(128);
+    tag.write('TAG', 0, 'latin1');
+    tag.write('Title', 3, 'latin1');
+    return tag;
+  };
+
+  const toStream = (data: Buffer, chunkSize: number): Readable =>
+    Readable.from(
+      Array.from({ length: Math.ceil(data.length / chunkSize) }, (_, i) =>
+        data.subarray(i * chunkSize, (i + 1) * chunkSize)
+      )
+    );
+
+  describe('analyzeStream', () => {
+    it('should match the in-memory analysis', async () => {
+      const data = Buffer.concat([createFrames(400), Buffer.alloc(50, 0x11), createId3v1Tag()]);
+
+      const analysis = await analyzeStream(toStream(data, 16 * 1024));
+
+      expect(analysis).toEqual(analyzeBuffer(data));
+      expect(analysis.frameCount).toBe(400);
+      expect(analysis.trailingTags?.id3v1?.title).toBe('Title');
+      expect(analysis.gaps).toEqual([{ offset: 400 * FRAME_SIZE, length: 50 }]);
+    });
+
+    it('should not count frame syncs inside trailing tags as audio', async () => {
+      // An APEv2 item whose binary value looks like MP3 frames
+      const value = createFrames(3);
+      const item = Buffer.alloc(8 + 6 + value.length);
+      item.writeUInt32LE(value.length, 0);
+      item.writeUInt32LE(1 << 1, 4); // binary
+      item.write('Cover\0', 8, 'latin1');
+      value.copy(item, 14);
+
+      const footer = Buffer.alloc(32);
+      footer.write('APETAGEX', 0, 'latin1');
+      footer.writeUInt32LE(2000, 8);
+      footer.writeUInt32LE(item.length + 32, 12);
+      footer.writeUInt32LE(1, 16);
+
+      const data = Buffer.concat([createFrames(10), item, footer]);
+      const analysis = await analyzeStream(toStream(data, 1000));
+
+      expect(analysis.frameCount).toBe(10);
+      expect(analysis.trailingTags?.apev2?.items).toHaveLength(1);
+    });
+
+    it('should call onFrame for every audio frame in order', async () => {
+      const offsets: number[] = [];
+
+      await analyzeStream(toStream(createFrames(5), 100), {}, (entry) => {
+        offsets.push(entry.offset);
+      });
+
+      expect(offsets).toEqual([0, 1, 2, 3, 4].map((i) => i * FRAME_SIZE));
+    });
+
+    it('should report the frames, bytes and parse time once the stream ends', async () => {
+      const stats: ParseStats[] = [];
+
+      await analyzeStream(toStream(createFrames(5), 100), {
+        onParsed: (parsed) => stats.push(parsed),
+      });
+
+      expect(stats).toEqual([
+        { frameCount: 5, bytesRead: 5 * FRAME_SIZE, parseTimeMs: expect.any(Number) },
+      ]);
+    });
+
+    it('should pass on errors reading the stream partway through', async () => {
+      const failure = Object.assign(new Error('EIO: i/o error, read'), { code: 'EIO' });
+      const stream = Readable.from(
+        (function* () {
+          yield createFrames(10);
+          throw failure;
+        })()
+      );
+
+      await expect(analyzeStream(stream)).rejects.toBe(failure);
+    });
+  });
+
+  describe('analyzeBuffer', () => {
+    it('should report the gapless length from the LAME tag', () => {
+      const infoFrame = createFrames(1);
+      infoFrame.write('Info', 36, 'latin1');
+      infoFrame.writeUInt32BE(0x01, 40);
+      infoFrame.writeUInt32BE(100, 44);
+      infoFrame.write('LAME3.100', 48, 'latin1');
+      infoFrame.writeUIntBE((576 << 12) | 1000, 48 + 21, 3);
+
+      const analysis = analyzeBuffer(Buffer.concat([infoFrame, createFrames(100)]));
+
+      expect(analysis.durationMs).toBe(Math.round(((100 * 1152) / 44100) * 1000));
+      expect(analysis.gapless).toEqual({
+        encoderDelay: 576,
+        encoderPadding: 1000,
+        sampleCount: 100 * 1152 - 1576,
+        durationMs: ((100 * 1152 - 1576) / 44100) * 1000,
+      });
+    });
+
+    it('should leave out the gapless length without a LAME tag', () => {
+      expect(analyzeBuffer(createFrames(10)).gapless).toBeUndefined();
+    });
+
+    it('should throw NoFramesError when there is no audio', () => {
+      expect(() => analyzeBuffer(Buffer.alloc(1000))).toThrow(NoFramesError);
+    });
+
+    it('should reject a cut-short last frame in strict mode only', () => {
+      const data = createFrames(10).subarray(0, FRAME_SIZE * 9 + 100);
+
+      expect(analyzeBuffer(data).frameCount).toBe(9);
+      let error: unknown;
+      try {
+        analyzeBuffer(data, { strict: true });
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(TruncatedFrameError);
+      expect(error).toMatchObject({ code: 'TRUNCATED_FRAME', details: { offset: FRAME_SIZE * 9 } });
+    });
+
+    it('should accept a file that ends on a frame boundary in strict mode', () => {
+      expect(analyzeBuffer(createFrames(10), { strict: true }).frameCount).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from '@jest/globals';
+import { cutMp3, readMp3Source, selectFrames, splitMp3 } from '../mp3-cut';
+import { analyzeBuffer } from '../mp3-analyzer';
+import { InvalidMp3Error, InvalidRangeError } from '../../types';
+import { FRAME_SIZE, createFrames } from '../../__tests__/helpers/fixtures';
+
+describe('mp3-cut', () => {
+  const frameMs = (1152 / 44100) * 1000;
+
+  // Frames numbered in their last byte so that cuts can be checked byte for byte
+  const createMp3Buffer = (numFrames: number): Buffer => {
+    const buffer = createFrames(numFrames);
+    for (let i = 0; i < numFrames; i++) {
+      buffer[(i + 1) * FRAME_SIZE - 1] = i;
+    }
+    return buffer;
+  };
+
+  const createId3v2Tag = (): Buffer => {
+    const frame = Buffer.concat([
+      Buffer.from('TIT2'),
+      Buffer.from([0, 0, 0, 6, 0, 0, 0]),
+      Buffer.from('Title'),
+    ]);
+    const header = Buffer.from([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, frame.length]);
+    return Buffer.concat([header, frame]);
+  };
+
+  const createId3v1Tag = (): Buffer => {
+    const tag = Buffer.alloc(128);
+    tag.write('TAG', 0, 'latin1');
+    tag.write('Old title', 3, 'latin1');
+    return tag;
+  };
+
+  // Numbers of the audio frames in a cut, skipping the Xing/Info frame
+  const frameNumbers = (data: Buffer, audioStart = FRAME_SIZE): number[] => {
+    const numbers: number[] = [];
+    for (let end = audioStart + FRAME_SIZE; end <= data.length; end += FRAME_SIZE) {
+      numbers.push(data[end - 1] as number);
+    }
+    return numbers;
+  };
+
+  describe('readMp3Source', () => {
+    it('should locate the frames and tags', () => {
+      const id3v2 = createId3v2Tag();
+      const id3v1 = createId3v1Tag();
+
+      const source = readMp3Source(Buffer.concat([id3v2, createMp3Buffer(5), id3v1]));
+
+      expect(source.frames).toHaveLength(5);
+      expect(source.frames[0]?.offset).toBe(id3v2.length);
+      expect(source.leadingTag).toEqual(id3v2);
+      expect(source.trailingTags).toEqual(id3v1);
+    });
+
+    it('should reject a file without frames', () => {
+      expect(() => readMp3Source(Buffer.alloc(1000))).toThrow(InvalidMp3Error);
+    });
+  });
+
+  describe('selectFrames', () => {
+    const source = readMp3Source(createMp3Buffer(100));
+    const { frames } = source;
+
+    it('should select a frame range, with the end excluded', () => {
+      const selected = selectFrames(source, { unit: 'frames', start: 10, end: 20 });
+
+      expect(selected).toHaveLength(10);
+      expect(selected[0]).toBe(frames[10]);
+    });
+
+    it('should select from the frame playing at the start time', () => {
+      const selected = selectFrames(source, { unit: 'ms', start: 1000, end: 2000 });
+
+      expect(selected[0]).toBe(frames[Math.floor(1000 / frameMs)]);
+      expect(selected[selected.length - 1]).toBe(frames[Math.ceil(2000 / frameMs) - 1]);
+    });
+
+    it('should run to the end when no end is given', () => {
+      expect(selectFrames(source, { unit: 'frames', start: 95 })).toHaveLength(5);
+      expect(selectFrames(source, { unit: 'frames', start: 95, end: 1000 })).toHaveLength(5);
+    });
+
+    it('should reject ranges outside the audio', () => {
+      expect(() => selectFrames(source, { unit: 'frames', start: 100 })).toThrow(
+        'The file only has 100 frames'
+      );
+      expect(() => selectFrames(source, { unit: 'ms', start: 60000 })).toThrow(InvalidRangeError);
+      expect(() => selectFrames(source, { unit: 'frames', start: 5, end: 5 })).toThrow(
+        'The end of the range must be after its start'
+      );
+    });
+  });
+
+  describe('cutMp3', () => {
+    it('should copy the frames behind an Info frame describing them', () => {
+      const source = readMp3Source(createMp3Buffer(50));
+
+      const cut = cutMp3(source, { unit: 'frames', start: 10, end: 30 });
+      const analysis = analyzeBuffer(cut);
+
+      expect(frameNumbers(cut)).toEqual(Array.from({ length: 20 }, (_, i) => i + 10));
+      expect(analysis.frameCount).toBe(20);
+      expect(analysis.vbrHeader).toMatchObject({ type: 'Info', frames: 20, bytes: cut.length });
+      expect(analysis.frameCountMismatch).toBe(false);
+    });
+
+    it('should mark cuts with mixed bitrates as VBR', () => {
+      const data = createMp3Buffer(4);
+      const louder = Buffer.alloc(627); // 192kbps
+      Buffer.from([0xff, 0xfb, 0xb0, 0x00]).copy(louder);
+
+      const cut = cutMp3(readMp3Source(Buffer.concat([data, louder])), {
+        unit: 'frames',
+        start: 2,
+      });
+
+      expect(analyzeBuffer(cut).vbrHeader?.type).toBe('Xing');
+    });
+
+    it('should only carry the tags over when asked', () => {
+      const id3v2 = createId3v2Tag();
+      const id3v1 = createId3v1Tag();
+      const source = readMp3Source(Buffer.concat([id3v2, createMp3Buffer(10), id3v1]));
+      const range = { unit: 'frames', start: 2, end: 4 } as const;
+
+      const withTags = cutMp3(source, range, { keepTags: true });
+      const withoutTags = cutMp3(source, range);
+
+      expect(withTags.subarray(0, id3v2.length)).toEqual(id3v2);
+      expect(withTags.subarray(-128)).toEqual(id3v1);
+      expect(analyzeBuffer(withTags)).toMatchObject({
+        frameCount: 2,
+        tags: { title: 'Title' },
+        trailingTags: { id3v1: { title: 'Old title' } },
+      });
+      expect(withoutTags.length).toBe(3 * FRAME_SIZE);
+    });
+
+    it('should replace the Xing frame of the source', () => {
+      const data = createMp3Buffer(10);
+      data.write('Xing', 36, 'latin1');
+
+      const cut = cutMp3(readMp3Source(data), { unit: 'frames', start: 0 });
+
+      expect(frameNumbers(cut)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      expect(analyzeBuffer(cut).vbrHeader?.frames).toBe(9);
+    });
+  });
+
+  describe('splitMp3', () => {
+    const source = readMp3Source(createMp3Buffer(25));
+
+    it('should split into segments of a number of frames', () => {
+      const segments = splitMp3(source, 'frames', 10);
+
+      expect(segments.map((segment) => analyzeBuffer(segment).frameCount)).toEqual([10, 10, 5]);
+      expect(frameNumbers(segments[2] as Buffer)).toEqual([20, 21, 22, 23, 24]);
+    });
+
+    it('should split into segments of a duration', () => {
+      const segments = splitMp3(source, 'ms', 200);
+
+      expect(segments.map((segment) => analyzeBuffer(segment).frameCount)).toEqual([8, 8, 7, 2]);
+    });
+
+    it('should not produce empty segments for lengths shorter than a frame', () => {
+      expect(splitMp3(source, 'ms', 10)).toHaveLength(25);
+    });
+
+    it('should refuse to produce too many segments', () => {
+      const long = readMp3Source(createMp3Buffer(1001));
+
+      expect(() => splitMp3(long, 'frames', 1)).toThrow('more than 1000 segments');
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect } from '@jest/globals';
 import { Mp3Parser } from '../mp3-parser';
-import { InvalidMp3Error } from '../../types';
+import { CorruptedMp3Error, InvalidMp3Error } from '../../types';
 import { Express } from 'express';
+import { Readable } from 'stream';
 
 describe('Mp3Parser', () => {
   const createMockFile = (buffer: Buffer): Express.Multer.File => ({
@@ -11,7 +12,7 @@ describe('Mp3Parser', () => {
     mimetype: 'audio/mpeg',
     buffer,
     size: buffer.length,
-    stream: {} as any,
+    stream: Readable.from([]),
     destination: '',
     filename: '',
     path: '',
@@ -53,7 +54,7 @@ describe('Mp3Parser', () => {
   describe('constructor', () => {
     it('should throw InvalidMp3Error if buffer is missing', () => {
       const mockFile = createMockFile(Buffer.alloc(0));
-      (mockFile as any).buffer = undefined;
+      (mockFile as { buffer?: Buffer | undefined }).buffer = undefined;
 
       expect(() => new Mp3Parser(mockFile)).toThrow(InvalidMp3Error);
       expect(() => new Mp3Parser(mockFile)).toThrow('File buffer is missing');
@@ -158,6 +159,97 @@ describe('Mp3Parser', () => {
       expect(results).toEqual([1, 1, 1]);
     });
 
+    it('should count MPEG1 Layer II frames', () => {
+      // MPEG1 Layer II, 192 kbps, 48 kHz: 144 * 192000 / 48000 = 576 bytes
+      const frame = Buffer.alloc(576);
+      Buffer.from([0xff, 0xfd, 0xa4, 0x00]).copy(frame);
+
+      const mockFile = createMockFile(Buffer.concat([frame, frame]));
+      const parser = new Mp3Parser(mockFile);
+
+      expect(parser.getFrameCount()).toBe(2);
+    });
+
+    it('should exclude a VBRI header frame from the frame count', () => {
+      const frameHeader = createValidMp3Frame(128, 44100, 0);
+      const frameSize = Math.floor((144 * 128 * 1000) / 44100);
+
+      const buffer = Buffer.alloc(frameSize * 3);
+      for (let i = 0; i < 3; i++) {
+        frameHeader.copy(buffer, i * frameSize);
+      }
+      buffer.write('VBRI', 36, 'latin1');
+      buffer.writeUInt32BE(2, 36 + 14);
+
+      const mockFile = createMockFile(buffer);
+      const analysis = new Mp3Parser(mockFile).analyze();
+
+      expect(analysis.frameCount).toBe(2);
+      expect(analysis.vbrHeader?.type).toBe('VBRI');
+      expect(analysis.vbrHeader?.frames).toBe(2);
+      expect(analysis.frameCountMismatch).toBe(false);
+    });
+
+    it('should skip a leading ID3v2 tag', () => {
+      const frameHeader = createValidMp3Frame(128, 44100, 0);
+      const frameSize = Math.floor((144 * 128 * 1000) / 44100);
+      const frameData = Buffer.alloc(frameSize);
+      frameHeader.copy(frameData);
+
+      // Tag body containing a false frame sync
+      const tagBody = Buffer.alloc(20);
+      frameHeader.copy(tagBody, 0);
+      const tagHeader = Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, tagBody.length]);
+
+      const mockFile = createMockFile(Buffer.concat([tagHeader, tagBody, frameData]));
+      const analysis = new Mp3Parser(mockFile).analyze();
+
+      expect(analysis.frameCount).toBe(1);
+      expect(analysis.tags).toEqual({ version: '2.4.0', pictures: [] });
+    });
+
+    it('should only fail strict parsing when CRC failures exceed the threshold', () => {
+      const frameHeader = createValidMp3Frame(128, 44100, 0);
+      const frameSize = Math.floor((144 * 128 * 1000) / 44100);
+
+      // Protected frames with a zero CRC word, which never matches their contents
+      const buffer = Buffer.alloc(frameSize * 2);
+      for (let i = 0; i < 2; i++) {
+        frameHeader.copy(buffer, i * frameSize);
+      }
+
+      const mockFile = createMockFile(buffer);
+
+      expect(new Mp3Parser(mockFile).analyze().crc.failed).toBe(2);
+      expect(() => new Mp3Parser(mockFile, { strict: true }).analyze()).toThrow(CorruptedMp3Error);
+      expect(
+        new Mp3Parser(mockFile, { strict: true, crcFailureThreshold: 1 }).analyze().frameCount
+      ).toBe(2);
+    });
+
+    it('should ignore a false sync in junk and report the skipped bytes as a gap', () => {
+      const frameHeader = createValidMp3Frame(128, 44100, 0);
+      const frameSize = Math.floor((144 * 128 * 1000) / 44100);
+
+      const createFrames = (count: number): Buffer => {
+        const frames = Buffer.alloc(frameSize * count);
+        for (let i = 0; i < count; i++) {
+          frameHeader.copy(frames, i * frameSize);
+        }
+        return frames;
+      };
+
+      // A lone header in the junk whose successor would land mid-frame
+      const junk = Buffer.alloc(100, 0x11);
+      frameHeader.copy(junk, 10);
+
+      const mockFile = createMockFile(Buffer.concat([createFrames(3), junk, createFrames(3)]));
+      const analysis = new Mp3Parser(mockFile).analyze();
+
+      expect(analysis.frameCount).toBe(6);
+      expect(analysis.gaps).toEqual([{ offset: 3 * frameSize, length: 100 }]);
+    });
+
     it('should handle different sample rates correctly', () => {
       const sampleRates = [44100, 48000, 32000];
       const results = sampleRates.map((sampleRate) => {
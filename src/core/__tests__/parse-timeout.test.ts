@@ -0,0 +1,47 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { withParseTimeout } from '../parse-timeout';
+import { Mp3Analyzer } from '../mp3-analyzer';
+import { ParseTimeoutError, ParserOptions } from '../../types';
+
+describe('withParseTimeout', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should leave the options alone without a timeout', async () => {
+    const options = { strict: true };
+    expect(await withParseTimeout(options, 0, (given) => given)).toBe(options);
+  });
+
+  it('should stop the analysis once the timeout has passed', async () => {
+    jest.useFakeTimers();
+
+    const parsing = withParseTimeout({ strict: true }, 1000, (options) => {
+      const analyzer = new Mp3Analyzer(options);
+      expect(options.strict).toBe(true);
+      analyzer.write(Buffer.alloc(100));
+
+      jest.advanceTimersByTime(1000);
+      expect(() => analyzer.write(Buffer.alloc(100))).toThrow(ParseTimeoutError);
+      return analyzer.end();
+    });
+
+    await expect(parsing).rejects.toThrow('Parsing took longer than 1000 ms');
+  });
+
+  it('should clear the timer once parsing settles', async () => {
+    jest.useFakeTimers();
+    let signal: AbortSignal | undefined;
+
+    await withParseTimeout({}, 1000, (options: ParserOptions) => {
+      signal = options.signal;
+    });
+    await expect(
+      withParseTimeout({}, 1000, () => Promise.reject(new Error('Bad data')))
+    ).rejects.toThrow('Bad data');
+
+    expect(jest.getTimerCount()).toBe(0);
+    jest.advanceTimersByTime(1000);
+    expect(signal?.aborted).toBe(false);
+  });
+});
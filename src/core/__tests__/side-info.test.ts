@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseFrameHeader } from '../frame-header';
+import { parseSideInfo } from '../side-info';
+import { FrameHeader } from '../../types';
+
+describe('side-info', () => {
+  const writeBits = (buffer: Buffer, bitOffset: number, count: number, value: number): void => {
+    for (let i = 0; i < count; i++) {
+      const bit = bitOffset + i;
+      if ((value >> (count - 1 - i)) & 1) {
+        buffer.writeUInt8(buffer.readUInt8(bit >> 3) | (0x80 >> (bit & 7)), bit >> 3);
+      }
+    }
+  };
+
+  const createFrame = (
+    headerBytes: number[],
+    size: number
+  ): { frame: Buffer; header: FrameHeader } => {
+    const frame = Buffer.alloc(size);
+    Buffer.from(headerBytes).copy(frame);
+    return { frame, header: parseFrameHeader(frame, 0) as FrameHeader };
+  };
+
+  it('should read every granule and channel of an MPEG1 stereo frame', () => {
+    const { frame, header } = createFrame([0xff, 0xfb, 0x90, 0x00], 417);
+    writeBits(frame, 32, 9, 300); // main_data_begin
+    // Granule entries follow the private and scfsi bits, 59 bits each
+    for (let i = 0; i < 4; i++) {
+      const offset = 32 + 9 + 3 + 8 + i * 59;
+      writeBits(frame, offset, 12, 1000 + i);
+      writeBits(frame, offset + 12, 9, 200 + i);
+      writeBits(frame, offset + 21, 8, 150 + i);
+    }
+
+    expect(parseSideInfo(frame, header)).toEqual({
+      mainDataBegin: 300,
+      granules: [
+        [
+          { part2_3Length: 1000, bigValues: 200, globalGain: 150 },
+          { part2_3Length: 1001, bigValues: 201, globalGain: 151 },
+        ],
+        [
+          { part2_3Length: 1002, bigValues: 202, globalGain: 152 },
+          { part2_3Length: 1003, bigValues: 203, globalGain: 153 },
+        ],
+      ],
+    });
+  });
+
+  it('should skip the CRC and read the single granule of an MPEG2 mono frame', () => {
+    // MPEG2 Layer III, 64 kbps, 22.05 kHz, protected, mono
+    const { frame, header } = createFrame([0xff, 0xf2, 0x80, 0xc0], 209);
+    const offset = 48 + 8 + 1;
+    writeBits(frame, offset, 12, 77);
+    writeBits(frame, offset + 12, 9, 5);
+    writeBits(frame, offset + 21, 8, 99);
+
+    expect(parseSideInfo(frame, header)?.granules).toEqual([
+      [{ part2_3Length: 77, bigValues: 5, globalGain: 99 }],
+    ]);
+  });
+
+  it('should return null for other layers and short frames', () => {
+    const layer2 = createFrame([0xff, 0xfd, 0x90, 0x00], 417);
+    const layer3 = createFrame([0xff, 0xfb, 0x90, 0x00], 417);
+
+    expect(parseSideInfo(layer2.frame, layer2.header)).toBeNull();
+    expect(parseSideInfo(layer3.frame.subarray(0, 20), layer3.header)).toBeNull();
+  });
+});
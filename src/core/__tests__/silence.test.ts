@@ -0,0 +1,116 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseFrameHeader } from '../frame-header';
+import { SilenceDetector } from '../silence';
+import { analyzeBuffer } from '../mp3-analyzer';
+import { FrameHeader } from '../../types';
+
+describe('silence', () => {
+  const FRAME_SIZE = 417; // 128kbps, 44.1kHz, MPEG1 Layer III, stereo
+  const FRAME_MS = (1152 / 44100) * 1000;
+
+  const writeBits = (buffer: Buffer, bitOffset: number, count: number, value: number): void => {
+    for (let i = 0; i < count; i++) {
+      const bit = bitOffset + i;
+      if ((value >> (count - 1 - i)) & 1) {
+        buffer.writeUInt8(buffer.readUInt8(bit >> 3) | (0x80 >> (bit & 7)), bit >> 3);
+      }
+    }
+  };
+
+  // A frame whose four granule entries all have the given side information
+  const createFrame = (part2_3Length = 0, bigValues = 0, globalGain = 0): Buffer => {
+    const frame = Buffer.alloc(FRAME_SIZE);
+    Buffer.from([0xff, 0xfb, 0x90, 0x00]).copy(frame);
+    for (let i = 0; i < 4; i++) {
+      const offset = 52 + i * 59;
+      writeBits(frame, offset, 12, part2_3Length);
+      writeBits(frame, offset + 12, 9, bigValues);
+      writeBits(frame, offset + 21, 8, globalGain);
+    }
+    return frame;
+  };
+
+  const silent = () => createFrame();
+  const loud = () => createFrame(2000, 200, 180);
+
+  const header = parseFrameHeader(silent(), 0) as FrameHeader;
+
+  const detect = (frames: Buffer[], detector = new SilenceDetector(-60, 50)) => {
+    frames.forEach((frame, i) => detector.add(frame, header, i * FRAME_MS));
+    return detector.getReport(frames.length * FRAME_MS);
+  };
+
+  describe('SilenceDetector', () => {
+    it('should report leading, internal and trailing silence', () => {
+      const frames = [
+        ...Array.from({ length: 3 }, silent),
+        loud(),
+        ...Array.from({ length: 2 }, silent),
+        loud(),
+        ...Array.from({ length: 4 }, silent),
+      ];
+
+      expect(detect(frames)).toEqual({
+        thresholdDb: -60,
+        silentFrames: 9,
+        leading: { startMs: 0, endMs: 3 * FRAME_MS },
+        internal: [{ startMs: 4 * FRAME_MS, endMs: 6 * FRAME_MS }],
+        trailing: { startMs: 7 * FRAME_MS, endMs: 11 * FRAME_MS },
+      });
+    });
+
+    it('should only list internal silences of the minimum length', () => {
+      const frames = [loud(), silent(), loud(), silent(), silent(), loud()];
+
+      expect(detect(frames)?.internal).toEqual([{ startMs: 3 * FRAME_MS, endMs: 5 * FRAME_MS }]);
+    });
+
+    it('should use global_gain to tell quiet frames from audible ones', () => {
+      // Only ±1 values: about -90 dBFS at a gain of 150, about -30 dBFS at 190
+      const quiet = createFrame(100, 0, 150);
+      const audible = createFrame(100, 0, 190);
+
+      expect(detect([quiet, audible])?.leading).toEqual({ startMs: 0, endMs: FRAME_MS });
+      expect(detect([audible, audible])?.silentFrames).toBe(0);
+      expect(detect([audible], new SilenceDetector(-20, 50))?.silentFrames).toBe(1);
+    });
+
+    it('should report a silent file as leading silence only', () => {
+      expect(detect([silent(), silent()])).toEqual({
+        thresholdDb: -60,
+        silentFrames: 2,
+        leading: { startMs: 0, endMs: 2 * FRAME_MS },
+        internal: [],
+      });
+    });
+
+    it('should return null for other layers', () => {
+      const detector = new SilenceDetector();
+      const layer2 = Buffer.from([0xff, 0xfd, 0x90, 0x00]);
+      detector.add(
+        Buffer.concat([layer2, Buffer.alloc(413)]),
+        parseFrameHeader(layer2, 0) as FrameHeader,
+        0
+      );
+
+      expect(detector.getReport(FRAME_MS)).toBeNull();
+    });
+  });
+
+  it('should be part of the analysis, using the parser options', () => {
+    const data = Buffer.concat([
+      ...Array.from({ length: 10 }, silent),
+      ...Array.from({ length: 10 }, loud),
+      ...Array.from({ length: 40 }, silent),
+      loud(),
+    ]);
+
+    expect(analyzeBuffer(data).silence).toMatchObject({
+      silentFrames: 50,
+      leading: { startMs: 0, endMs: expect.closeTo(10 * FRAME_MS) },
+      internal: [{ startMs: expect.closeTo(20 * FRAME_MS), endMs: expect.closeTo(60 * FRAME_MS) }],
+    });
+    expect(analyzeBuffer(data, { minSilenceMs: 2000 }).silence?.internal).toEqual([]);
+    expect(analyzeBuffer(data, { silenceThresholdDb: -100 }).silence?.thresholdDb).toBe(-100);
+  });
+});
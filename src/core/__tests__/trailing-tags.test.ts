@@ -0,0 +1,132 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseTrailingTags } from '../trailing-tags';
+
+describe('trailing-tags', () => {
+  const createId3v1 = (track?: number): Buffer => {
+    const tag = Buffer.alloc(128);
+    tag.write('TAG', 0, 'latin1');
+    tag.write('Title', 3, 'latin1');
+    tag.write('Artist', 33, 'latin1');
+    tag.write('Album', 63, 'latin1');
+    tag.write('2001', 93, 'latin1');
+    tag.write('A comment', 97, 'latin1');
+    if (track !== undefined) {
+      tag[126] = track;
+    }
+    tag[127] = 17;
+    return tag;
+  };
+
+  const createApeItem = (key: string, value: Buffer, flags: number = 0): Buffer => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(value.length, 0);
+    header.writeUInt32LE(flags, 4);
+    return Buffer.concat([header, Buffer.from(`${key}\0`, 'latin1'), value]);
+  };
+
+  const createApeTag = (items: Buffer[], withHeader: boolean): Buffer => {
+    const itemData = Buffer.concat(items);
+    const createHeaderOrFooter = (isHeader: boolean): Buffer => {
+      const block = Buffer.alloc(32);
+      block.write('APETAGEX', 0, 'latin1');
+      block.writeUInt32LE(2000, 8);
+      block.writeUInt32LE(itemData.length + 32, 12);
+      block.writeUInt32LE(items.length, 16);
+      block.writeUInt32LE(((withHeader ? 0x80000000 : 0) | (isHeader ? 0x20000000 : 0)) >>> 0, 20);
+      return block;
+    };
+
+    return Buffer.concat([
+      ...(withHeader ? [createHeaderOrFooter(true)] : []),
+      itemData,
+      createHeaderOrFooter(false),
+    ]);
+  };
+
+  const createLyrics3 = (): Buffer => {
+    const fields = 'IND00002' + '10' + 'LYR00005' + 'Hello' + 'ETT00004' + 'Song';
+    const body = `LYRICSBEGIN${fields}`;
+    return Buffer.from(`${body}${String(body.length).padStart(6, '0')}LYRICS200`, 'latin1');
+  };
+
+  const audio = Buffer.alloc(1000, 0x11);
+
+  describe('parseTrailingTags', () => {
+    it('should report no tags for plain audio data', () => {
+      expect(parseTrailingTags(audio)).toEqual({ tags: {}, size: 0 });
+    });
+
+    it('should parse an ID3v1.1 tag with a track number', () => {
+      const result = parseTrailingTags(Buffer.concat([audio, createId3v1(7)]));
+
+      expect(result.size).toBe(128);
+      expect(result.tags.id3v1).toEqual({
+        version: '1.1',
+        title: 'Title',
+        artist: 'Artist',
+        album: 'Album',
+        year: '2001',
+        comment: 'A comment',
+        track: 7,
+        genre: 17,
+      });
+    });
+
+    it('should parse an ID3v1.0 tag', () => {
+      const result = parseTrailingTags(Buffer.concat([audio, createId3v1()]));
+
+      expect(result.tags.id3v1?.version).toBe('1.0');
+      expect(result.tags.id3v1?.track).toBeUndefined();
+    });
+
+    it('should parse an APEv2 tag with a header', () => {
+      const apeTag = createApeTag(
+        [
+          createApeItem('Title', Buffer.from('Ape Title')),
+          createApeItem('Cover Art (Front)', Buffer.alloc(50, 0xff), 0x02),
+        ],
+        true
+      );
+
+      const result = parseTrailingTags(Buffer.concat([audio, apeTag]));
+
+      expect(result.size).toBe(apeTag.length);
+      expect(result.tags.apev2).toEqual({
+        version: 2000,
+        size: apeTag.length,
+        items: [
+          { key: 'Title', type: 'text', value: 'Ape Title', size: 9 },
+          { key: 'Cover Art (Front)', type: 'binary', size: 50 },
+        ],
+      });
+    });
+
+    it('should find APEv2 without a header, Lyrics3v2 and ID3v1 stacked together', () => {
+      const apeTag = createApeTag([createApeItem('Artist', Buffer.from('Someone'))], false);
+      const lyrics = createLyrics3();
+      const id3v1 = createId3v1();
+
+      const result = parseTrailingTags(Buffer.concat([audio, apeTag, lyrics, id3v1]));
+
+      expect(result.size).toBe(apeTag.length + lyrics.length + id3v1.length);
+      expect(result.tags.apev2?.items).toEqual([
+        { key: 'Artist', type: 'text', value: 'Someone', size: 7 },
+      ]);
+      expect(result.tags.lyrics3).toEqual({
+        version: '2.00',
+        size: lyrics.length,
+        fields: { IND: '10', LYR: 'Hello', ETT: 'Song' },
+      });
+      expect(result.tags.id3v1?.title).toBe('Title');
+    });
+
+    it('should count the full size of a tag that starts before the data', () => {
+      const apeTag = createApeTag([createApeItem('Title', Buffer.alloc(500, 0x41))], true);
+
+      const result = parseTrailingTags(apeTag.subarray(apeTag.length - 100));
+
+      expect(result.size).toBe(apeTag.length);
+      expect(result.tags.apev2?.items).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseFrameHeader } from '../frame-header';
+import { createXingFrame, parseVbrHeader } from '../vbr-header';
+import { crc16Arc } from '../crc';
+import { FrameHeader } from '../../types';
+
+describe('vbr-header', () => {
+  // MPEG1 Layer III, 128 kbps, 44.1 kHz, no CRC
+  const STEREO_HEADER = [0xff, 0xfb, 0x90, 0x00];
+  const MONO_HEADER = [0xff, 0xfb, 0x90, 0xc0];
+  const FRAME_SIZE = 417;
+
+  const createFrame = (headerBytes: number[]): { frame: Buffer; header: FrameHeader } => {
+    const frame = Buffer.alloc(FRAME_SIZE);
+    Buffer.from(headerBytes).copy(frame);
+    const header = parseFrameHeader(frame, 0);
+    if (!header) {
+      throw new Error('Test frame header is invalid');
+    }
+    return { frame, header };
+  };
+
+  describe('parseVbrHeader', () => {
+    it('should return null for a plain audio frame', () => {
+      const { frame, header } = createFrame(STEREO_HEADER);
+
+      expect(parseVbrHeader(frame, header)).toBeNull();
+    });
+
+    it('should parse a Xing header with all fields after stereo side info', () => {
+      const { frame, header } = createFrame(STEREO_HEADER);
+      const offset = 4 + 32;
+      frame.write('Xing', offset, 'latin1');
+      frame.writeUInt32BE(0x0f, offset + 4);
+      frame.writeUInt32BE(1234, offset + 8);
+      frame.writeUInt32BE(567890, offset + 12);
+      for (let i = 0; i < 100; i++) {
+        frame[offset + 16 + i] = i * 2;
+      }
+      frame.writeUInt32BE(78, offset + 116);
+
+      const vbrHeader = parseVbrHeader(frame, header);
+
+      expect(vbrHeader?.type).toBe('Xing');
+      expect(vbrHeader?.frames).toBe(1234);
+      expect(vbrHeader?.bytes).toBe(567890);
+      expect(vbrHeader?.toc).toHaveLength(100);
+      expect(vbrHeader?.toc?.[10]).toBe(20);
+      expect(vbrHeader?.quality).toBe(78);
+    });
+
+    it('should read the LAME encoder version and VBR method after the Xing fields', () => {
+      const { frame, header } = createFrame(STEREO_HEADER);
+      const offset = 4 + 32;
+      frame.write('Xing', offset, 'latin1');
+      frame.writeUInt32BE(0x01, offset + 4);
+      frame.writeUInt32BE(500, offset + 8);
+      frame.write('LAME3.100', offset + 12, 'latin1');
+      frame[offset + 21] = 0x12; // revision 1, ABR
+
+      expect(parseVbrHeader(frame, header)?.lame).toMatchObject({
+        encoder: 'LAME3.100',
+        vbrMethod: 2,
+      });
+    });
+
+    it('should read the rest of a LAME tag and check its CRC', () => {
+      const { frame, header } = createFrame(STEREO_HEADER);
+      const offset = 4 + 32;
+      frame.write('Info', offset, 'latin1');
+      frame.writeUInt32BE(0x0f, offset + 4);
+      const lameOffset = offset + 120;
+      frame.write('LAME3.100', lameOffset, 'latin1');
+      frame[lameOffset + 9] = 0x01; // revision 0, CBR
+      frame[lameOffset + 10] = 160; // 16 kHz lowpass
+      frame.writeUInt32BE(0x00700000, lameOffset + 11); // peak 0.875
+      frame.writeUInt16BE((1 << 13) | (3 << 10) | 0x200 | 65, lameOffset + 15); // track -6.5 dB
+      frame.writeUInt16BE((2 << 13) | (1 << 10) | 12, lameOffset + 17); // album +1.2 dB
+      frame.writeUIntBE((576 << 12) | 1234, lameOffset + 21, 3);
+      frame.writeUInt32BE(123456, lameOffset + 28);
+      frame.writeUInt16BE(0xbeef, lameOffset + 32);
+      frame.writeUInt16BE(crc16Arc(frame.subarray(0, lameOffset + 34)), lameOffset + 34);
+
+      expect(parseVbrHeader(frame, header)?.lame).toEqual({
+        encoder: 'LAME3.100',
+        vbrMethod: 1,
+        revision: 0,
+        lowpassHz: 16000,
+        replayGain: {
+          peak: 0.875,
+          track: { gainDb: -6.5, originator: 'automatic' },
+          album: { gainDb: 1.2, originator: 'artist' },
+        },
+        encoderDelay: 576,
+        encoderPadding: 1234,
+        musicLength: 123456,
+        musicCrc: 0xbeef,
+        tagCrcValid: true,
+      });
+
+      frame.writeUInt8(0xff, lameOffset + 22);
+      expect(parseVbrHeader(frame, header)?.lame?.tagCrcValid).toBe(false);
+    });
+
+    it('should leave out the LAME fields that do not fit in the frame', () => {
+      const { frame, header } = createFrame(STEREO_HEADER);
+      const offset = 4 + 32;
+      frame.write('Xing', offset, 'latin1');
+      frame.writeUInt32BE(0x01, offset + 4);
+      frame.write('LAME3.100', offset + 12, 'latin1');
+
+      expect(parseVbrHeader(frame.subarray(0, offset + 40), header)?.lame).toEqual({
+        encoder: 'LAME3.100',
+        vbrMethod: 0,
+      });
+    });
+
+    it('should parse an Info header after mono side info with only the flagged fields', () => {
+      const { frame, header } = createFrame(MONO_HEADER);
+      const offset = 4 + 17;
+      frame.write('Info', offset, 'latin1');
+      frame.writeUInt32BE(0x02, offset + 4);
+      frame.writeUInt32BE(4096, offset + 8);
+
+      expect(parseVbrHeader(frame, header)).toEqual({ type: 'Info', bytes: 4096 });
+    });
+
+    it('should parse a VBRI header with its scaled TOC', () => {
+      const { frame, header } = createFrame(STEREO_HEADER);
+      const offset = 36;
+      frame.write('VBRI', offset, 'latin1');
+      frame.writeUInt16BE(1, offset + 4); // version
+      frame.writeUInt16BE(1105, offset + 6); // delay
+      frame.writeUInt16BE(75, offset + 8); // quality
+      frame.writeUInt32BE(100000, offset + 10); // bytes
+      frame.writeUInt32BE(240, offset + 14); // frames
+      frame.writeUInt16BE(3, offset + 18); // TOC entries
+      frame.writeUInt16BE(2, offset + 20); // scale
+      frame.writeUInt16BE(2, offset + 22); // entry size
+      frame.writeUInt16BE(80, offset + 24); // frames per entry
+      frame.writeUInt16BE(100, offset + 26);
+      frame.writeUInt16BE(200, offset + 28);
+      frame.writeUInt16BE(300, offset + 30);
+
+      expect(parseVbrHeader(frame, header)).toEqual({
+        type: 'VBRI',
+        frames: 240,
+        bytes: 100000,
+        quality: 75,
+        toc: [200, 400, 600],
+      });
+    });
+  });
+
+  describe('createXingFrame', () => {
+    it('should write a header that parseVbrHeader reads back', () => {
+      const { frame: first } = createFrame(STEREO_HEADER);
+      const sizes = Array.from({ length: 200 }, (_, i) => (i % 2 === 0 ? 417 : 418));
+
+      const frame = createXingFrame(first, 'Info', sizes) as Buffer;
+      const header = parseFrameHeader(frame, 0) as FrameHeader;
+      const vbrHeader = parseVbrHeader(frame, header);
+
+      expect(frame.length).toBe(FRAME_SIZE);
+      expect(header.hasCrc).toBe(false);
+      expect(vbrHeader).toMatchObject({ type: 'Info', frames: 200, bytes: 417 + 83500 });
+      expect(vbrHeader?.toc).toHaveLength(100);
+      expect(vbrHeader?.toc?.[0]).toBe(Math.floor((417 / 83917) * 256));
+      expect(vbrHeader?.toc?.[50]).toBe(Math.floor(((417 + 100 * 417.5) / 83917) * 256));
+      expect(vbrHeader?.toc).toEqual([...(vbrHeader?.toc ?? [])].sort((a, b) => a - b));
+    });
+
+    it('should raise the bitrate when the frame is too small for the tag', () => {
+      // MPEG1 Layer III, 32 kbps, 48 kHz: 96-byte frames
+      const { frame: first } = createFrame([0xff, 0xfb, 0x14, 0x00]);
+
+      const frame = createXingFrame(first, 'Xing', [96, 96]) as Buffer;
+      const header = parseFrameHeader(frame, 0) as FrameHeader;
+
+      expect(header.bitrate).toBeGreaterThan(32);
+      expect(header.frameSize).toBe(frame.length);
+      expect(parseVbrHeader(frame, header)).toMatchObject({ type: 'Xing', frames: 2 });
+    });
+
+    it('should return null for other layers', () => {
+      // MPEG1 Layer II
+      const { frame: first } = createFrame([0xff, 0xfd, 0x90, 0x00]);
+
+      expect(createXingFrame(first, 'Info', [417])).toBeNull();
+    });
+  });
+});
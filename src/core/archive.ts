@@ -0,0 +1,386 @@
+import * as fs from 'fs';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { InvalidArchiveError } from '../types';
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+export type ArchiveType = 'zip' | 'tar' | 'tar.gz';
+
+export interface ArchiveLimits {
+  // Largest file that will be extracted
+  maxEntrySize: number;
+  // Largest archive a gzip stream may expand to
+  maxExtractedSize: number;
+}
+
+export interface ArchiveFile {
+  name: string;
+  data: Buffer;
+}
+
+export interface ArchiveEntry {
+  // Path of the file inside the archive
+  name: string;
+  // Uncompressed size as declared by the archive
+  size: number;
+  // Extracts the file; entries are only read and decompressed when asked for
+  read: () => Promise<Buffer>;
+}
+
+export interface Archive {
+  entries: ArchiveEntry[];
+  // Closes the file and deletes anything expanded from it; entries can't be read after
+  close: () => Promise<void>;
+}
+
+// Random access to the bytes of an archive file
+interface ArchiveSource {
+  size: number;
+  // Fewer bytes come back when the archive ends first
+  read: (position: number, length: number) => Promise<Buffer>;
+}
+
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP_END_SIZE = 22;
+const ZIP_MAX_COMMENT_SIZE = 0xffff;
+const ZIP_ENCRYPTED_FLAG = 0x0001;
+const ZIP_UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20; // 2.0, the lowest version that supports deflate and directories
+const ZIP_DOS_DATE_1980 = 0x0021; // 1 January 1980, the earliest date a zip can hold
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+const TAR_BLOCK_SIZE = 512;
+const TAR_MAGIC_OFFSET = 257;
+const TAR_MAX_NAME_SIZE = 64 * 1024; // a GNU long name or pax header
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Identifies a zip, tar or gzipped tar archive from its first bytes. Anything else
+ * (such as an MP3) returns null. A gzip stream is assumed to contain a tar archive.
+ */
+export const detectArchive = (head: Buffer): ArchiveType | null => {
+  if (head.length >= 4) {
+    const signature = head.readUInt32LE(0);
+    if (signature === ZIP_LOCAL_HEADER_SIGNATURE || signature === ZIP_END_SIGNATURE) {
+      return 'zip';
+    }
+  }
+  if (head[0] === GZIP_MAGIC[0] && head[1] === GZIP_MAGIC[1]) {
+    return 'tar.gz';
+  }
+  if (head.toString('latin1', TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + 5) === 'ustar') {
+    return 'tar';
+  }
+  return null;
+};
+
+const fileSource = async (handle: fs.promises.FileHandle): Promise<ArchiveSource> => {
+  const { size } = await handle.stat();
+  return {
+    size,
+    read: async (position, length) => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+      return buffer.subarray(0, bytesRead);
+    },
+  };
+};
+
+const checkEntrySize = (name: string, size: number, maxEntrySize: number): void => {
+  if (size > maxEntrySize) {
+    throw new InvalidArchiveError(`${name} is too large`);
+  }
+};
+
+// The most deflate can grow `size` bytes, as zlib's deflateBound works it out
+const maxDeflatedSize = (size: number): number =>
+  size + Math.floor(size / 4096) + Math.floor(size / 16384) + Math.floor(size / 33554432) + 13;
+
+const readZip = async (source: ArchiveSource, maxEntrySize: number): Promise<ArchiveEntry[]> => {
+  // The end of central directory record sits before an optional comment
+  const tailStart = Math.max(0, source.size - ZIP_END_SIZE - ZIP_MAX_COMMENT_SIZE);
+  const tail = await source.read(tailStart, source.size - tailStart);
+  let endOffset = -1;
+  for (let offset = tail.length - ZIP_END_SIZE; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) === ZIP_END_SIGNATURE) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new InvalidArchiveError('Invalid zip archive');
+  }
+
+  const entryCount = tail.readUInt16LE(endOffset + 10);
+  const directorySize = tail.readUInt32LE(endOffset + 12);
+  const directoryOffset = tail.readUInt32LE(endOffset + 16);
+  if (directoryOffset === 0xffffffff) {
+    throw new InvalidArchiveError('ZIP64 archives are not supported');
+  }
+  // The central directory ends where the end record starts
+  if (directoryOffset + directorySize > tailStart + endOffset) {
+    throw new InvalidArchiveError('Invalid zip archive');
+  }
+  const directory = await source.read(directoryOffset, directorySize);
+
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > directory.length ||
+      directory.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new InvalidArchiveError('Invalid zip archive');
+    }
+
+    const flags = directory.readUInt16LE(offset + 8);
+    const method = directory.readUInt16LE(offset + 10);
+    const compressedSize = directory.readUInt32LE(offset + 20);
+    const size = directory.readUInt32LE(offset + 24);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const localOffset = directory.readUInt32LE(offset + 42);
+    const name = directory.toString(
+      flags & ZIP_UTF8_FLAG ? 'utf8' : 'latin1',
+      offset + 46,
+      offset + 46 + nameLength
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (flags & ZIP_ENCRYPTED_FLAG) {
+          throw new InvalidArchiveError(`${name} is encrypted`);
+        }
+        checkEntrySize(name, size, maxEntrySize);
+        if (method !== ZIP_STORED && method !== ZIP_DEFLATED) {
+          throw new InvalidArchiveError(`${name} uses an unsupported compression method`);
+        }
+        // Checked as well, so that a false size can't make the entry read any larger
+        if (compressedSize > (method === ZIP_STORED ? size : maxDeflatedSize(size))) {
+          throw new InvalidArchiveError('Invalid zip archive');
+        }
+
+        const header = await source.read(localOffset, 30);
+        if (header.length < 30 || header.readUInt32LE(0) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+          throw new InvalidArchiveError('Invalid zip archive');
+        }
+        const dataStart = localOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+        const compressed = await source.read(dataStart, compressedSize);
+
+        if (method === ZIP_STORED) {
+          return compressed;
+        }
+        try {
+          return await inflateRaw(compressed, { maxOutputLength: maxEntrySize });
+        } catch {
+          throw new InvalidArchiveError(`${name} could not be decompressed`);
+        }
+      },
+    });
+  }
+  return entries;
+};
+
+const readTarString = (block: Buffer, start: number, length: number): string => {
+  const text = block.toString('utf8', start, start + length);
+  const terminator = text.indexOf('\0');
+  return terminator === -1 ? text : text.slice(0, terminator);
+};
+
+const readTarNumber = (block: Buffer, start: number, length: number): number => {
+  const value = readTarString(block, start, length).trim();
+  return value === '' ? 0 : parseInt(value, 8);
+};
+
+// The checksum is the sum of the header bytes, with the checksum field read as spaces
+const isValidTarHeader = (block: Buffer): boolean => {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : (block[i] as number);
+  }
+  return sum === readTarNumber(block, 148, 8);
+};
+
+// Path from a pax extended header, made of "<length> <key>=<value>\n" records
+const readPaxPath = (data: Buffer): string | null => {
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf8'));
+  return match?.[1] ?? null;
+};
+
+const readTar = async (source: ArchiveSource, maxEntrySize: number): Promise<ArchiveEntry[]> => {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + TAR_BLOCK_SIZE <= source.size) {
+    const block = await source.read(offset, TAR_BLOCK_SIZE);
+
+    // The archive ends with zero-filled blocks
+    if (block.every((byte) => byte === 0)) {
+      break;
+    }
+    if (!isValidTarHeader(block)) {
+      throw new InvalidArchiveError('Invalid tar archive');
+    }
+
+    const size = readTarNumber(block, 124, 12);
+    if (isNaN(size)) {
+      throw new InvalidArchiveError('Invalid tar archive');
+    }
+    const type = String.fromCharCode(block[156] as number);
+    const prefix = readTarString(block, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/` : '') + readTarString(block, 0, 100);
+    const start = offset + TAR_BLOCK_SIZE;
+    offset = start + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    // GNU long names and pax headers describe the entry that follows them
+    if (type === 'L' || type === 'x') {
+      if (size > TAR_MAX_NAME_SIZE) {
+        throw new InvalidArchiveError('Invalid tar archive');
+      }
+      const content = await source.read(start, size);
+      longName = type === 'L' ? readTarString(content, 0, content.length) : readPaxPath(content);
+      continue;
+    }
+    longName = null;
+
+    if (type === '0' || type === '\0') {
+      entries.push({
+        name,
+        size,
+        read: async () => {
+          checkEntrySize(name, size, maxEntrySize);
+          return source.read(start, size);
+        },
+      });
+    }
+  }
+  return entries;
+};
+
+// Expands a gzip file into another file, failing once it grows past `maxSize`
+const gunzipFile = async (source: string, target: string, maxSize: number): Promise<void> => {
+  let size = 0;
+  const limit = new Transform({
+    transform: (chunk: Buffer, _encoding, callback) => {
+      size += chunk.length;
+      callback(size > maxSize ? new Error('Too large') : null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(
+      fs.createReadStream(source),
+      zlib.createGunzip(),
+      limit,
+      fs.createWriteStream(target)
+    );
+  } catch {
+    await fs.promises.rm(target, { force: true });
+    throw new InvalidArchiveError('Invalid or too large gzip archive');
+  }
+};
+
+/**
+ * Lists the regular files in an archive on disk without reading it into memory: entries
+ * are read from the file when asked for, and a gzipped tar is expanded to a file beside
+ * it (named after it, with `.tar` added). Close the archive once its entries are read.
+ */
+export const openArchive = async (
+  filePath: string,
+  type: ArchiveType,
+  limits: ArchiveLimits
+): Promise<Archive> => {
+  const tarPath = type === 'tar.gz' ? `${filePath}.tar` : null;
+  if (tarPath) {
+    await gunzipFile(filePath, tarPath, limits.maxExtractedSize);
+  }
+
+  let handle: fs.promises.FileHandle | undefined;
+  const close = async () => {
+    await handle?.close();
+    if (tarPath) {
+      await fs.promises.rm(tarPath, { force: true });
+    }
+  };
+
+  try {
+    handle = await fs.promises.open(tarPath ?? filePath, 'r');
+    const source = await fileSource(handle);
+    const entries =
+      type === 'zip'
+        ? await readZip(source, limits.maxEntrySize)
+        : await readTar(source, limits.maxEntrySize);
+    return { entries, close };
+  } catch (error) {
+    await close();
+    throw error;
+  }
+};
+
+/**
+ * Writes an uncompressed zip archive of the files. MP3s barely compress, so they are
+ * stored as they are.
+ */
+export const createZip = (files: ArchiveFile[]): Buffer => {
+  const parts: Buffer[] = [];
+  const centralHeaders: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data } of files) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const crc = zlib.crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(ZIP_LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(ZIP_VERSION, 4);
+    local.writeUInt16LE(ZIP_UTF8_FLAG, 6);
+    local.writeUInt16LE(ZIP_STORED, 8);
+    local.writeUInt16LE(ZIP_DOS_DATE_1980, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(ZIP_CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(ZIP_VERSION, 4);
+    central.writeUInt16LE(ZIP_VERSION, 6);
+    central.writeUInt16LE(ZIP_UTF8_FLAG, 8);
+    central.writeUInt16LE(ZIP_STORED, 10);
+    central.writeUInt16LE(ZIP_DOS_DATE_1980, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    parts.push(local, nameBytes, data);
+    centralHeaders.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralHeaders);
+  const end = Buffer.alloc(ZIP_END_SIZE);
+  end.writeUInt32LE(ZIP_END_SIGNATURE, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, centralDirectory, end]);
+};
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import {
+  BatchFileResult,
+  BatchResponse,
+  InvalidArchiveError,
+  Mp3Analysis,
+  ParserOptions,
+  toClientError,
+} from '../types';
+import { ConcurrencyLimiter } from '../limits/concurrency-limiter';
+import { ArchiveLimits, detectArchive, openArchive } from './archive';
+import { analyzeBuffer } from './mp3-analyzer';
+import { StreamingMp3Parser } from './streaming-mp3-parser';
+
+export type BatchFile =
+  | { name: string; path: string }
+  // An upload refused before it was stored, which fails with its rejection
+  | { name: string; rejection: Error };
+
+export interface BatchLimits extends ArchiveLimits {
+  // Files analysed at the same time
+  concurrency: number;
+}
+
+interface BatchItem {
+  name: string;
+  archive?: string;
+  analyze: () => Promise<Mp3Analysis>;
+}
+
+interface ExpandedFile {
+  items: BatchItem[];
+  // Releases the archive the items are read from
+  close: () => Promise<void>;
+}
+
+// Bytes needed to tell an archive from an MP3 (the tar magic sits at offset 257)
+const ARCHIVE_SNIFF_SIZE = 512;
+
+const MP3_EXTENSION = /\.mp3$/i;
+
+/**
+ * Runs `fn` over the items with at most `limit` calls in flight, keeping the results
+ * in the order of the items.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const readHead = async (filePath: string): Promise<Buffer> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const head = Buffer.alloc(ARCHIVE_SNIFF_SIZE);
+    const { bytesRead } = await handle.read(head, 0, ARCHIVE_SNIFF_SIZE, 0);
+    return head.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+const closeNothing = () => Promise.resolve();
+
+/**
+ * Turns an uploaded file into the items to analyse: the file itself, or the MP3s in
+ * it when it is an archive. A refused upload or an archive that can't be read becomes a
+ * single failing item.
+ */
+const expandFile = async (
+  file: BatchFile,
+  options: ParserOptions,
+  limits: ArchiveLimits
+): Promise<ExpandedFile> => {
+  try {
+    if ('rejection' in file) {
+      throw file.rejection;
+    }
+    const type = detectArchive(await readHead(file.path));
+
+    if (!type) {
+      return {
+        items: [
+          { name: file.name, analyze: () => new StreamingMp3Parser(file.path, options).analyze() },
+        ],
+        close: closeNothing,
+      };
+    }
+
+    const archive = await openArchive(file.path, type, limits);
+
+    const mp3Entries = archive.entries.filter((entry) => MP3_EXTENSION.test(entry.name));
+    if (mp3Entries.length === 0) {
+      await archive.close();
+      throw new InvalidArchiveError('No MP3 files found in archive');
+    }
+
+    return {
+      items: mp3Entries.map((entry) => ({
+        name: entry.name,
+        archive: file.name,
+        analyze: async () => analyzeBuffer(await entry.read(), options),
+      })),
+      close: archive.close,
+    };
+  } catch (error) {
+    const failure = error as Error;
+    return {
+      items: [{ name: file.name, analyze: () => Promise.reject(failure) }],
+      close: closeNothing,
+    };
+  }
+};
+
+/**
+ * Analyses uploaded MP3s and the MP3s inside uploaded zip and tar archives. Each file
+ * gets its own result or error, so one bad file doesn't fail the batch. Errors are
+ * reported as an error response would report them.
+ */
+export const analyzeBatch = async (
+  files: BatchFile[],
+  options: ParserOptions,
+  { concurrency, ...archiveLimits }: BatchLimits
+): Promise<BatchResponse> => {
+  // Shared by every upload, so that no more than `concurrency` files are analysed at once
+  const slots = new ConcurrencyLimiter(concurrency, Infinity, 0);
+
+  const analyzeItem = async ({ name, archive, analyze }: BatchItem): Promise<BatchFileResult> => {
+    const source = { name, ...(archive !== undefined && { archive }) };
+    const release = await slots.acquire();
+    try {
+      return { ...source, analysis: await analyze() };
+    } catch (error) {
+      const { code, message } = toClientError(error);
+      if (code === 'INTERNAL') {
+        console.error(`Batch file ${name} failed:`, error);
+      }
+      return { ...source, error: message, code };
+    } finally {
+      release();
+    }
+  };
+
+  // Uploads are expanded a few at a time, and each archive is closed once its files
+  // are analysed, so only a few are ever open
+  const results = (
+    await mapWithConcurrency(files, concurrency, async (file) => {
+      const { items, close } = await expandFile(file, options, archiveLimits);
+      try {
+        return await mapWithConcurrency(items, concurrency, analyzeItem);
+      } finally {
+        await close();
+      }
+    })
+  ).flat();
+
+  const analyses = results.flatMap((result) => ('analysis' in result ? [result.analysis] : []));
+  const sum = (value: (analysis: Mp3Analysis) => number) =>
+    analyses.reduce((total, analysis) => total + value(analysis), 0);
+
+  return {
+    results,
+    summary: {
+      files: results.length,
+      succeeded: analyses.length,
+      failed: results.length - analyses.length,
+      frameCount: sum((analysis) => analysis.frameCount),
+      durationMs: sum((analysis) => analysis.durationMs),
+      audioBytes: sum((analysis) => analysis.audioBytes),
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import { CrcReport, FrameHeader } from '../types';
+import { MP3_CONSTANTS } from '../config/constants';
+
+// CRC-16 as used by MPEG audio: polynomial x^16 + x^15 + x^2 + 1, initial value 0xFFFF
+const CRC16_POLYNOMIAL = 0x8005;
+const CRC16_INITIAL = 0xffff;
+
+// CRC-16/ARC as used by the LAME tag: the same polynomial, bit-reversed, starting from 0
+const CRC16_ARC_POLYNOMIAL = 0xa001;
+
+// Offsets of failed frames beyond this are counted but not listed
+const MAX_REPORTED_FAILURES = 1000;
+
+export const crc16 = (data: Buffer, crc: number = CRC16_INITIAL): number => {
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ CRC16_POLYNOMIAL) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+};
+
+export const crc16Arc = (data: Buffer, crc: number = 0): number => {
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x0001 ? (crc >>> 1) ^ CRC16_ARC_POLYNOMIAL : crc >>> 1;
+    }
+  }
+  return crc;
+};
+
+/**
+ * Number of bytes after the CRC word that the checksum covers, or null when the
+ * layer's protected region can't be sized from the header alone (Layer II).
+ */
+const getProtectedSize = (header: FrameHeader): number | null => {
+  const mono = header.channelMode === 'mono';
+
+  switch (header.layer) {
+    case 1: {
+      // 4-bit allocation per subband and channel; joint stereo shares subbands above the bound
+      if (mono) return 16;
+      if (header.channelMode !== 'joint_stereo') return 32;
+      const bound = 4 + header.modeExtension * 4;
+      return (bound * 8 + (32 - bound) * 4) / 8;
+    }
+    case 3:
+      // Side information
+      if (header.version === '1') return mono ? 17 : 32;
+      return mono ? 9 : 17;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Checks the CRC of a protected frame. The checksum covers the last two header bytes
+ * and the protected bytes that follow the CRC word. Returns null when the frame has
+ * no CRC or its layer isn't supported.
+ */
+export const verifyFrameCrc = (frame: Buffer, header: FrameHeader): boolean | null => {
+  if (!header.hasCrc) {
+    return null;
+  }
+
+  const protectedSize = getProtectedSize(header);
+  const dataStart = MP3_CONSTANTS.MIN_HEADER_SIZE + 2;
+  if (protectedSize === null || dataStart + protectedSize > frame.length) {
+    return null;
+  }
+
+  const crc = crc16(
+    frame.subarray(dataStart, dataStart + protectedSize),
+    crc16(frame.subarray(2, 4))
+  );
+  return crc === frame.readUInt16BE(MP3_CONSTANTS.MIN_HEADER_SIZE);
+};
+
+/**
+ * Tallies CRC results across a file.
+ */
+export class CrcStats {
+  private passed = 0;
+  private failed = 0;
+  private unchecked = 0;
+  private failedOffsets: number[] = [];
+
+  public add(frame: Buffer, header: FrameHeader, offset: number): void {
+    const result = verifyFrameCrc(frame, header);
+
+    if (result === null) {
+      if (header.hasCrc) this.unchecked++;
+    } else if (result) {
+      this.passed++;
+    } else {
+      this.failed++;
+      if (this.failedOffsets.length < MAX_REPORTED_FAILURES) {
+        this.failedOffsets.push(offset);
+      }
+    }
+  }
+
+  public get failureRate(): number {
+    const checked = this.passed + this.failed;
+    return checked === 0 ? 0 : this.failed / checked;
+  }
+
+  public getReport(): CrcReport {
+    return {
+      protectedFrames: this.passed + this.failed + this.unchecked,
+      passed: this.passed,
+      failed: this.failed,
+      unchecked: this.unchecked,
+      failedOffsets: this.failedOffsets,
+    };
+  }
+}
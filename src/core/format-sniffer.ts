@@ -0,0 +1,67 @@
+import { parseFrameHeader } from './frame-header';
+import { parseId3v2Header } from './id3v2';
+
+export type SniffedFormat = 'mp3' | 'wav' | 'flac' | 'ogg' | 'mp4' | 'aac' | 'unknown';
+
+// Bytes read from the start of an upload before deciding what it is. Enough to look
+// past a small ID3v2 tag; larger tags are assumed to be followed by MPEG audio.
+export const SNIFF_SIZE = 4096;
+
+const FORMAT_NAMES: Record<Exclude<SniffedFormat, 'mp3' | 'unknown'>, string> = {
+  wav: 'WAV',
+  flac: 'FLAC',
+  ogg: 'Ogg',
+  mp4: 'MP4/M4A',
+  aac: 'AAC (ADTS)',
+};
+
+const hasText = (head: Buffer, offset: number, text: string): boolean =>
+  head.toString('latin1', offset, offset + text.length) === text;
+
+// ADTS shares MPEG audio's sync bits but always has layer 00, which MPEG reserves
+const isAdtsHeader = (head: Buffer): boolean =>
+  head.length >= 2 && head[0] === 0xff && ((head[1] as number) & 0xf6) === 0xf0;
+
+const sniffAudio = (head: Buffer): SniffedFormat => {
+  if (hasText(head, 0, 'RIFF') && hasText(head, 8, 'WAVE')) {
+    return 'wav';
+  }
+  if (hasText(head, 0, 'fLaC')) {
+    return 'flac';
+  }
+  if (hasText(head, 0, 'OggS')) {
+    return 'ogg';
+  }
+  if (hasText(head, 4, 'ftyp')) {
+    return 'mp4';
+  }
+  if (isAdtsHeader(head)) {
+    return 'aac';
+  }
+  if (parseFrameHeader(head, 0)) {
+    return 'mp3';
+  }
+  return 'unknown';
+};
+
+/**
+ * Identifies an audio file from its first bytes. An ID3v2 tag is skipped when the
+ * bytes after it are available, since other formats (FLAC and AAC in particular) are
+ * sometimes tagged with one too. MP3s that start with junk before their first frame
+ * come back as 'unknown'.
+ */
+export const sniffFormat = (head: Buffer): SniffedFormat => {
+  const tagHeader = parseId3v2Header(head);
+  if (!tagHeader) {
+    return sniffAudio(head);
+  }
+
+  const format = sniffAudio(head.subarray(tagHeader.totalSize));
+  return format === 'unknown' ? 'mp3' : format;
+};
+
+/**
+ * How a detected format is named in error messages, such as "FLAC".
+ */
+export const describeFormat = (format: Exclude<SniffedFormat, 'mp3' | 'unknown'>): string =>
+  FORMAT_NAMES[format];
@@ -0,0 +1,241 @@
+import { FrameHeader, Id3v2Tag, ParserOptions } from '../types';
+import { ANALYSIS_CONFIG, MP3_CONSTANTS } from '../config/constants';
+import { parseFrameHeader } from './frame-header';
+import { ID3V2_HEADER_SIZE, Id3v2Header, parseId3v2Header, parseId3v2Tag } from './id3v2';
+import { confirmFrame, isSameStream } from './frame-sync';
+
+export interface DecodedFrame {
+  // Position of the frame in the stream
+  offset: number;
+  header: FrameHeader;
+  // View of the frame's bytes in the chunk it was found in, not a copy
+  data: Buffer;
+}
+
+// Largest frame any header can describe: MPEG2 Layer II at 160 kbps and 8 kHz, padded
+const MAX_FRAME_SIZE = 2881;
+
+const EMPTY = Buffer.alloc(0);
+
+/**
+ * Incremental frame decoder. The stream is written in chunks of any size and each
+ * call returns the frames that could be decoded so far.
+ *
+ * Frames are returned as views into the written chunks. Only the few bytes left over
+ * at the end of a chunk are copied, together with just enough of the next chunk to
+ * decode the frames that start in them.
+ */
+export class FrameDecoder {
+  private requiredFrames: number;
+  // Bytes of the next chunk joined to the leftover bytes, enough to confirm any frame
+  private joinSize: number;
+
+  // Leading chunks, held until the ID3v2 tag (if any) has been read in full
+  private head: Buffer[] = [];
+  private headLength = 0;
+  private tagHeader: Id3v2Header | null | undefined;
+  private isTagChecked = false;
+  private tag: Id3v2Tag | null = null;
+  private start = 0;
+
+  // Bytes carried over from earlier chunks that still need more data to decode
+  private pending: Buffer = EMPTY;
+  private pendingStart = 0;
+
+  private lockedHeader: FrameHeader | null = null;
+  private nextFrameOffset = 0;
+  private truncatedOffset: number | null = null;
+
+  constructor(options: ParserOptions = {}) {
+    this.requiredFrames =
+      options.syncConfirmationFrames ?? ANALYSIS_CONFIG.SYNC_CONFIRMATION_FRAMES;
+    this.joinSize = (this.requiredFrames + 1) * MAX_FRAME_SIZE + MP3_CONSTANTS.MIN_HEADER_SIZE;
+  }
+
+  // The leading ID3v2 tag, once it has been read
+  public get id3v2Tag(): Id3v2Tag | null {
+    return this.tag;
+  }
+
+  // Offset of the first byte after the leading ID3v2 tag
+  public get audioStart(): number {
+    return this.start;
+  }
+
+  // Offset of a frame that the stream ended partway through, once `end` has been called
+  public get truncatedFrameOffset(): number | null {
+    return this.truncatedOffset;
+  }
+
+  public write(chunk: Buffer): DecodedFrame[] {
+    const frames: DecodedFrame[] = [];
+
+    if (this.isTagChecked) {
+      this.decode(chunk, false, frames);
+    } else {
+      this.head.push(chunk);
+      this.headLength += chunk.length;
+      this.readTag(false, frames);
+    }
+    return frames;
+  }
+
+  /**
+   * Decodes whatever is left once the stream has ended. Frames that run into the end
+   * are still accepted when the frames after them can't be checked.
+   */
+  public end(): DecodedFrame[] {
+    const frames: DecodedFrame[] = [];
+
+    if (!this.isTagChecked) {
+      this.readTag(true, frames);
+    }
+    this.decode(EMPTY, true, frames);
+    return frames;
+  }
+
+  /**
+   * Skips a leading ID3v2 tag so its contents can't be mistaken for frames, then
+   * decodes the bytes that follow it. The whole tag is held until it is complete.
+   */
+  private readTag(isEnd: boolean, frames: DecodedFrame[]): void {
+    if (this.tagHeader === undefined) {
+      if (this.headLength < ID3V2_HEADER_SIZE && !isEnd) {
+        return;
+      }
+      this.head = [this.joinHead()];
+      this.tagHeader = parseId3v2Header(this.head[0] as Buffer);
+    }
+
+    const tagSize = this.tagHeader?.totalSize ?? 0;
+    if (this.headLength < tagSize && !isEnd) {
+      return;
+    }
+
+    const head = this.joinHead();
+    this.head = [];
+    this.isTagChecked = true;
+
+    if (this.tagHeader && head.length < tagSize) {
+      // A truncated tag leaves nothing to decode
+      this.start = head.length;
+      this.pendingStart = head.length;
+      return;
+    }
+
+    if (this.tagHeader) {
+      this.tag = parseId3v2Tag(this.tagHeader, head.subarray(ID3V2_HEADER_SIZE));
+    }
+    this.start = tagSize;
+    this.pendingStart = tagSize;
+    this.decode(head.subarray(tagSize), isEnd, frames);
+  }
+
+  private joinHead(): Buffer {
+    return this.head.length === 1 ? (this.head[0] as Buffer) : Buffer.concat(this.head);
+  }
+
+  private decode(chunk: Buffer, isEnd: boolean, frames: DecodedFrame[]): void {
+    let offset = 0;
+
+    if (this.pending.length > 0) {
+      // Decode the frames that start in the leftover bytes from a copy joined to the
+      // start of this chunk
+      const joinLength = Math.min(chunk.length, this.joinSize);
+      const joined = Buffer.concat([this.pending, chunk.subarray(0, joinLength)]);
+      const isWhole = joinLength === chunk.length;
+      const stop = this.scan(
+        joined,
+        this.pendingStart,
+        0,
+        isWhole ? joined.length : this.pending.length,
+        isEnd && isWhole,
+        frames
+      );
+
+      if (isWhole || stop < this.pending.length) {
+        this.pending = isWhole
+          ? joined.subarray(stop)
+          : Buffer.concat([joined.subarray(stop), chunk.subarray(joinLength)]);
+        this.pendingStart += stop;
+        return;
+      }
+
+      offset = stop - this.pending.length;
+      this.pendingStart += this.pending.length;
+    }
+
+    const stop = this.scan(chunk, this.pendingStart, offset, chunk.length, isEnd, frames);
+    this.pending = chunk.subarray(stop);
+    this.pendingStart += stop;
+  }
+
+  /**
+   * Decodes frames starting before `limit` and returns the offset where decoding
+   * stopped. Unless `isEnd`, stops early at the first frame that can't be completed
+   * or confirmed without more data.
+   */
+  private scan(
+    buffer: Buffer,
+    bufferStart: number,
+    offset: number,
+    limit: number,
+    isEnd: boolean,
+    frames: DecodedFrame[]
+  ): number {
+    while (offset < limit && offset + MP3_CONSTANTS.MIN_HEADER_SIZE <= buffer.length) {
+      // Check for MP3 frame sync (11 bits set to 1) and a decodable header
+      const header = parseFrameHeader(buffer, offset);
+
+      if (!header) {
+        offset = this.nextCandidate(buffer, offset);
+        continue;
+      }
+
+      // A frame right after an accepted one only has to belong to the same stream;
+      // anywhere else the frames that follow must confirm it
+      const isInSync =
+        this.lockedHeader !== null &&
+        bufferStart + offset === this.nextFrameOffset &&
+        isSameStream(this.lockedHeader, header);
+
+      if (!isInSync) {
+        const result = confirmFrame(buffer, offset, header, this.requiredFrames, isEnd);
+
+        if (result === 'incomplete') {
+          break;
+        }
+        if (result === 'rejected') {
+          offset = this.nextCandidate(buffer, offset);
+          continue;
+        }
+      }
+
+      if (offset + header.frameSize > buffer.length) {
+        // Frame extends beyond the data so far. At the end of the stream, a frame that
+        // follows on from the last one was cut short.
+        if (isEnd && isInSync) {
+          this.truncatedOffset = bufferStart + offset;
+        }
+        break;
+      }
+
+      this.lockedHeader = header;
+      this.nextFrameOffset = bufferStart + offset + header.frameSize;
+      frames.push({
+        offset: bufferStart + offset,
+        header,
+        data: buffer.subarray(offset, offset + header.frameSize),
+      });
+      offset += header.frameSize;
+    }
+
+    return offset;
+  }
+
+  // Jumps to the next byte that could start a frame sync
+  private nextCandidate(buffer: Buffer, offset: number): number {
+    const next = buffer.indexOf(MP3_CONSTANTS.FRAME_SYNC_BYTE1, offset + 1);
+    return next === -1 ? buffer.length : next;
+  }
+}
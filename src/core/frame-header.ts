@@ -0,0 +1,114 @@
+import { ChannelMode, FrameHeader, MpegLayer, MpegVersion } from '../types';
+import { MP3_CONSTANTS } from '../config/constants';
+
+// Version bits (19-20): 00 = MPEG2.5, 01 = reserved, 10 = MPEG2, 11 = MPEG1
+const VERSION_TABLE: (MpegVersion | null)[] = ['2.5', null, '2', '1'];
+
+// Layer bits (17-18): 00 = reserved, 01 = Layer III, 10 = Layer II, 11 = Layer I
+const LAYER_TABLE: (MpegLayer | null)[] = [null, 3, 2, 1];
+
+const CHANNEL_MODE_TABLE: ChannelMode[] = ['stereo', 'joint_stereo', 'dual_channel', 'mono'];
+
+// Bitrate tables (in kbps), indexed by bitrate index. Index 0 is free format and
+// index 15 is reserved; neither can be used to size a frame.
+const BITRATE_TABLES: Record<'1' | '2', Record<MpegLayer, readonly number[]>> = {
+  '1': {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448, 0],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384, 0],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 0],
+  },
+  // MPEG2 and MPEG2.5 share the same tables
+  '2': {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256, 0],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160, 0],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160, 0],
+  },
+};
+
+// Sample rate tables (in Hz), indexed by sample rate index
+const SAMPLE_RATE_TABLES: Record<MpegVersion, readonly number[]> = {
+  '1': [44100, 48000, 32000, 0],
+  '2': [22050, 24000, 16000, 0],
+  '2.5': [11025, 12000, 8000, 0],
+};
+
+const SAMPLES_PER_FRAME: Record<MpegVersion, Record<MpegLayer, number>> = {
+  '1': { 1: 384, 2: 1152, 3: 1152 },
+  '2': { 1: 384, 2: 1152, 3: 576 },
+  '2.5': { 1: 384, 2: 1152, 3: 576 },
+};
+
+// Layer I frames are measured in 4-byte slots, Layers II and III in single bytes
+const SLOT_SIZE: Record<MpegLayer, number> = { 1: 4, 2: 1, 3: 1 };
+
+/**
+ * Checks whether the two bytes at `offset` carry the 11-bit frame sync.
+ */
+export const hasFrameSync = (buffer: Buffer, offset: number): boolean => {
+  const byte1 = buffer[offset];
+  const byte2 = buffer[offset + 1];
+
+  return (
+    byte1 !== undefined &&
+    byte2 !== undefined &&
+    byte1 === MP3_CONSTANTS.FRAME_SYNC_BYTE1 &&
+    (byte2 & MP3_CONSTANTS.FRAME_SYNC_BYTE2_MASK) === MP3_CONSTANTS.FRAME_SYNC_BYTE2_MASK
+  );
+};
+
+/**
+ * Decodes the 4-byte frame header at `offset`. Returns null when the bytes are not
+ * a usable header: missing sync, reserved version or layer, or a free-format,
+ * reserved or otherwise invalid bitrate/sample rate index.
+ */
+export const parseFrameHeader = (buffer: Buffer, offset: number): FrameHeader | null => {
+  if (offset + MP3_CONSTANTS.MIN_HEADER_SIZE > buffer.length || !hasFrameSync(buffer, offset)) {
+    return null;
+  }
+
+  const header = buffer.readUInt32BE(offset);
+
+  const version = VERSION_TABLE[(header >> 19) & 0x03];
+  const layer = LAYER_TABLE[(header >> 17) & 0x03];
+  if (!version || !layer) {
+    return null;
+  }
+
+  // Extract bitrate index (bits 12-15)
+  const bitrateIndex = (header >> 12) & 0x0f;
+  const bitrate = BITRATE_TABLES[version === '1' ? '1' : '2'][layer][bitrateIndex];
+
+  // Extract sample rate index (bits 10-11)
+  const sampleRateIndex = (header >> 10) & 0x03;
+  const sampleRate = SAMPLE_RATE_TABLES[version][sampleRateIndex];
+
+  if (!bitrate || !sampleRate) {
+    return null;
+  }
+
+  // Extract padding bit (bit 9)
+  const padding = ((header >> 9) & 0x01) === 1;
+  const samplesPerFrame = SAMPLES_PER_FRAME[version][layer];
+  const slotSize = SLOT_SIZE[layer];
+
+  // Formula: frameSize = (samplesPerFrame / 8 * bitrate * 1000 / sampleRate + padding) in slots,
+  // which gives the familiar 144 * bitrate / sampleRate for MPEG1 Layer III
+  const slots = Math.floor(
+    (samplesPerFrame * bitrate * MP3_CONSTANTS.BITRATE_MULTIPLIER) / (8 * slotSize * sampleRate)
+  );
+  const frameSize = (slots + (padding ? 1 : 0)) * slotSize;
+
+  return {
+    version,
+    layer,
+    // Protection bit (bit 16) is 0 when a CRC follows the header
+    hasCrc: ((header >> 16) & 0x01) === 0,
+    bitrate,
+    sampleRate,
+    padding,
+    channelMode: CHANNEL_MODE_TABLE[(header >> 6) & 0x03] as ChannelMode,
+    modeExtension: (header >> 4) & 0x03,
+    samplesPerFrame,
+    frameSize,
+  };
+};
@@ -0,0 +1,108 @@
+import {
+  BitrateMode,
+  FrameHeader,
+  GaplessInfo,
+  NoFramesError,
+  LameTag,
+  StreamProperties,
+  VbrHeader,
+} from '../types';
+
+// LAME VBR method values that identify an ABR encode
+const LAME_ABR_METHODS = [2, 9];
+
+/**
+ * Accumulates per-frame statistics while a parser walks the audio frames, and
+ * derives the stream properties reported alongside the frame count.
+ */
+export class FrameStats {
+  private count = 0;
+  private firstHeader: FrameHeader | null = null;
+  private totalBytes = 0;
+  private totalSeconds = 0;
+  private totalSamples = 0;
+  private minBitrate = Infinity;
+  private maxBitrate = 0;
+
+  public get frameCount(): number {
+    return this.count;
+  }
+
+  // Playback time covered by the frames added so far, i.e. the timestamp of the next frame
+  public get elapsedMs(): number {
+    return this.totalSeconds * 1000;
+  }
+
+  public add(header: FrameHeader): void {
+    this.count++;
+    this.firstHeader ??= header;
+    this.totalBytes += header.frameSize;
+    this.totalSeconds += header.samplesPerFrame / header.sampleRate;
+    this.totalSamples += header.samplesPerFrame;
+    this.minBitrate = Math.min(this.minBitrate, header.bitrate);
+    this.maxBitrate = Math.max(this.maxBitrate, header.bitrate);
+  }
+
+  /**
+   * Stream properties of the frames added so far. Sample rate, channel mode, version
+   * and layer are taken from the first audio frame.
+   */
+  public getStreamProperties(vbrHeader: VbrHeader | null): StreamProperties {
+    if (!this.firstHeader) {
+      throw new NoFramesError();
+    }
+
+    const average = this.totalSeconds > 0 ? (this.totalBytes * 8) / this.totalSeconds / 1000 : 0;
+
+    return {
+      durationMs: Math.round(this.totalSeconds * 1000),
+      bitrate: {
+        average: Math.round(average),
+        min: this.minBitrate,
+        max: this.maxBitrate,
+        mode: this.getBitrateMode(vbrHeader),
+      },
+      sampleRate: this.firstHeader.sampleRate,
+      channelMode: this.firstHeader.channelMode,
+      mpegVersion: this.firstHeader.version,
+      layer: this.firstHeader.layer,
+      audioBytes: this.totalBytes,
+    };
+  }
+
+  /**
+   * The sample-exact length of the audio once the encoder delay and padding recorded in
+   * the LAME tag are removed, or null without them.
+   */
+  public getGapless(lame: LameTag | undefined): GaplessInfo | null {
+    if (
+      !this.firstHeader ||
+      lame?.encoderDelay === undefined ||
+      lame.encoderPadding === undefined
+    ) {
+      return null;
+    }
+
+    const sampleCount = Math.max(this.totalSamples - lame.encoderDelay - lame.encoderPadding, 0);
+    return {
+      encoderDelay: lame.encoderDelay,
+      encoderPadding: lame.encoderPadding,
+      sampleCount,
+      durationMs: (sampleCount / this.firstHeader.sampleRate) * 1000,
+    };
+  }
+
+  private getBitrateMode(vbrHeader: VbrHeader | null): BitrateMode {
+    if (this.minBitrate === this.maxBitrate) {
+      return 'CBR';
+    }
+
+    // ABR and VBR both vary the bitrate per frame; only the encoder can tell them apart
+    const vbrMethod = vbrHeader?.lame?.vbrMethod;
+    if (vbrMethod !== undefined && LAME_ABR_METHODS.includes(vbrMethod)) {
+      return 'ABR';
+    }
+
+    return 'VBR';
+  }
+}
@@ -0,0 +1,90 @@
+import { FrameHeader, Gap } from '../types';
+import { MP3_CONSTANTS } from '../config/constants';
+import { parseFrameHeader } from './frame-header';
+
+export type SyncResult = 'confirmed' | 'rejected' | 'incomplete';
+
+/**
+ * Frames of one stream share their version, layer and sample rate; bitrate,
+ * padding and channel mode may change from frame to frame.
+ */
+export const isSameStream = (a: FrameHeader, b: FrameHeader): boolean =>
+  a.version === b.version && a.layer === b.layer && a.sampleRate === b.sampleRate;
+
+/**
+ * Decides whether the candidate frame at `offset` is real by checking that the next
+ * `requiredFrames` headers follow it back to back and belong to the same stream.
+ * A chain that runs into the end of the data is accepted as long as the frames in it
+ * are complete. When `isEnd` is false and `buffer` runs out first, the result is
+ * 'incomplete' and the caller should retry with more data.
+ */
+export const confirmFrame = (
+  buffer: Buffer,
+  offset: number,
+  header: FrameHeader,
+  requiredFrames: number,
+  isEnd: boolean
+): SyncResult => {
+  let position = offset + header.frameSize;
+
+  for (let i = 0; i < requiredFrames; i++) {
+    if (position + MP3_CONSTANTS.MIN_HEADER_SIZE > buffer.length) {
+      if (!isEnd) {
+        return 'incomplete';
+      }
+      return position <= buffer.length ? 'confirmed' : 'rejected';
+    }
+
+    const next = parseFrameHeader(buffer, position);
+    if (!next || !isSameStream(header, next)) {
+      return 'rejected';
+    }
+
+    position += next.frameSize;
+  }
+
+  return 'confirmed';
+};
+
+// Gaps beyond this are not listed individually
+const MAX_REPORTED_GAPS = 1000;
+
+/**
+ * Records the byte ranges skipped between accepted frames while resynchronising.
+ */
+export class GapTracker {
+  private expectedOffset = 0;
+  private gaps: Gap[] = [];
+
+  /**
+   * Moves past bytes that are known not to be audio, such as an ID3v2 tag, without
+   * reporting them as a gap.
+   */
+  public skip(offset: number): void {
+    this.expectedOffset = offset;
+  }
+
+  public addFrame(offset: number, size: number): void {
+    if (offset > this.expectedOffset) {
+      this.addGap(this.expectedOffset, offset - this.expectedOffset);
+    }
+    this.expectedOffset = offset + size;
+  }
+
+  /**
+   * Gaps found so far, including any junk between the last frame and `end`.
+   */
+  public getGaps(end: number): Gap[] {
+    if (end > this.expectedOffset) {
+      this.addGap(this.expectedOffset, end - this.expectedOffset);
+      this.expectedOffset = end;
+    }
+    return this.gaps;
+  }
+
+  private addGap(offset: number, length: number): void {
+    if (this.gaps.length < MAX_REPORTED_GAPS) {
+      this.gaps.push({ offset, length });
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import { Id3v2Picture, Id3v2Tag } from '../types';
+
+export const ID3V2_HEADER_SIZE = 10;
+
+const ID3V2_FLAGS = {
+  UNSYNCHRONISATION: 0x80,
+  EXTENDED_HEADER: 0x40,
+  FOOTER: 0x10,
+} as const;
+
+// Frame IDs of interest, keyed by tag major version (ID3v2.2 uses 3-character IDs)
+const TEXT_FRAMES: Record<string, keyof Omit<Id3v2Tag, 'version' | 'pictures' | 'comment'>> = {
+  TIT2: 'title',
+  TT2: 'title',
+  TPE1: 'artist',
+  TP1: 'artist',
+  TALB: 'album',
+  TAL: 'album',
+  TRCK: 'track',
+  TRK: 'track',
+  TYER: 'year',
+  TYE: 'year',
+  TDRC: 'year',
+};
+
+export interface Id3v2Header {
+  majorVersion: number;
+  revision: number;
+  flags: number;
+  // Size of the frames (and extended header), as declared in the header
+  size: number;
+  // Total number of bytes the tag occupies, including the header and footer
+  totalSize: number;
+}
+
+const readSyncsafeInt = (buffer: Buffer, offset: number): number =>
+  ((buffer[offset] ?? 0) << 21) |
+  ((buffer[offset + 1] ?? 0) << 14) |
+  ((buffer[offset + 2] ?? 0) << 7) |
+  (buffer[offset + 3] ?? 0);
+
+/**
+ * Reverses the unsynchronisation scheme, which inserts a 0x00 after every 0xFF
+ * so that tag data can never look like a frame sync.
+ */
+const removeUnsynchronisation = (data: Buffer): Buffer => {
+  const output = Buffer.alloc(data.length);
+  let length = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    output[length++] = data[i] as number;
+    if (data[i] === 0xff && data[i + 1] === 0x00) {
+      i++;
+    }
+  }
+
+  return output.subarray(0, length);
+};
+
+/**
+ * Decodes a string in one of the four ID3v2 text encodings. The result is cut at the
+ * first terminator and has trailing whitespace removed.
+ */
+const decodeText = (encoding: number, data: Buffer): string => {
+  let text: string;
+
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with BOM
+      if (data[0] === 0xfe && data[1] === 0xff) {
+        text = decodeUtf16BE(data.subarray(2));
+      } else {
+        text = data.subarray(data[0] === 0xff && data[1] === 0xfe ? 2 : 0).toString('utf16le');
+      }
+      break;
+    }
+    case 2:
+      text = decodeUtf16BE(data);
+      break;
+    case 3:
+      text = data.toString('utf8');
+      break;
+    default:
+      text = data.toString('latin1');
+  }
+
+  const terminator = text.indexOf('\0');
+  return (terminator === -1 ? text : text.slice(0, terminator)).trim();
+};
+
+const decodeUtf16BE = (data: Buffer): string => {
+  const swapped = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+  return swapped.swap16().toString('utf16le');
+};
+
+/**
+ * Finds the end of a terminated string: one 0x00 for single-byte encodings,
+ * an aligned 0x00 0x00 for UTF-16.
+ */
+const findTerminator = (encoding: number, data: Buffer, start: number): number => {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < data.length; i += 2) {
+      if (data[i] === 0 && data[i + 1] === 0) {
+        return i;
+      }
+    }
+    return data.length;
+  }
+
+  const index = data.indexOf(0, start);
+  return index === -1 ? data.length : index;
+};
+
+const terminatorLength = (encoding: number): number => (encoding === 1 || encoding === 2 ? 2 : 1);
+
+// COMM: encoding, 3-byte language, short description, text
+const parseComment = (data: Buffer): string => {
+  const encoding = data[0] ?? 0;
+  const descriptionEnd = findTerminator(encoding, data, 4);
+  return decodeText(encoding, data.subarray(descriptionEnd + terminatorLength(encoding)));
+};
+
+// APIC: encoding, MIME type, picture type, description, image data.
+// ID3v2.2 PIC uses a fixed 3-character image format instead of a MIME type.
+const parsePicture = (data: Buffer, majorVersion: number): Id3v2Picture => {
+  const encoding = data[0] ?? 0;
+  let offset = 1;
+  let mimeType: string;
+
+  if (majorVersion === 2) {
+    const format = data.toString('latin1', offset, offset + 3);
+    mimeType = `image/${format.toLowerCase() === 'jpg' ? 'jpeg' : format.toLowerCase()}`;
+    offset += 3;
+  } else {
+    const mimeEnd = findTerminator(0, data, offset);
+    mimeType = data.toString('latin1', offset, mimeEnd);
+    offset = mimeEnd + 1;
+  }
+
+  const pictureType = data[offset] ?? 0;
+  offset++;
+
+  const descriptionEnd = findTerminator(encoding, data, offset);
+  const description = decodeText(encoding, data.subarray(offset, descriptionEnd));
+  offset = Math.min(descriptionEnd + terminatorLength(encoding), data.length);
+
+  return { mimeType, pictureType, description, size: data.length - offset };
+};
+
+/**
+ * Reads the 10-byte ID3v2 header at the start of `buffer`. Returns null when the
+ * buffer does not start with a valid tag header.
+ */
+export const parseId3v2Header = (buffer: Buffer): Id3v2Header | null => {
+  if (buffer.length < ID3V2_HEADER_SIZE || buffer.toString('latin1', 0, 3) !== 'ID3') {
+    return null;
+  }
+
+  const majorVersion = buffer[3] as number;
+  const revision = buffer[4] as number;
+  const flags = buffer[5] as number;
+
+  // Version and size bytes are never 0xFF, and size bytes are 7-bit
+  if (majorVersion === 0xff || revision === 0xff) {
+    return null;
+  }
+  for (let i = 6; i < ID3V2_HEADER_SIZE; i++) {
+    if ((buffer[i] as number) & 0x80) {
+      return null;
+    }
+  }
+
+  const size = readSyncsafeInt(buffer, 6);
+  const footerSize = majorVersion >= 4 && flags & ID3V2_FLAGS.FOOTER ? ID3V2_HEADER_SIZE : 0;
+
+  return {
+    majorVersion,
+    revision,
+    flags,
+    size,
+    totalSize: ID3V2_HEADER_SIZE + size + footerSize,
+  };
+};
+
+/**
+ * Parses the frames of an ID3v2.2, 2.3 or 2.4 tag. `body` holds the bytes that
+ * follow the 10-byte header (the declared `size` bytes).
+ */
+export const parseId3v2Tag = (header: Id3v2Header, body: Buffer): Id3v2Tag => {
+  const { majorVersion } = header;
+  const tag: Id3v2Tag = {
+    version: `2.${majorVersion}.${header.revision}`,
+    pictures: [],
+  };
+
+  let data = body.subarray(0, header.size);
+  // Before ID3v2.4 unsynchronisation applies to the whole tag
+  if (majorVersion < 4 && header.flags & ID3V2_FLAGS.UNSYNCHRONISATION) {
+    data = removeUnsynchronisation(data);
+  }
+
+  let offset = 0;
+  if (majorVersion >= 3 && header.flags & ID3V2_FLAGS.EXTENDED_HEADER && data.length >= 4) {
+    // ID3v2.3 excludes the size field from the extended header size; ID3v2.4 includes it
+    offset = majorVersion === 3 ? data.readUInt32BE(0) + 4 : readSyncsafeInt(data, 0);
+  }
+
+  const idLength = majorVersion === 2 ? 3 : 4;
+  const frameHeaderSize = majorVersion === 2 ? 6 : 10;
+
+  while (offset + frameHeaderSize <= data.length) {
+    // Padding (zero bytes) marks the end of the frames
+    if (data[offset] === 0) {
+      break;
+    }
+
+    const id = data.toString('latin1', offset, offset + idLength);
+    let frameSize: number;
+    let frameFlags = 0;
+
+    if (majorVersion === 2) {
+      frameSize = data.readUIntBE(offset + 3, 3);
+    } else if (majorVersion === 3) {
+      frameSize = data.readUInt32BE(offset + 4);
+      frameFlags = data.readUInt16BE(offset + 8);
+    } else {
+      frameSize = readSyncsafeInt(data, offset + 4);
+      frameFlags = data.readUInt16BE(offset + 8);
+    }
+
+    const frameStart = offset + frameHeaderSize;
+    const frameEnd = frameStart + frameSize;
+    if (frameSize === 0 || frameEnd > data.length) {
+      break;
+    }
+
+    let frameData = data.subarray(frameStart, frameEnd);
+    // ID3v2.4 frame flags: unsynchronisation (0x02) and data length indicator (0x01)
+    if (majorVersion >= 4) {
+      if (frameFlags & 0x01) {
+        frameData = frameData.subarray(4);
+      }
+      if (frameFlags & 0x02) {
+        frameData = removeUnsynchronisation(frameData);
+      }
+    }
+
+    // Compressed or encrypted frames cannot be read without further processing
+    const isUnreadable =
+      (majorVersion === 3 && frameFlags & 0x00c0) || (majorVersion >= 4 && frameFlags & 0x000c);
+
+    if (!isUnreadable && frameData.length > 0) {
+      const textField = TEXT_FRAMES[id];
+
+      if (textField) {
+        tag[textField] = decodeText(frameData[0] ?? 0, frameData.subarray(1));
+      } else if ((id === 'COMM' || id === 'COM') && tag.comment === undefined) {
+        tag.comment = parseComment(frameData);
+      } else if (id === 'APIC' || id === 'PIC') {
+        tag.pictures.push(parsePicture(frameData, majorVersion));
+      }
+    }
+
+    offset = frameEnd;
+  }
+
+  return tag;
+};
@@ -0,0 +1,49 @@
+import { Writable } from 'stream';
+import { Mp3Analysis, Mp3ParserError, ParserOptions } from '../types';
+import { Mp3Analyzer } from './mp3-analyzer';
+
+/**
+ * Writable that analyses an MP3 as it is written, so the data never has to be stored.
+ * Memory use stays the same whatever the length of the stream. The analysis is
+ * available once the stream has finished; a file without frames, or one that fails
+ * in strict mode, makes the stream emit the parser error instead.
+ */
+export class Mp3AnalysisStream extends Writable {
+  private analyzer: Mp3Analyzer;
+  private result: Mp3Analysis | null = null;
+
+  constructor(options: ParserOptions = {}) {
+    super();
+    this.analyzer = new Mp3Analyzer(options);
+  }
+
+  public get bytesRead(): number {
+    return this.analyzer.bytesRead;
+  }
+
+  public get analysis(): Mp3Analysis {
+    if (!this.result) {
+      throw new Mp3ParserError('Analysis is not finished');
+    }
+    return this.result;
+  }
+
+  public _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error) => void) {
+    try {
+      this.analyzer.write(chunk);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  public _final(callback: (error?: Error) => void) {
+    try {
+      this.analyzer.end();
+      this.result = this.analyzer.getAnalysis();
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import * as fs from 'fs';
+import {
+  CorruptedMp3Error,
+  FrameIndexEntry,
+  FrameListener,
+  Mp3Analysis,
+  NoFramesError,
+  ParserOptions,
+  TrailingTags,
+  TruncatedFrameError,
+  VbrHeader,
+} from '../types';
+import { ANALYSIS_CONFIG } from '../config/constants';
+import { DecodedFrame, FrameDecoder } from './frame-decoder';
+import { parseVbrHeader } from './vbr-header';
+import { parseTrailingTags } from './trailing-tags';
+import { FrameStats } from './frame-stats';
+import { CrcStats } from './crc';
+import { GapTracker } from './frame-sync';
+import { SilenceDetector } from './silence';
+
+const CHUNK_SIZE = 64 * 1024; // 64KB reads from files
+const TRAILING_TAG_SCAN_SIZE = 128 * 1024; // searched for trailing tags
+
+/**
+ * Builds an `Mp3Analysis` from a stream written in chunks.
+ *
+ * When the trailing tags are passed in, only the audio before them should be written.
+ * Otherwise they are looked for in the last 128KB once the stream ends, and frames are
+ * held back until they are further than that from the end of the data written so far.
+ */
+export class Mp3Analyzer {
+  private options: ParserOptions;
+  private decoder: FrameDecoder;
+  private frameStats = new FrameStats();
+  private crcStats = new CrcStats();
+  private gapTracker = new GapTracker();
+  private silenceDetector: SilenceDetector;
+  private vbrHeader: VbrHeader | null = null;
+  private isFirstFrame = true;
+  private trailingTags: TrailingTags | null;
+  private bytesWritten = 0;
+  private audioEnd = 0;
+  private parseTimeMs = 0;
+
+  // Frames and raw chunks kept back while the trailing tags are unknown
+  private heldFrames: DecodedFrame[] = [];
+  private tail: Buffer[] = [];
+  private tailLength = 0;
+
+  constructor(options: ParserOptions = {}, trailingTags?: TrailingTags) {
+    this.options = options;
+    this.decoder = new FrameDecoder(options);
+    this.silenceDetector = new SilenceDetector(options.silenceThresholdDb, options.minSilenceMs);
+    this.trailingTags = trailingTags ?? null;
+  }
+
+  public get bytesRead(): number {
+    return this.bytesWritten;
+  }
+
+  /**
+   * Decodes the chunk and returns the audio frames that are now final. Throws the
+   * abort reason once `options.signal` is aborted.
+   */
+  public write(chunk: Buffer): FrameIndexEntry[] {
+    this.options.signal?.throwIfAborted();
+    return this.timed(() => this.decode(chunk));
+  }
+
+  /**
+   * Decodes the rest of the stream and returns the last audio frames. The parse
+   * statistics are then passed to `options.onParsed`.
+   */
+  public end(): FrameIndexEntry[] {
+    this.options.signal?.throwIfAborted();
+    const frames = this.timed(() => this.finish());
+    this.options.onParsed?.({
+      frameCount: this.frameStats.frameCount,
+      bytesRead: this.bytesWritten,
+      parseTimeMs: this.parseTimeMs,
+    });
+    return frames;
+  }
+
+  /**
+   * The analysis of the whole stream, once `end` has been called.
+   */
+  public getAnalysis(): Mp3Analysis {
+    if (this.frameStats.frameCount === 0) {
+      throw new NoFramesError();
+    }
+
+    const crcFailureThreshold =
+      this.options.crcFailureThreshold ?? ANALYSIS_CONFIG.CRC_FAILURE_THRESHOLD;
+    if (this.options.strict && this.crcStats.failureRate > crcFailureThreshold) {
+      const { failed, passed, failedOffsets } = this.crcStats.getReport();
+      throw new CorruptedMp3Error(
+        `${failed} of ${failed + passed} protected frames failed the CRC check`,
+        { offset: failedOffsets[0] as number }
+      );
+    }
+
+    const truncatedOffset = this.decoder.truncatedFrameOffset;
+    if (this.options.strict && truncatedOffset !== null && truncatedOffset < this.audioEnd) {
+      throw new TruncatedFrameError(`The frame at byte ${truncatedOffset} is cut short`, {
+        offset: truncatedOffset,
+      });
+    }
+
+    const tags = this.decoder.id3v2Tag;
+    const trailingTags = this.trailingTags ?? {};
+    const vbrHeader = this.vbrHeader;
+    const gapless = this.frameStats.getGapless(vbrHeader?.lame);
+    const silence = this.silenceDetector.getReport(this.frameStats.elapsedMs);
+
+    return {
+      frameCount: this.frameStats.frameCount,
+      ...this.frameStats.getStreamProperties(vbrHeader),
+      ...(tags && { tags }),
+      ...(Object.keys(trailingTags).length > 0 && { trailingTags }),
+      ...(vbrHeader && { vbrHeader }),
+      frameCountMismatch:
+        vbrHeader?.frames !== undefined && vbrHeader.frames !== this.frameStats.frameCount,
+      crc: this.crcStats.getReport(),
+      gaps: this.gapTracker.getGaps(this.audioEnd),
+      ...(gapless && { gapless }),
+      ...(silence && { silence }),
+    };
+  }
+
+  private decode(chunk: Buffer): FrameIndexEntry[] {
+    this.bytesWritten += chunk.length;
+    const frames = this.decoder.write(chunk);
+
+    if (this.trailingTags) {
+      return this.release(frames);
+    }
+
+    this.tail.push(chunk);
+    this.tailLength += chunk.length;
+    while (this.tailLength - (this.tail[0]?.length ?? 0) >= TRAILING_TAG_SCAN_SIZE) {
+      this.tailLength -= (this.tail.shift() as Buffer).length;
+    }
+
+    this.heldFrames = this.heldFrames.concat(frames);
+    const safeEnd = this.bytesWritten - TRAILING_TAG_SCAN_SIZE;
+    let count = 0;
+    while (count < this.heldFrames.length) {
+      const frame = this.heldFrames[count] as DecodedFrame;
+      if (frame.offset + frame.data.length > safeEnd) break;
+      count++;
+    }
+    return this.release(this.heldFrames.splice(0, count));
+  }
+
+  private finish(): FrameIndexEntry[] {
+    const frames = this.decoder.end();
+
+    if (this.trailingTags) {
+      this.audioEnd = this.bytesWritten;
+      return this.release(frames);
+    }
+
+    const { tags, size } = parseTrailingTags(this.takeTail());
+    this.trailingTags = tags;
+    this.audioEnd = Math.max(this.bytesWritten - size, 0);
+
+    // Frames found inside the trailing tags are not audio
+    const audioFrames = [...this.heldFrames, ...frames].filter(
+      (frame) => frame.offset + frame.data.length <= this.audioEnd
+    );
+    this.heldFrames = [];
+    return this.release(audioFrames);
+  }
+
+  private timed<T>(work: () => T): T {
+    const start = performance.now();
+    try {
+      return work();
+    } finally {
+      this.parseTimeMs += performance.now() - start;
+    }
+  }
+
+  // The last bytes written, up to the size searched for trailing tags
+  private takeTail(): Buffer {
+    const excess = this.tailLength - TRAILING_TAG_SCAN_SIZE;
+    const first = this.tail[0];
+    if (first && excess > 0) {
+      this.tail[0] = first.subarray(excess);
+    }
+
+    const tail = Buffer.concat(this.tail);
+    this.tail = [];
+    this.tailLength = 0;
+    return tail;
+  }
+
+  private release(frames: DecodedFrame[]): FrameIndexEntry[] {
+    const entries: FrameIndexEntry[] = [];
+
+    for (const { offset, header, data } of frames) {
+      if (this.isFirstFrame) {
+        this.gapTracker.skip(this.decoder.audioStart);
+      }
+      this.gapTracker.addFrame(offset, header.frameSize);
+
+      // A Xing/Info or VBRI header in the first frame is metadata, not audio
+      if (this.isFirstFrame) {
+        this.isFirstFrame = false;
+        this.vbrHeader = parseVbrHeader(data, header);
+        if (this.vbrHeader) continue;
+      }
+
+      entries.push({
+        offset,
+        size: header.frameSize,
+        bitrate: header.bitrate,
+        padding: header.padding,
+        sampleRate: header.sampleRate,
+        channelMode: header.channelMode,
+        timestampMs: this.frameStats.elapsedMs,
+      });
+      this.silenceDetector.add(data, header, this.frameStats.elapsedMs);
+      this.frameStats.add(header);
+      this.crcStats.add(data, header, offset);
+    }
+    return entries;
+  }
+}
+
+/**
+ * Feeds the chunks to the analyzer. Reading pauses while a promise returned by
+ * `onFrame` is pending. Errors reading the chunks are passed on as they are, since a
+ * failed read says nothing about whether the data is an MP3.
+ */
+const run = async (
+  analyzer: Mp3Analyzer,
+  chunks: AsyncIterable<Buffer>,
+  onFrame?: FrameListener
+): Promise<Mp3Analysis> => {
+  const notify = async (entries: FrameIndexEntry[]) => {
+    if (onFrame) {
+      for (const entry of entries) {
+        await onFrame(entry);
+      }
+    }
+  };
+
+  for await (const chunk of chunks) {
+    await notify(analyzer.write(chunk));
+  }
+  await notify(analyzer.end());
+
+  return analyzer.getAnalysis();
+};
+
+/**
+ * Analyses an MP3 held in memory.
+ */
+export const analyzeBuffer = (buffer: Buffer, options: ParserOptions = {}): Mp3Analysis => {
+  // Stop decoding where ID3v1, APEv2 or Lyrics3 tags begin
+  const { tags, size } = parseTrailingTags(buffer);
+  const analyzer = new Mp3Analyzer(options, tags);
+
+  analyzer.write(buffer.subarray(0, Math.max(buffer.length - size, 0)));
+  analyzer.end();
+  return analyzer.getAnalysis();
+};
+
+/**
+ * Analyses an MP3 from any readable stream of Buffers, such as an upload or stdin.
+ */
+export const analyzeStream = (
+  stream: AsyncIterable<Buffer>,
+  options: ParserOptions = {},
+  onFrame?: FrameListener
+): Promise<Mp3Analysis> => run(new Mp3Analyzer(options), stream, onFrame);
+
+const readTrailingTags = async (
+  filePath: string
+): Promise<{ trailingTags: TrailingTags; audioEnd: number }> => {
+  const handle = await fs.promises.open(filePath, 'r');
+
+  try {
+    const { size } = await handle.stat();
+
+    const length = Math.min(size, TRAILING_TAG_SCAN_SIZE);
+    const tail = Buffer.alloc(length);
+    await handle.read(tail, 0, length, size - length);
+
+    const { tags, size: trailingSize } = parseTrailingTags(tail);
+    return { trailingTags: tags, audioEnd: Math.max(size - trailingSize, 0) };
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Analyses an MP3 file on disk. The trailing tags are read first so that reading can
+ * stop where they begin.
+ */
+export const analyzeFile = async (
+  filePath: string,
+  options: ParserOptions = {},
+  onFrame?: FrameListener
+): Promise<Mp3Analysis> => {
+  const { trailingTags, audioEnd } = await readTrailingTags(filePath);
+
+  if (audioEnd === 0) {
+    throw new NoFramesError();
+  }
+
+  const stream = fs.createReadStream(filePath, { highWaterMark: CHUNK_SIZE, end: audioEnd - 1 });
+  return run(new Mp3Analyzer(options, trailingTags), stream, onFrame);
+};
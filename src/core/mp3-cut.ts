@@ -0,0 +1,174 @@
+import { FrameIndexEntry, InvalidRangeError, ParserOptions } from '../types';
+import { CUT_CONFIG } from '../config/constants';
+import { Mp3Analyzer } from './mp3-analyzer';
+import { parseId3v2Header } from './id3v2';
+import { parseTrailingTags } from './trailing-tags';
+import { createXingFrame } from './vbr-header';
+
+export type RangeUnit = 'frames' | 'ms';
+
+export interface CutRange {
+  unit: RangeUnit;
+  start: number;
+  // Exclusive; the range runs to the end of the file when omitted
+  end?: number;
+}
+
+export interface CutOptions {
+  // Copy the leading ID3v2 tag and the trailing tags into the output
+  keepTags?: boolean;
+}
+
+/**
+ * An MP3 held in memory together with the position of its audio frames and tags.
+ */
+export interface Mp3Source {
+  data: Buffer;
+  frames: FrameIndexEntry[];
+  durationMs: number;
+  leadingTag: Buffer;
+  trailingTags: Buffer;
+}
+
+const EMPTY = Buffer.alloc(0);
+
+/**
+ * Finds the audio frames and tags of an MP3. An existing Xing/Info or VBRI frame is not
+ * counted as audio, so cuts get a new one rather than a stale copy.
+ */
+export const readMp3Source = (data: Buffer, options: ParserOptions = {}): Mp3Source => {
+  const { tags, size } = parseTrailingTags(data);
+  const audioEnd = Math.max(data.length - size, 0);
+  const analyzer = new Mp3Analyzer(options, tags);
+
+  const frames = [...analyzer.write(data.subarray(0, audioEnd)), ...analyzer.end()];
+  // Fails the same way as an analysis when there are no frames or too many bad CRCs
+  const { durationMs } = analyzer.getAnalysis();
+
+  const tagHeader = parseId3v2Header(data);
+  const tagSize = tagHeader && tagHeader.totalSize <= audioEnd ? tagHeader.totalSize : 0;
+
+  return {
+    data,
+    frames,
+    durationMs,
+    leadingTag: data.subarray(0, tagSize),
+    trailingTags: data.subarray(audioEnd),
+  };
+};
+
+// Index of the first frame that starts at or after `timeMs`
+const findFrameAt = (frames: FrameIndexEntry[], timeMs: number): number => {
+  let low = 0;
+  let high = frames.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if ((frames[middle] as FrameIndexEntry).timestampMs < timeMs) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * The frames in a range. A time range starts with the frame playing at `start` and
+ * ends with the last frame that starts before `end`.
+ */
+export const selectFrames = (source: Mp3Source, range: CutRange): FrameIndexEntry[] => {
+  const { frames } = source;
+  if (range.end !== undefined && range.end <= range.start) {
+    throw new InvalidRangeError('The end of the range must be after its start');
+  }
+
+  let start: number;
+  let end: number;
+  if (range.unit === 'frames') {
+    start = range.start;
+    end = Math.min(range.end ?? frames.length, frames.length);
+  } else {
+    const next = findFrameAt(frames, range.start);
+    start = frames[next]?.timestampMs === range.start ? next : next - 1;
+    end = range.end === undefined ? frames.length : findFrameAt(frames, range.end);
+  }
+
+  if (start >= frames.length || (range.unit === 'ms' && range.start >= source.durationMs)) {
+    throw new InvalidRangeError(
+      range.unit === 'frames'
+        ? `The file only has ${frames.length} frames`
+        : 'The range starts after the end of the audio'
+    );
+  }
+  return frames.slice(Math.max(start, 0), end);
+};
+
+/**
+ * Builds an MP3 from some of the source's frames, copied byte for byte behind a new
+ * Xing/Info frame that describes them.
+ */
+export const createMp3 = (
+  source: Mp3Source,
+  frames: FrameIndexEntry[],
+  options: CutOptions = {}
+): Buffer => {
+  const first = frames[0];
+  if (!first) {
+    throw new InvalidRangeError('The range contains no frames');
+  }
+
+  const frameData = frames.map((frame) =>
+    source.data.subarray(frame.offset, frame.offset + frame.size)
+  );
+  const isVbr = frames.some((frame) => frame.bitrate !== first.bitrate);
+  const xingFrame = createXingFrame(
+    frameData[0] as Buffer,
+    isVbr ? 'Xing' : 'Info',
+    frames.map((frame) => frame.size)
+  );
+
+  return Buffer.concat([
+    options.keepTags ? source.leadingTag : EMPTY,
+    xingFrame ?? EMPTY,
+    ...frameData,
+    options.keepTags ? source.trailingTags : EMPTY,
+  ]);
+};
+
+/**
+ * Cuts out the frames in a range as a new MP3.
+ */
+export const cutMp3 = (source: Mp3Source, range: CutRange, options: CutOptions = {}): Buffer =>
+  createMp3(source, selectFrames(source, range), options);
+
+/**
+ * Splits the audio into MP3s of `length` frames or milliseconds each. The last one
+ * holds whatever is left.
+ */
+export const splitMp3 = (
+  source: Mp3Source,
+  unit: RangeUnit,
+  length: number,
+  options: CutOptions = {}
+): Buffer[] => {
+  const segments: FrameIndexEntry[][] = [];
+  let current: FrameIndexEntry[] = [];
+  let currentKey = -1;
+
+  for (const [index, frame] of source.frames.entries()) {
+    const key = Math.floor((unit === 'frames' ? index : frame.timestampMs) / length);
+    if (key !== currentKey) {
+      if (segments.length === CUT_CONFIG.MAX_SEGMENTS) {
+        throw new InvalidRangeError(
+          `Splitting would produce more than ${CUT_CONFIG.MAX_SEGMENTS} segments`
+        );
+      }
+      current = [];
+      currentKey = key;
+      segments.push(current);
+    }
+    current.push(frame);
+  }
+
+  return segments.map((frames) => createMp3(source, frames, options));
+};
@@ -0,0 +1,32 @@
+import { ParseTimeoutError, ParserOptions } from '../types';
+
+/**
+ * Runs `parse` with a signal added to the options that stops the analysis with a
+ * ParseTimeoutError once `timeoutMs` has passed, and clears the timer when it settles.
+ * A timeout of 0 passes the options unchanged.
+ *
+ * The clock starts when this is called, so where parsing reads an upload as it arrives
+ * (`stream` storage, PUT /analyze) the time spent receiving it counts too. The signal is
+ * only checked between chunks: a parse of one buffer already in memory, as POST /cut
+ * does, can't be stopped partway.
+ */
+export const withParseTimeout = async <T>(
+  options: ParserOptions,
+  timeoutMs: number,
+  parse: (options: ParserOptions) => T | Promise<T>
+): Promise<T> => {
+  if (timeoutMs === 0) {
+    return parse(options);
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new ParseTimeoutError(`Parsing took longer than ${timeoutMs} ms`)),
+    timeoutMs
+  );
+  try {
+    return await parse({ ...options, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,75 @@
+import { FrameHeader } from '../types';
+import { MP3_CONSTANTS } from '../config/constants';
+
+/**
+ * The parts of a granule's side information that describe how much audio it holds.
+ */
+export interface GranuleInfo {
+  // Bits of scale factors and Huffman data in the main data
+  part2_3Length: number;
+  // Pairs of spectral values coded with the big-value tables
+  bigValues: number;
+  // Quantizer step size; 210 leaves the values unscaled
+  globalGain: number;
+}
+
+export interface SideInfo {
+  // How far back the frame's main data starts, in bytes
+  mainDataBegin: number;
+  // Indexed by granule, then channel
+  granules: GranuleInfo[][];
+}
+
+// Bits in each granule and channel's entry: MPEG1 has a 4-bit scalefac_compress and a
+// preflag, MPEG2 and 2.5 a 9-bit scalefac_compress
+const GRANULE_BITS = { mpeg1: 59, mpeg2: 63 } as const;
+
+const readBits = (buffer: Buffer, bitOffset: number, count: number): number => {
+  let value = 0;
+  for (let i = 0; i < count; i++) {
+    const bit = bitOffset + i;
+    value = (value << 1) | (((buffer[bit >> 3] as number) >> (7 - (bit & 7))) & 1);
+  }
+  return value;
+};
+
+/**
+ * Reads the Layer III side information that follows the frame header (and CRC). Returns
+ * null for other layers or when the frame is too short to hold it.
+ */
+export const parseSideInfo = (frame: Buffer, header: FrameHeader): SideInfo | null => {
+  if (header.layer !== 3) {
+    return null;
+  }
+
+  const isMpeg1 = header.version === '1';
+  const channels = header.channelMode === 'mono' ? 1 : 2;
+  const granuleCount = isMpeg1 ? 2 : 1;
+  const start = (MP3_CONSTANTS.MIN_HEADER_SIZE + (header.hasCrc ? 2 : 0)) * 8;
+
+  // main_data_begin, then private bits, then (MPEG1 only) 4 scfsi bits per channel
+  const mainDataBeginBits = isMpeg1 ? 9 : 8;
+  const privateBits = isMpeg1 ? (channels === 1 ? 5 : 3) : channels;
+  const granuleBits = isMpeg1 ? GRANULE_BITS.mpeg1 : GRANULE_BITS.mpeg2;
+  let offset = start + mainDataBeginBits + privateBits + (isMpeg1 ? 4 * channels : 0);
+
+  if (offset + granuleCount * channels * granuleBits > frame.length * 8) {
+    return null;
+  }
+
+  const granules: GranuleInfo[][] = [];
+  for (let granule = 0; granule < granuleCount; granule++) {
+    const channelInfo: GranuleInfo[] = [];
+    for (let channel = 0; channel < channels; channel++) {
+      channelInfo.push({
+        part2_3Length: readBits(frame, offset, 12),
+        bigValues: readBits(frame, offset + 12, 9),
+        globalGain: readBits(frame, offset + 21, 8),
+      });
+      offset += granuleBits;
+    }
+    granules.push(channelInfo);
+  }
+
+  return { mainDataBegin: readBits(frame, start, mainDataBeginBits), granules };
+};
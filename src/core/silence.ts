@@ -0,0 +1,101 @@
+import { FrameHeader, SilenceRange, SilenceReport } from '../types';
+import { ANALYSIS_CONFIG } from '../config/constants';
+import { GranuleInfo, parseSideInfo } from './side-info';
+
+// Each global_gain step scales the output by 2^(1/4), about 1.5 dB, and 210 is unity
+const GLOBAL_GAIN_UNITY = 210;
+const DB_PER_GAIN_STEP = 20 * Math.log10(2 ** 0.25);
+
+// Internal silences beyond this are not listed
+const MAX_REPORTED_SILENCES = 1000;
+
+/**
+ * Whether a granule can only hold sound below the threshold. With no big values every
+ * quantized value is 0 or ±1, so global_gain bounds the loudest sample it can produce.
+ */
+const isQuietGranule = (granule: GranuleInfo, thresholdDb: number): boolean =>
+  granule.part2_3Length === 0 ||
+  (granule.bigValues === 0 &&
+    (granule.globalGain - GLOBAL_GAIN_UNITY) * DB_PER_GAIN_STEP <= thresholdDb);
+
+/**
+ * Finds near-silent Layer III frames from their side information, without decoding
+ * any audio, and reports the silent stretches as time ranges.
+ */
+export class SilenceDetector {
+  private thresholdDb: number;
+  private minSilenceMs: number;
+  private isLayer3 = true;
+  private silentFrames = 0;
+  private hasSound = false;
+  private runStartMs: number | null = null;
+  private leading: SilenceRange | null = null;
+  private internal: SilenceRange[] = [];
+
+  constructor(
+    thresholdDb: number = ANALYSIS_CONFIG.SILENCE_THRESHOLD_DB,
+    minSilenceMs: number = ANALYSIS_CONFIG.MIN_SILENCE_MS
+  ) {
+    this.thresholdDb = thresholdDb;
+    this.minSilenceMs = minSilenceMs;
+  }
+
+  public add(frame: Buffer, header: FrameHeader, timestampMs: number): void {
+    const sideInfo = parseSideInfo(frame, header);
+    if (!sideInfo) {
+      // Only Layer III frames carry side information
+      this.isLayer3 &&= header.layer === 3;
+      return;
+    }
+
+    const isSilent = sideInfo.granules.every((channels) =>
+      channels.every((granule) => isQuietGranule(granule, this.thresholdDb))
+    );
+
+    if (isSilent) {
+      this.silentFrames++;
+      this.runStartMs ??= timestampMs;
+      return;
+    }
+
+    if (this.runStartMs !== null) {
+      const run = { startMs: this.runStartMs, endMs: timestampMs };
+      if (!this.hasSound) {
+        this.leading = run;
+      } else if (run.endMs - run.startMs >= this.minSilenceMs) {
+        this.addInternal(run);
+      }
+      this.runStartMs = null;
+    }
+    this.hasSound = true;
+  }
+
+  /**
+   * The silences found, with a run still open at `endMs` reported as trailing silence.
+   * Returns null for streams that aren't Layer III.
+   */
+  public getReport(endMs: number): SilenceReport | null {
+    if (!this.isLayer3) {
+      return null;
+    }
+
+    const open = this.runStartMs !== null ? { startMs: this.runStartMs, endMs } : null;
+    // A file that is silent throughout only has leading silence
+    const leading = this.hasSound ? this.leading : open;
+    const trailing = this.hasSound ? open : null;
+
+    return {
+      thresholdDb: this.thresholdDb,
+      silentFrames: this.silentFrames,
+      ...(leading && { leading }),
+      ...(trailing && { trailing }),
+      internal: this.internal,
+    };
+  }
+
+  private addInternal(run: SilenceRange): void {
+    if (this.internal.length < MAX_REPORTED_SILENCES) {
+      this.internal.push(run);
+    }
+  }
+}
@@ -1,16 +1,12 @@
 import * as fs from 'fs';
-import { InvalidMp3Error } from '../types';
-import { MP3_CONSTANTS } from '../config/constants';
+import { FrameListener, InvalidMp3Error, Mp3Analysis, ParserOptions } from '../types';
+import { analyzeFile } from './mp3-analyzer';
 
 export class StreamingMp3Parser {
   private filePath: string;
-  private static readonly CHUNK_SIZE = 64 * 1024; // 64KB chunks
-  private static readonly BITRATE_TABLE = [
-    0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 0,
-  ];
-  private static readonly SAMPLE_RATE_TABLE = [44100, 48000, 32000, 0];
+  private options: ParserOptions;
 
-  constructor(filePath: string) {
+  constructor(filePath: string, options: ParserOptions = {}) {
     if (!filePath) {
       throw new InvalidMp3Error('File path is required');
     }
@@ -25,98 +21,19 @@ export class StreamingMp3Parser {
     }
 
     this.filePath = filePath;
+    this.options = options;
   }
 
   public async getFrameCount(): Promise<number> {
-    return new Promise((resolve, reject) => {
-      const stream = fs.createReadStream(this.filePath, {
-        highWaterMark: StreamingMp3Parser.CHUNK_SIZE,
-      });
-
-      let frameCount = 0;
-      let buffer = Buffer.alloc(0);
-      let offset = 0;
-
-      stream.on('data', (chunk: Buffer) => {
-        // Append new chunk to existing buffer
-        buffer = Buffer.concat([buffer, chunk]);
-
-        // Process frames in the buffer
-        while (offset < buffer.length - MP3_CONSTANTS.MIN_HEADER_SIZE) {
-          const byte1 = buffer[offset];
-          const byte2 = buffer[offset + 1];
-
-          if (
-            byte1 !== undefined &&
-            byte2 !== undefined &&
-            byte1 === MP3_CONSTANTS.FRAME_SYNC_BYTE1 &&
-            (byte2 & MP3_CONSTANTS.FRAME_SYNC_BYTE2_MASK) ===
-              MP3_CONSTANTS.FRAME_SYNC_BYTE2_MASK
-          ) {
-            const frameSize = this.getFrameSize(buffer, offset);
-
-            if (frameSize > 0) {
-              if (offset + frameSize <= buffer.length) {
-                frameCount++;
-                offset += frameSize;
-              } else {
-                // Frame extends beyond current buffer, wait for more data
-                break;
-              }
-            } else {
-              offset++;
-            }
-          } else {
-            offset++;
-          }
-        }
-
-        // Keep remaining unprocessed data
-        if (offset > 0) {
-          buffer = buffer.subarray(offset);
-          offset = 0;
-        }
-      });
-
-      stream.on('end', () => {
-        if (frameCount === 0) {
-          reject(new InvalidMp3Error('No valid MP3 frames found'));
-        } else {
-          resolve(frameCount);
-        }
-      });
-
-      stream.on('error', (error) => {
-        reject(new InvalidMp3Error(`Error reading file: ${error.message}`));
-      });
-    });
+    const analysis = await this.analyze();
+    return analysis.frameCount;
   }
 
-  private getFrameSize(buffer: Buffer, offset: number): number {
-    if (offset + MP3_CONSTANTS.MIN_HEADER_SIZE > buffer.length) {
-      return 0;
-    }
-
-    const header = buffer.readUInt32BE(offset);
-
-    const bitrateIndex = (header >> 12) & 0x0f;
-    const bitrate = StreamingMp3Parser.BITRATE_TABLE[bitrateIndex];
-
-    const sampleRateIndex = (header >> 10) & 0x03;
-    const sampleRate = StreamingMp3Parser.SAMPLE_RATE_TABLE[sampleRateIndex];
-
-    const padding = (header >> 9) & 0x01;
-
-    if (!bitrate || bitrate === 0 || !sampleRate || sampleRate === 0) {
-      return 0;
-    }
-
-    const frameSize =
-      Math.floor(
-        (MP3_CONSTANTS.FRAME_SIZE_COEFFICIENT * bitrate * MP3_CONSTANTS.BITRATE_MULTIPLIER) /
-          sampleRate
-      ) + padding;
-
-    return frameSize;
+  /**
+   * Walks the file and returns the analysis. When `onFrame` is given it is called for
+   * every audio frame as it is found; reading pauses while a returned promise is pending.
+   */
+  public async analyze(onFrame?: FrameListener): Promise<Mp3Analysis> {
+    return analyzeFile(this.filePath, this.options, onFrame);
   }
 }
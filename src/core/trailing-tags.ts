@@ -0,0 +1,168 @@
+import { ApeItem, Id3v1Tag, TrailingTags } from '../types';
+
+export const ID3V1_TAG_SIZE = 128;
+
+const APE_HEADER_SIZE = 32;
+const APE_HAS_HEADER_FLAG = 0x80000000;
+const APE_ITEM_TYPES: ApeItem['type'][] = ['text', 'binary', 'external', 'reserved'];
+
+// Lyrics3v2 ends with a 6-digit size followed by 'LYRICS200'
+const LYRICS3_FOOTER_SIZE = 15;
+const LYRICS3_BEGIN = 'LYRICSBEGIN';
+
+export interface TrailingTagsResult {
+  tags: TrailingTags;
+  // Number of bytes at the end of the data taken up by trailing tags
+  size: number;
+}
+
+const readFixedString = (data: Buffer, start: number, length: number): string => {
+  const text = data.toString('latin1', start, start + length);
+  const terminator = text.indexOf('\0');
+  return (terminator === -1 ? text : text.slice(0, terminator)).trim();
+};
+
+const parseId3v1 = (data: Buffer): Id3v1Tag => {
+  // ID3v1.1 stores the track number in the last byte of a zero-terminated comment
+  const isV11 = data[125] === 0 && data[126] !== 0;
+
+  return {
+    version: isV11 ? '1.1' : '1.0',
+    title: readFixedString(data, 3, 30),
+    artist: readFixedString(data, 33, 30),
+    album: readFixedString(data, 63, 30),
+    year: readFixedString(data, 93, 4),
+    comment: readFixedString(data, 97, isV11 ? 28 : 30),
+    ...(isV11 && { track: data[126] as number }),
+    genre: data[127] as number,
+  };
+};
+
+const parseApeItems = (data: Buffer, itemCount: number): ApeItem[] => {
+  const items: ApeItem[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < itemCount && offset + 8 < data.length; i++) {
+    const size = data.readUInt32LE(offset);
+    const flags = data.readUInt32LE(offset + 4);
+    const keyEnd = data.indexOf(0, offset + 8);
+
+    if (keyEnd === -1 || keyEnd + 1 + size > data.length) {
+      break;
+    }
+
+    const type = APE_ITEM_TYPES[(flags >> 1) & 0x03] as ApeItem['type'];
+    const value = data.subarray(keyEnd + 1, keyEnd + 1 + size);
+
+    items.push({
+      key: data.toString('latin1', offset + 8, keyEnd),
+      type,
+      ...(type !== 'binary' && { value: value.toString('utf8') }),
+      size,
+    });
+
+    offset = keyEnd + 1 + size;
+  }
+
+  return items;
+};
+
+const parseLyrics3Fields = (data: Buffer): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let offset = 0;
+
+  // Each field is a 3-character ID, a 5-digit size and the field data
+  while (offset + 8 <= data.length) {
+    const id = data.toString('latin1', offset, offset + 3);
+    const size = parseInt(data.toString('latin1', offset + 3, offset + 8), 10);
+
+    if (!/^[A-Z]{3}$/.test(id) || isNaN(size) || offset + 8 + size > data.length) {
+      break;
+    }
+
+    fields[id] = data.toString('latin1', offset + 8, offset + 8 + size);
+    offset += 8 + size;
+  }
+
+  return fields;
+};
+
+/**
+ * Detects ID3v1/1.1, APEv2 (with or without a header) and Lyrics3v2 tags at the end
+ * of `data`, which should hold the last bytes of the file. Tags may appear in any
+ * order. When a tag reaches back past the start of `data`, its size still counts
+ * towards the result but its fields are not parsed.
+ */
+export const parseTrailingTags = (data: Buffer): TrailingTagsResult => {
+  const tags: TrailingTags = {};
+  let end = data.length;
+  let isTagFound = true;
+
+  while (isTagFound && end > 0) {
+    isTagFound = false;
+
+    if (
+      !tags.id3v1 &&
+      end >= ID3V1_TAG_SIZE &&
+      data.toString('latin1', end - ID3V1_TAG_SIZE, end - ID3V1_TAG_SIZE + 3) === 'TAG'
+    ) {
+      tags.id3v1 = parseId3v1(data.subarray(end - ID3V1_TAG_SIZE, end));
+      end -= ID3V1_TAG_SIZE;
+      isTagFound = true;
+      continue;
+    }
+
+    if (
+      !tags.apev2 &&
+      end >= APE_HEADER_SIZE &&
+      data.toString('latin1', end - APE_HEADER_SIZE, end - APE_HEADER_SIZE + 8) === 'APETAGEX'
+    ) {
+      const footer = data.subarray(end - APE_HEADER_SIZE, end);
+      // Tag size covers the items and the footer, but not the optional header
+      const tagSize = footer.readUInt32LE(12);
+      const itemCount = footer.readUInt32LE(16);
+      const hasHeader = (footer.readUInt32LE(20) & APE_HAS_HEADER_FLAG) !== 0;
+      const totalSize = tagSize + (hasHeader ? APE_HEADER_SIZE : 0);
+      const itemsStart = end - tagSize;
+
+      tags.apev2 = {
+        version: footer.readUInt32LE(8),
+        size: totalSize,
+        items:
+          itemsStart >= 0
+            ? parseApeItems(data.subarray(itemsStart, end - APE_HEADER_SIZE), itemCount)
+            : [],
+      };
+      end -= totalSize;
+      isTagFound = true;
+      continue;
+    }
+
+    if (
+      !tags.lyrics3 &&
+      end >= LYRICS3_FOOTER_SIZE &&
+      data.toString('latin1', end - 9, end) === 'LYRICS200'
+    ) {
+      const size = parseInt(data.toString('latin1', end - LYRICS3_FOOTER_SIZE, end - 9), 10);
+      const start = end - LYRICS3_FOOTER_SIZE - size;
+
+      if (
+        !isNaN(size) &&
+        start >= 0 &&
+        data.toString('latin1', start, start + LYRICS3_BEGIN.length) === LYRICS3_BEGIN
+      ) {
+        tags.lyrics3 = {
+          version: '2.00',
+          size: size + LYRICS3_FOOTER_SIZE,
+          fields: parseLyrics3Fields(
+            data.subarray(start + LYRICS3_BEGIN.length, end - LYRICS3_FOOTER_SIZE)
+          ),
+        };
+        end = start;
+        isTagFound = true;
+      }
+    }
+  }
+
+  return { tags, size: data.length - end };
+};
@@ -0,0 +1,302 @@
+import {
+  FrameHeader,
+  LameTag,
+  ReplayGain,
+  ReplayGainAdjustment,
+  ReplayGainOriginator,
+  VbrHeader,
+} from '../types';
+import { MP3_CONSTANTS } from '../config/constants';
+import { parseFrameHeader } from './frame-header';
+import { crc16Arc } from './crc';
+
+const XING_FLAGS = {
+  FRAMES: 0x01,
+  BYTES: 0x02,
+  TOC: 0x04,
+  QUALITY: 0x08,
+} as const;
+
+const XING_TOC_SIZE = 100;
+
+// The LAME extension starts with a 9-byte encoder version string
+const LAME_ENCODER_SIZE = 9;
+const LAME_ENCODER_PATTERN = /^(LAME|Lavf|Lavc)/;
+// The whole LAME tag, ending with the CRC of the frame up to that point
+const LAME_TAG_SIZE = 36;
+const LAME_TAG_CRC_OFFSET = 34;
+
+// ReplayGain name codes
+const REPLAY_GAIN_TRACK = 1;
+const REPLAY_GAIN_ALBUM = 2;
+const REPLAY_GAIN_ORIGINATORS: ReplayGainOriginator[] = [
+  'unspecified',
+  'artist',
+  'user',
+  'automatic',
+  'rms',
+];
+
+// VBRI headers always start 32 bytes after the frame header
+const VBRI_OFFSET = MP3_CONSTANTS.MIN_HEADER_SIZE + 32;
+
+/**
+ * Size of the Layer III side information, which sits between the frame header
+ * (plus CRC, if any) and the Xing/Info tag.
+ */
+const getSideInfoSize = (header: FrameHeader): number => {
+  const mono = header.channelMode === 'mono';
+
+  if (header.version === '1') {
+    return mono ? 17 : 32;
+  }
+
+  return mono ? 9 : 17;
+};
+
+/**
+ * Reads a ReplayGain field: a 3-bit name code, a 3-bit originator, a sign bit and the
+ * gain in tenths of a dB.
+ */
+const parseReplayGainField = (
+  field: number
+): { name: number; adjustment: ReplayGainAdjustment } | null => {
+  const name = field >> 13;
+  if (name !== REPLAY_GAIN_TRACK && name !== REPLAY_GAIN_ALBUM) {
+    return null;
+  }
+
+  const gain = (field & 0x1ff) / 10;
+  return {
+    name,
+    adjustment: {
+      gainDb: field & 0x200 ? -gain : gain,
+      originator: REPLAY_GAIN_ORIGINATORS[(field >> 10) & 0x07] ?? 'unspecified',
+    },
+  };
+};
+
+const parseReplayGain = (frame: Buffer, offset: number): ReplayGain => {
+  const replayGain: ReplayGain = {};
+
+  // Stored as a fixed-point number with 23 fractional bits; 0 means not recorded
+  const peak = frame.readUInt32BE(offset);
+  if (peak !== 0) {
+    replayGain.peak = peak / 2 ** 23;
+  }
+
+  for (const fieldOffset of [offset + 4, offset + 6]) {
+    const field = parseReplayGainField(frame.readUInt16BE(fieldOffset));
+    if (field?.name === REPLAY_GAIN_TRACK) {
+      replayGain.track = field.adjustment;
+    } else if (field?.name === REPLAY_GAIN_ALBUM) {
+      replayGain.album = field.adjustment;
+    }
+  }
+
+  return replayGain;
+};
+
+/**
+ * Reads the LAME extension that LAME and FFmpeg write after the Xing/Info fields.
+ * The tag CRC covers the frame from its first byte up to the CRC itself.
+ */
+const parseLameTag = (frame: Buffer, offset: number): LameTag | null => {
+  if (offset + LAME_ENCODER_SIZE + 1 > frame.length) {
+    return null;
+  }
+
+  const encoder = frame.toString('latin1', offset, offset + LAME_ENCODER_SIZE);
+  if (!LAME_ENCODER_PATTERN.test(encoder)) {
+    return null;
+  }
+
+  const methodByte = frame[offset + LAME_ENCODER_SIZE] as number;
+  const lame: LameTag = {
+    encoder: encoder.replace(/\0/g, '').trim(),
+    // Low nibble of the byte after the version string: 1/8 = CBR, 2/9 = ABR, 3-6 = VBR
+    vbrMethod: methodByte & 0x0f,
+  };
+
+  if (offset + LAME_TAG_SIZE > frame.length) {
+    return lame;
+  }
+
+  lame.revision = methodByte >> 4;
+
+  // Stored in units of 100 Hz; 0 means unknown
+  const lowpass = frame[offset + 10] as number;
+  if (lowpass !== 0) {
+    lame.lowpassHz = lowpass * 100;
+  }
+
+  const replayGain = parseReplayGain(frame, offset + 11);
+  if (Object.keys(replayGain).length > 0) {
+    lame.replayGain = replayGain;
+  }
+
+  // 12 bits each for the delay and the padding
+  const delayAndPadding = frame.readUIntBE(offset + 21, 3);
+  lame.encoderDelay = delayAndPadding >> 12;
+  lame.encoderPadding = delayAndPadding & 0xfff;
+
+  lame.musicLength = frame.readUInt32BE(offset + 28);
+  lame.musicCrc = frame.readUInt16BE(offset + 32);
+  lame.tagCrcValid =
+    crc16Arc(frame.subarray(0, offset + LAME_TAG_CRC_OFFSET)) ===
+    frame.readUInt16BE(offset + LAME_TAG_CRC_OFFSET);
+
+  return lame;
+};
+
+const parseXingHeader = (frame: Buffer, header: FrameHeader): VbrHeader | null => {
+  let offset = MP3_CONSTANTS.MIN_HEADER_SIZE + (header.hasCrc ? 2 : 0) + getSideInfoSize(header);
+
+  if (offset + 8 > frame.length) {
+    return null;
+  }
+
+  const id = frame.toString('latin1', offset, offset + 4);
+  if (id !== 'Xing' && id !== 'Info') {
+    return null;
+  }
+
+  const flags = frame.readUInt32BE(offset + 4);
+  offset += 8;
+
+  const vbrHeader: VbrHeader = { type: id };
+
+  if (flags & XING_FLAGS.FRAMES) {
+    if (offset + 4 > frame.length) return vbrHeader;
+    vbrHeader.frames = frame.readUInt32BE(offset);
+    offset += 4;
+  }
+
+  if (flags & XING_FLAGS.BYTES) {
+    if (offset + 4 > frame.length) return vbrHeader;
+    vbrHeader.bytes = frame.readUInt32BE(offset);
+    offset += 4;
+  }
+
+  if (flags & XING_FLAGS.TOC) {
+    if (offset + XING_TOC_SIZE > frame.length) return vbrHeader;
+    vbrHeader.toc = Array.from(frame.subarray(offset, offset + XING_TOC_SIZE));
+    offset += XING_TOC_SIZE;
+  }
+
+  if (flags & XING_FLAGS.QUALITY) {
+    if (offset + 4 > frame.length) return vbrHeader;
+    vbrHeader.quality = frame.readUInt32BE(offset);
+    offset += 4;
+  }
+
+  const lame = parseLameTag(frame, offset);
+  if (lame) {
+    vbrHeader.lame = lame;
+  }
+
+  return vbrHeader;
+};
+
+const parseVbriHeader = (frame: Buffer): VbrHeader | null => {
+  // ID, version, delay, quality, bytes, frames, TOC entries, scale, entry size, frames per entry
+  if (VBRI_OFFSET + 26 > frame.length) {
+    return null;
+  }
+
+  if (frame.toString('latin1', VBRI_OFFSET, VBRI_OFFSET + 4) !== 'VBRI') {
+    return null;
+  }
+
+  const quality = frame.readUInt16BE(VBRI_OFFSET + 8);
+  const bytes = frame.readUInt32BE(VBRI_OFFSET + 10);
+  const frames = frame.readUInt32BE(VBRI_OFFSET + 14);
+  const tocEntries = frame.readUInt16BE(VBRI_OFFSET + 18);
+  const scale = frame.readUInt16BE(VBRI_OFFSET + 20);
+  const entrySize = frame.readUInt16BE(VBRI_OFFSET + 22);
+
+  const vbrHeader: VbrHeader = { type: 'VBRI', frames, bytes, quality };
+
+  const tocStart = VBRI_OFFSET + 26;
+  if (entrySize >= 1 && entrySize <= 4 && tocStart + tocEntries * entrySize <= frame.length) {
+    vbrHeader.toc = [];
+    for (let i = 0; i < tocEntries; i++) {
+      vbrHeader.toc.push(frame.readUIntBE(tocStart + i * entrySize, entrySize) * scale);
+    }
+  }
+
+  return vbrHeader;
+};
+
+/**
+ * Looks for a Xing/Info or VBRI header inside a complete Layer III frame. Encoders
+ * write these into the first frame of a file, which then carries no audio.
+ */
+export const parseVbrHeader = (frame: Buffer, header: FrameHeader): VbrHeader | null => {
+  if (header.layer !== 3) {
+    return null;
+  }
+
+  return parseXingHeader(frame, header) ?? parseVbriHeader(frame);
+};
+
+// Xing/Info fields written by createXingFrame: ID, flags, frame count, byte count and TOC
+const XING_TAG_SIZE = 16 + XING_TOC_SIZE;
+
+/**
+ * Builds a Xing (VBR) or Info (CBR) frame for a Layer III stream made of frames of the
+ * given sizes, recording their count, the stream size and a seek table. It copies the
+ * header of `firstFrame`, raising the bitrate when the frame would be too small to hold
+ * the tag. Returns null for other layers.
+ */
+export const createXingFrame = (
+  firstFrame: Buffer,
+  type: 'Xing' | 'Info',
+  frameSizes: number[]
+): Buffer | null => {
+  const template = parseFrameHeader(firstFrame, 0);
+  if (!template || template.layer !== 3) {
+    return null;
+  }
+
+  const tagOffset = MP3_CONSTANTS.MIN_HEADER_SIZE + getSideInfoSize(template);
+  const headerBytes = Buffer.from(firstFrame.subarray(0, MP3_CONSTANTS.MIN_HEADER_SIZE));
+  // No CRC and no padding
+  headerBytes.writeUInt8(headerBytes.readUInt8(1) | 0x01, 1);
+  headerBytes.writeUInt8(headerBytes.readUInt8(2) & ~0x02, 2);
+
+  let header: FrameHeader | null = null;
+  for (let index = headerBytes.readUInt8(2) >> 4; index < 15 && !header; index++) {
+    headerBytes.writeUInt8((headerBytes.readUInt8(2) & 0x0f) | (index << 4), 2);
+    const candidate = parseFrameHeader(headerBytes, 0);
+    if (candidate && candidate.frameSize >= tagOffset + XING_TAG_SIZE) {
+      header = candidate;
+    }
+  }
+  if (!header) {
+    return null;
+  }
+
+  const frame = Buffer.alloc(header.frameSize);
+  headerBytes.copy(frame);
+
+  const totalBytes = frameSizes.reduce((total, size) => total + size, frame.length);
+  frame.write(type, tagOffset, 'latin1');
+  frame.writeUInt32BE(XING_FLAGS.FRAMES | XING_FLAGS.BYTES | XING_FLAGS.TOC, tagOffset + 4);
+  frame.writeUInt32BE(frameSizes.length, tagOffset + 8);
+  frame.writeUInt32BE(totalBytes, tagOffset + 12);
+
+  // Every frame lasts as long, so entry i is the position of frame i% of the way in,
+  // in 256ths of the stream
+  let position = frame.length;
+  let frameIndex = 0;
+  for (let i = 0; i < XING_TOC_SIZE; i++) {
+    const target = Math.floor((i * frameSizes.length) / XING_TOC_SIZE);
+    while (frameIndex < target) {
+      position += frameSizes[frameIndex++] as number;
+    }
+    frame.writeUInt8(Math.min(255, Math.floor((position / totalBytes) * 256)), tagOffset + 16 + i);
+  }
+
+  return frame;
+};
@@ -1,17 +1,10 @@
-import express from 'express';
-import uploadRoutes from './routes/upload.routes';
-import { errorHandler } from './middleware/error.middleware';
-import { SERVER_CONFIG } from './config/constants';
+import { createApp } from './app';
+import { startServer } from './server';
+import { loadConfig } from './config/config';
 
-const app = express();
+const config = loadConfig();
 
-app.get('/health', (req, res) => {
-  res.status(200).send('OK');
+startServer(createApp({ config }), {
+  port: config.port,
+  shutdownTimeoutMs: config.shutdownTimeoutMs,
 });
-
-app.use(uploadRoutes);
-app.use(errorHandler);
-
-app.listen(SERVER_CONFIG.PORT, () => {
-  console.log(`Server is running on http://localhost:${SERVER_CONFIG.PORT}`);
-}); 
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobRunner } from '../job-runner';
+import { InMemoryJobStore } from '../job-store';
+import { Job, ServerBusyError } from '../../types';
+import { createFrames } from '../../__tests__/helpers/fixtures';
+
+describe('JobRunner', () => {
+  let dir: string;
+
+  const createMp3File = (name: string, numFrames: number): string => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, createFrames(numFrames));
+    return filePath;
+  };
+
+  const waitForJob = async (runner: JobRunner, id: string): Promise<Job | undefined> => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const job = await runner.getJob(id);
+      if (job?.state === 'done' || job?.state === 'failed') {
+        return job;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return runner.getJob(id);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-runner-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should analyse the file, record progress and delete the file', async () => {
+    const store = new InMemoryJobStore();
+    const runner = new JobRunner(store);
+    const filePath = createMp3File('a.mp3', 1000);
+    const updates: number[] = [];
+    const update = store.update.bind(store);
+    store.update = (id, changes) => {
+      if (changes.progress !== undefined) updates.push(changes.progress);
+      return update(id, changes);
+    };
+
+    const { id } = await runner.submit(filePath);
+    const job = await waitForJob(runner, id);
+
+    expect(job?.state).toBe('done');
+    expect(job?.result?.frameCount).toBe(1000);
+    expect(updates.length).toBeGreaterThan(1);
+    expect(updates).toEqual([...updates].sort((a, b) => a - b));
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('should run no more jobs at once than its concurrency', async () => {
+    const runner = new JobRunner(new InMemoryJobStore(), 1);
+
+    const first = await runner.submit(createMp3File('a.mp3', 10));
+    const second = await runner.submit(createMp3File('b.mp3', 10));
+
+    expect((await runner.getJob(second.id))?.state).toBe('queued');
+    expect((await waitForJob(runner, first.id))?.state).toBe('done');
+    expect((await waitForJob(runner, second.id))?.state).toBe('done');
+  });
+
+  it('should turn jobs away once the queue is full', async () => {
+    const runner = new JobRunner(new InMemoryJobStore(), 1, 1000, 0, 1);
+    const files = ['a.mp3', 'b.mp3', 'c.mp3'].map((name) => createMp3File(name, 10000));
+
+    const submitted = await Promise.allSettled(files.map((file) => runner.submit(file)));
+
+    expect(submitted.map(({ status }) => status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+    const turnedAway = submitted[2] as PromiseRejectedResult;
+    expect(turnedAway.reason).toBeInstanceOf(ServerBusyError);
+    expect(turnedAway.reason).toMatchObject({ details: { retryAfterSeconds: 5 } });
+    // The turned away file is still the caller's
+    expect(fs.existsSync(files[2] as string)).toBe(true);
+
+    await runner.cancelAll();
+    expect(await runner.submit(createMp3File('d.mp3', 10))).toMatchObject({ state: 'queued' });
+    await runner.cancelAll();
+  });
+
+  it('should cancel a queued job and delete its file', async () => {
+    const runner = new JobRunner(new InMemoryJobStore(), 1);
+    await runner.submit(createMp3File('a.mp3', 10));
+    const filePath = createMp3File('b.mp3', 10);
+    const { id } = await runner.submit(filePath);
+
+    expect(await runner.cancel(id)).toBe(true);
+    expect(await runner.getJob(id)).toBeUndefined();
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(await runner.cancel(id)).toBe(false);
+  });
+
+  it('should cancel every job and wait for their files to be deleted', async () => {
+    const runner = new JobRunner(new InMemoryJobStore(), 1);
+    const running = createMp3File('a.mp3', 100000);
+    const queued = createMp3File('b.mp3', 10);
+    const first = await runner.submit(running);
+    const second = await runner.submit(queued);
+
+    await runner.cancelAll();
+
+    expect(await runner.getJob(first.id)).toBeUndefined();
+    expect(await runner.getJob(second.id)).toBeUndefined();
+    expect(fs.existsSync(running)).toBe(false);
+    expect(fs.existsSync(queued)).toBe(false);
+  });
+
+  it('should fail the job without the internal message when progress cannot be stored', async () => {
+    const store = new InMemoryJobStore();
+    const update = store.update.bind(store);
+    store.update = (id, changes) =>
+      changes.progress !== undefined && changes.state === undefined
+        ? Promise.reject(new Error('Store is unavailable at 10.0.0.5'))
+        : update(id, changes);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const runner = new JobRunner(store);
+    const filePath = createMp3File('a.mp3', 1000);
+
+    try {
+      const { id } = await runner.submit(filePath);
+      const job = await waitForJob(runner, id);
+
+      expect(job).toMatchObject({
+        state: 'failed',
+        error: 'Internal server error',
+        errorCode: 'INTERNAL',
+      });
+      expect(job?.result).toBeUndefined();
+      expect(fs.existsSync(filePath)).toBe(false);
+      expect(consoleError).toHaveBeenCalledWith(`Job ${id} failed:`, expect.any(Error));
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('should log the outcome of a job when the store cannot record it', async () => {
+    const store = new InMemoryJobStore();
+    const update = store.update.bind(store);
+    store.update = (id, changes) =>
+      changes.state === 'done'
+        ? Promise.reject(new Error('Store is unavailable'))
+        : update(id, changes);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const runner = new JobRunner(store);
+
+    try {
+      const { id } = await runner.submit(createMp3File('a.mp3', 10));
+      for (let attempt = 0; attempt < 100 && consoleError.mock.calls.length === 0; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      expect(consoleError).toHaveBeenCalledWith(
+        `Job ${id} could not be updated:`,
+        expect.any(Error)
+      );
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('should forget finished jobs after the result TTL', async () => {
+    const runner = new JobRunner(new InMemoryJobStore(), 1, 20);
+    const { id } = await runner.submit(createMp3File('a.mp3', 10));
+
+    expect((await waitForJob(runner, id))?.state).toBe('done');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(await runner.getJob(id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,220 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { Job, ParserOptions, ServerBusyError, toClientError } from '../types';
+import { ADMISSION_CONFIG, JOBS_CONFIG } from '../config/constants';
+import { Mp3AnalysisStream } from '../core/mp3-analysis-stream';
+import { withParseTimeout } from '../core/parse-timeout';
+import { JobStore } from './job-store';
+
+interface QueuedJob {
+  id: string;
+  filePath: string;
+  options: ParserOptions;
+}
+
+interface RunningJob {
+  controller: AbortController;
+  // Settles once the job has stopped and its file is deleted
+  finished: Promise<void>;
+}
+
+/**
+ * Runs analysis jobs in the background, a few at a time, recording their state and
+ * progress in a `JobStore`. Each job owns its uploaded file and deletes it when it
+ * finishes or is cancelled. At most `maxQueued` jobs wait to run; more are turned away
+ * with a ServerBusyError, so waiting jobs can't fill the disk.
+ */
+export class JobRunner {
+  private store: JobStore;
+  private concurrency: number;
+  private resultTtlMs: number;
+  private parseTimeoutMs: number;
+  private maxQueued: number;
+  private queue: QueuedJob[] = [];
+  // Jobs being submitted, counted so that submissions at the same time can't overfill the queue
+  private submitting = 0;
+  private running = new Map<string, RunningJob>();
+  private expiryTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    store: JobStore,
+    concurrency: number = JOBS_CONFIG.CONCURRENCY,
+    resultTtlMs: number = JOBS_CONFIG.RESULT_TTL_MS,
+    parseTimeoutMs: number = JOBS_CONFIG.PARSE_TIMEOUT_MS,
+    maxQueued: number = JOBS_CONFIG.MAX_QUEUED
+  ) {
+    this.store = store;
+    this.concurrency = concurrency;
+    this.resultTtlMs = resultTtlMs;
+    this.parseTimeoutMs = parseTimeoutMs;
+    this.maxQueued = maxQueued;
+  }
+
+  /**
+   * Queues the analysis of an uploaded file and returns the new job. Throws a
+   * ServerBusyError when the queue is full; the file is then still the caller's.
+   */
+  public async submit(filePath: string, options: ParserOptions = {}): Promise<Job> {
+    const jobs = this.running.size + this.queue.length + this.submitting;
+    if (jobs >= this.concurrency + this.maxQueued) {
+      throw new ServerBusyError('Too many jobs are waiting to run, try again later', {
+        retryAfterSeconds: ADMISSION_CONFIG.BUSY_RETRY_AFTER_SECONDS,
+      });
+    }
+
+    let job: Job;
+    this.submitting++;
+    try {
+      const { size } = await fs.promises.stat(filePath);
+      job = {
+        id: randomUUID(),
+        state: 'queued',
+        progress: 0,
+        bytesParsed: 0,
+        totalBytes: size,
+        createdAt: new Date().toISOString(),
+      };
+      await this.store.create(job);
+    } finally {
+      this.submitting--;
+    }
+
+    this.queue.push({ id: job.id, filePath, options });
+    this.startNext();
+    return job;
+  }
+
+  public getJob(id: string): Promise<Job | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Stops the job if it is queued or running, deletes its file and forgets it.
+   * Returns false if there is no such job.
+   */
+  public async cancel(id: string): Promise<boolean> {
+    const index = this.queue.findIndex((job) => job.id === id);
+    if (index !== -1) {
+      const [queued] = this.queue.splice(index, 1);
+      if (queued) {
+        await fs.promises.rm(queued.filePath, { force: true });
+      }
+    }
+
+    // A running job deletes its own file once it has stopped
+    this.running.get(id)?.controller.abort();
+
+    clearTimeout(this.expiryTimers.get(id));
+    this.expiryTimers.delete(id);
+
+    return this.store.delete(id);
+  }
+
+  /**
+   * Cancels every queued and running job, as when the server shuts down, and resolves
+   * once all their files are deleted.
+   */
+  public async cancelAll(): Promise<void> {
+    const ids = [...this.queue.map((job) => job.id), ...this.running.keys()];
+    const finished = [...this.running.values()].map((job) => job.finished);
+
+    await Promise.all(ids.map((id) => this.cancel(id)));
+    await Promise.all(finished);
+  }
+
+  private startNext(): void {
+    while (this.running.size < this.concurrency && this.queue.length > 0) {
+      const job = this.queue.shift() as QueuedJob;
+      const controller = new AbortController();
+      const finished = this.run(job, controller.signal)
+        .catch((error: unknown) => {
+          // The store couldn't record the outcome, so it can only be logged
+          console.error(`Job ${job.id} could not be updated:`, error);
+        })
+        .finally(() => {
+          this.running.delete(job.id);
+          this.startNext();
+        });
+      this.running.set(job.id, { controller, finished });
+    }
+  }
+
+  private async run({ id, filePath, options }: QueuedJob, signal: AbortSignal): Promise<void> {
+    // Progress updates are chained so they reach the store in order, even after one fails
+    let updates = Promise.resolve();
+    const update = (changes: Partial<Omit<Job, 'id'>>) => {
+      const updated = updates.then(async () => {
+        await this.store.update(id, changes);
+      });
+      updates = updated.catch(() => undefined);
+      return updated;
+    };
+    // Stops the analysis when progress can't be recorded
+    const storeFailure = new AbortController();
+
+    let outcome: Partial<Omit<Job, 'id'>>;
+    try {
+      await update({ state: 'running' });
+
+      const { size } = await fs.promises.stat(filePath);
+      // The time limit starts when the job does, not when it is queued
+      const result = await withParseTimeout(options, this.parseTimeoutMs, async (timedOptions) => {
+        const readStream = fs.createReadStream(filePath);
+        const analysisStream = new Mp3AnalysisStream(timedOptions);
+        let bytesParsed = 0;
+        let progress = 0;
+
+        // Only whole percentage changes are recorded
+        readStream.on('data', (chunk: Buffer) => {
+          bytesParsed += chunk.length;
+          const percent = Math.floor((bytesParsed / size) * 100);
+          if (percent > progress) {
+            progress = percent;
+            update({ progress, bytesParsed }).catch((error: unknown) => storeFailure.abort(error));
+          }
+        });
+
+        await pipeline(readStream, analysisStream, {
+          signal: AbortSignal.any([signal, storeFailure.signal]),
+        });
+        return analysisStream.analysis;
+      });
+      outcome = { state: 'done', progress: 100, bytesParsed: size, result };
+    } catch (error) {
+      // The store's error says more than the abort it caused
+      outcome = this.failure(id, storeFailure.signal.aborted ? storeFailure.signal.reason : error);
+    }
+
+    // The file is gone by the time the job is reported finished
+    try {
+      await fs.promises.rm(filePath, { force: true });
+    } catch (error) {
+      outcome = this.failure(id, error);
+    }
+
+    if (!signal.aborted) {
+      await update(outcome);
+      this.expireLater(id);
+    }
+  }
+
+  // Only what an error response would say is recorded; unexpected errors are logged
+  private failure(id: string, error: unknown): Partial<Omit<Job, 'id'>> {
+    const { code, message } = toClientError(error);
+    if (code === 'INTERNAL') {
+      console.error(`Job ${id} failed:`, error);
+    }
+    return { state: 'failed', error: message, errorCode: code };
+  }
+
+  // Finished jobs are forgotten after a while so the store doesn't grow forever
+  private expireLater(id: string): void {
+    const timer = setTimeout(() => {
+      this.expiryTimers.delete(id);
+      void this.store.delete(id);
+    }, this.resultTtlMs);
+    timer.unref();
+    this.expiryTimers.set(id, timer);
+  }
+}
@@ -0,0 +1,46 @@
+import { Job } from '../types';
+
+/**
+ * Where job state is kept. The methods are async so that a persistent backend can
+ * implement the same interface.
+ */
+export interface JobStore {
+  create(job: Job): Promise<void>;
+  get(id: string): Promise<Job | undefined>;
+  // Applies the changes and returns the updated job, or undefined if it doesn't exist
+  update(id: string, changes: Partial<Omit<Job, 'id'>>): Promise<Job | undefined>;
+  // Returns whether the job existed
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Keeps jobs in memory. Jobs are lost when the process restarts.
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+
+  public create(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+    return Promise.resolve();
+  }
+
+  public get(id: string): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    return Promise.resolve(job && { ...job });
+  }
+
+  public update(id: string, changes: Partial<Omit<Job, 'id'>>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return Promise.resolve(undefined);
+    }
+
+    const updated = { ...job, ...changes };
+    this.jobs.set(id, updated);
+    return Promise.resolve({ ...updated });
+  }
+
+  public delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.jobs.delete(id));
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkReadiness } from '../readiness';
+
+describe('checkReadiness', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-ready-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should pass for a writable directory with enough space', async () => {
+    const readiness = await checkReadiness(dir, 0);
+
+    expect(readiness.ready).toBe(true);
+    expect(readiness.checks).toEqual([
+      { name: 'uploadsDirWritable', ok: true },
+      { name: 'diskSpace', ok: true },
+    ]);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('should fail when there is too little free space and log how much there is', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      const readiness = await checkReadiness(dir, Number.MAX_SAFE_INTEGER);
+
+      expect(readiness.ready).toBe(false);
+      expect(readiness.checks).toContainEqual({ name: 'diskSpace', ok: false });
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringMatching(/^Readiness check diskSpace failed: [\d.]+MB free in /)
+      );
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('should fail without saying why when the directory is missing', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const missing = path.join(dir, 'missing');
+
+    try {
+      const readiness = await checkReadiness(missing, 0);
+
+      expect(readiness).toEqual({
+        ready: false,
+        checks: [
+          { name: 'uploadsDirWritable', ok: false },
+          { name: 'diskSpace', ok: false },
+        ],
+      });
+      expect(consoleError).toHaveBeenCalledWith(
+        `Readiness check uploadsDirWritable failed: ${missing} is not writable:`,
+        expect.anything()
+      );
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
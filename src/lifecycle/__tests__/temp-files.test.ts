@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { removeTempFiles } from '../temp-files';
+
+describe('removeTempFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-temp-files-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should delete only the files with the prefix', async () => {
+    for (const name of ['abc-file-1.mp3', 'abc-files-2', 'xyz-file-3.mp3']) {
+      fs.writeFileSync(path.join(dir, name), '');
+    }
+
+    expect(await removeTempFiles(dir, 'abc-')).toBe(2);
+    expect(fs.readdirSync(dir)).toEqual(['xyz-file-3.mp3']);
+  });
+
+  it('should do nothing when the directory is missing', async () => {
+    expect(await removeTempFiles(path.join(dir, 'missing'), 'abc-')).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ReadinessCheck, ReadinessResponse } from '../types';
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+// Writes and deletes a small file, which also fails when the directory has gone
+const checkWritable = async (dir: string): Promise<ReadinessCheck> => {
+  const probePath = path.join(dir, `.ready-${randomUUID()}`);
+  try {
+    await fs.promises.writeFile(probePath, '');
+    await fs.promises.rm(probePath, { force: true });
+    return { name: 'uploadsDirWritable', ok: true };
+  } catch (error) {
+    console.error(`Readiness check uploadsDirWritable failed: ${dir} is not writable:`, error);
+    return { name: 'uploadsDirWritable', ok: false };
+  }
+};
+
+const checkFreeSpace = async (dir: string, minFreeBytes: number): Promise<ReadinessCheck> => {
+  try {
+    const { bavail, bsize } = await fs.promises.statfs(dir);
+    const freeBytes = bavail * bsize;
+    if (freeBytes < minFreeBytes) {
+      console.error(
+        `Readiness check diskSpace failed: ${formatMegabytes(freeBytes)} free in ${dir}, ` +
+          `${formatMegabytes(minFreeBytes)} needed`
+      );
+      return { name: 'diskSpace', ok: false };
+    }
+    return { name: 'diskSpace', ok: true };
+  } catch (error) {
+    console.error('Readiness check diskSpace failed: could not read the free space:', error);
+    return { name: 'diskSpace', ok: false };
+  }
+};
+
+/**
+ * Checks that the server can take uploads: the uploads directory must be writable and
+ * have at least `minFreeBytes` free. Only the names of the checks and whether they
+ * passed are returned, since /ready is public; why a check failed is logged.
+ */
+export const checkReadiness = async (
+  uploadsDir: string,
+  minFreeBytes: number
+): Promise<ReadinessResponse> => {
+  const checks = await Promise.all([
+    checkWritable(uploadsDir),
+    checkFreeSpace(uploadsDir, minFreeBytes),
+  ]);
+  return { ready: checks.every((check) => check.ok), checks };
+};
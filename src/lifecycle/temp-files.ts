@@ -0,0 +1,22 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Deletes the files in `dir` whose names start with `prefix`, and returns how many there
+ * were. An app names its uploads with its own prefix, so at shutdown it can find the
+ * files of requests that were cut short without touching those of other servers sharing
+ * the directory.
+ */
+export const removeTempFiles = async (dir: string, prefix: string): Promise<number> => {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch {
+    // Nothing to clean up
+    return 0;
+  }
+
+  const tempFiles = names.filter((name) => name.startsWith(prefix));
+  await Promise.all(tempFiles.map((name) => fs.promises.rm(path.join(dir, name), { force: true })));
+  return tempFiles.length;
+};
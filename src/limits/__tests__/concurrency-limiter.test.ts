@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConcurrencyLimiter } from '../concurrency-limiter';
+import { ServerBusyError } from '../../types';
+
+describe('ConcurrencyLimiter', () => {
+  it('should hand out slots up to the limit', async () => {
+    const limiter = new ConcurrencyLimiter(2, 0, 5);
+
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(limiter.active).toBe(2);
+  });
+
+  it('should queue tasks over the limit and pass freed slots on in order', async () => {
+    const limiter = new ConcurrencyLimiter(1, 2, 5);
+    const order: string[] = [];
+
+    const release = await limiter.acquire();
+    const second = limiter.acquire().then((next) => {
+      order.push('second');
+      return next;
+    });
+    const third = limiter.acquire().then(() => order.push('third'));
+    expect(limiter.queued).toBe(2);
+
+    release();
+    (await second)();
+    await third;
+
+    expect(order).toEqual(['second', 'third']);
+    expect(limiter.active).toBe(1);
+    expect(limiter.queued).toBe(0);
+  });
+
+  it('should turn tasks away once the queue is full', async () => {
+    const limiter = new ConcurrencyLimiter(1, 1, 7);
+    await limiter.acquire();
+    void limiter.acquire();
+
+    const error = await limiter.acquire().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ServerBusyError);
+    expect(error).toMatchObject({ code: 'SERVER_BUSY', details: { retryAfterSeconds: 7 } });
+  });
+
+  it('should free the slot when released, but only once', async () => {
+    const limiter = new ConcurrencyLimiter(2, 0, 5);
+    const release = await limiter.acquire();
+    await limiter.acquire();
+
+    release();
+    release();
+
+    expect(limiter.active).toBe(1);
+  });
+
+  it('should take aborted tasks out of the queue', async () => {
+    const limiter = new ConcurrencyLimiter(1, 1, 5);
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+    const reason = new Error('Client disconnected');
+
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort(reason);
+
+    await expect(waiting).rejects.toBe(reason);
+    expect(limiter.queued).toBe(0);
+
+    release();
+    expect(limiter.active).toBe(0);
+  });
+});
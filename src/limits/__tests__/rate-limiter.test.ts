@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { TokenBucketRateLimiter } from '../rate-limiter';
+import { createClock } from '../../__tests__/helpers/fixtures';
+
+describe('TokenBucketRateLimiter', () => {
+  it('should allow a burst and then refuse with the time until the next token', () => {
+    const limiter = new TokenBucketRateLimiter(
+      { requestsPerMinute: 60, burst: 3, maxClients: 10 },
+      createClock()
+    );
+
+    expect(limiter.take('a')).toEqual({ allowed: true });
+    expect(limiter.take('a')).toEqual({ allowed: true });
+    expect(limiter.take('a')).toEqual({ allowed: true });
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 1000 });
+  });
+
+  it('should refill tokens as time passes, up to the burst size', () => {
+    const clock = createClock();
+    const limiter = new TokenBucketRateLimiter(
+      { requestsPerMinute: 60, burst: 2, maxClients: 10 },
+      clock
+    );
+    limiter.take('a');
+    limiter.take('a');
+
+    clock.advance(500);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 500 });
+
+    clock.advance(500);
+    expect(limiter.take('a')).toEqual({ allowed: true });
+
+    clock.advance(60_000);
+    expect(limiter.take('a')).toEqual({ allowed: true });
+    expect(limiter.take('a')).toEqual({ allowed: true });
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('should keep a separate bucket for each client', () => {
+    const limiter = new TokenBucketRateLimiter(
+      { requestsPerMinute: 60, burst: 1, maxClients: 10 },
+      createClock()
+    );
+
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+
+  it('should forget the longest idle clients', () => {
+    const limiter = new TokenBucketRateLimiter(
+      { requestsPerMinute: 60, burst: 1, maxClients: 2 },
+      createClock()
+    );
+    limiter.take('a');
+    limiter.take('b');
+    limiter.take('a');
+    limiter.take('c');
+
+    // a was used more recently than b, so only b was forgotten and has a full bucket
+    expect(limiter.take('a').allowed).toBe(false);
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+});
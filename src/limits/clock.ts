@@ -0,0 +1,11 @@
+/**
+ * Source of the current time in milliseconds, so that code which measures time can be
+ * tested without waiting.
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
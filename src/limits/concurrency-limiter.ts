@@ -0,0 +1,86 @@
+import { ServerBusyError } from '../types';
+
+// Releases a slot taken with `acquire`; calling it more than once has no effect
+export type Release = () => void;
+
+interface Waiter {
+  resolve: (release: Release) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Lets a fixed number of tasks run at once. Further tasks wait their turn in a queue of
+ * limited length, and are turned away with a ServerBusyError once it is full.
+ */
+export class ConcurrencyLimiter {
+  private maxActive: number;
+  private maxQueued: number;
+  private retryAfterSeconds: number;
+  private activeCount = 0;
+  private waiters: Waiter[] = [];
+
+  constructor(maxActive: number, maxQueued: number, retryAfterSeconds: number) {
+    this.maxActive = maxActive;
+    this.maxQueued = maxQueued;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  public get active(): number {
+    return this.activeCount;
+  }
+
+  public get queued(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Resolves with a release function once a slot is free. A task still waiting when
+   * `signal` is aborted leaves the queue, and the promise rejects with the abort reason.
+   */
+  public acquire(signal?: AbortSignal): Promise<Release> {
+    if (this.activeCount < this.maxActive) {
+      this.activeCount++;
+      return Promise.resolve(this.createRelease());
+    }
+    if (this.waiters.length >= this.maxQueued) {
+      return Promise.reject(
+        new ServerBusyError('Too many files are being analysed, try again later', {
+          retryAfterSeconds: this.retryAfterSeconds,
+        })
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve: (release) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+        reject,
+      };
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((queued) => queued !== waiter);
+        reject(signal?.reason as Error);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  private createRelease(): Release {
+    let isReleased = false;
+    return () => {
+      if (isReleased) return;
+      isReleased = true;
+
+      // The slot passes straight to the next task in the queue
+      const next = this.waiters.shift();
+      if (next) {
+        next.resolve(this.createRelease());
+      } else {
+        this.activeCount--;
+      }
+    };
+  }
+}
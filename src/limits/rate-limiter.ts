@@ -0,0 +1,65 @@
+import { Clock, systemClock } from './clock';
+
+export interface RateLimitOptions {
+  // Requests each client may make per minute on average
+  requestsPerMinute: number;
+  // Requests a client may make back to back after being idle
+  burst: number;
+  // Clients remembered at once; the longest idle are forgotten first
+  maxClients: number;
+}
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket rate limiter with a bucket for each client. A bucket holds up to `burst`
+ * tokens, refills at `requestsPerMinute`, and each request takes one token.
+ */
+export class TokenBucketRateLimiter {
+  private options: RateLimitOptions;
+  private clock: Clock;
+  // Kept in order of last use, so the first entry is the longest idle
+  private buckets = new Map<string, Bucket>();
+
+  constructor(options: RateLimitOptions, clock: Clock = systemClock) {
+    this.options = options;
+    this.clock = clock;
+  }
+
+  /**
+   * Takes a token from the client's bucket, or says how long until one is available.
+   */
+  public take(clientKey: string): RateLimitResult {
+    const now = this.clock.now();
+    const tokensPerMs = this.options.requestsPerMinute / 60_000;
+    const bucket = this.buckets.get(clientKey) ?? { tokens: this.options.burst, updatedAt: now };
+
+    bucket.tokens = Math.min(
+      this.options.burst,
+      bucket.tokens + (now - bucket.updatedAt) * tokensPerMs
+    );
+    bucket.updatedAt = now;
+
+    this.buckets.delete(clientKey);
+    this.buckets.set(clientKey, bucket);
+    this.forgetIdleClients();
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true };
+    }
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / tokensPerMs) };
+  }
+
+  private forgetIdleClients(): void {
+    for (const key of this.buckets.keys()) {
+      if (this.buckets.size <= this.options.maxClients) break;
+      this.buckets.delete(key);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import multer from 'multer';
+import { AppMetrics, getDirectorySize, getErrorType } from '../metrics';
+import { ConcurrencyLimiter } from '../../limits/concurrency-limiter';
+import { analyzeBuffer } from '../../core/mp3-analyzer';
+import { InvalidRequestError, Mp3ParserError, NoFramesError } from '../../types';
+import { createFrames } from '../../__tests__/helpers/fixtures';
+
+describe('metrics', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('getDirectorySize', () => {
+    it('should add up the files below the directory', async () => {
+      fs.writeFileSync(path.join(dir, 'a'), Buffer.alloc(100));
+      fs.mkdirSync(path.join(dir, 'sub'));
+      fs.writeFileSync(path.join(dir, 'sub', 'b'), Buffer.alloc(50));
+
+      expect(await getDirectorySize(dir)).toBe(150);
+    });
+
+    it('should return 0 for a directory that does not exist', async () => {
+      expect(await getDirectorySize(path.join(dir, 'missing'))).toBe(0);
+    });
+  });
+
+  describe('getErrorType', () => {
+    it('should tell parser, upload and internal errors apart', () => {
+      expect(getErrorType(new NoFramesError())).toBe('NoFramesError');
+      expect(getErrorType(new InvalidRequestError('Bad'))).toBe('InvalidRequestError');
+      expect(getErrorType(new multer.MulterError('LIMIT_FILE_SIZE'))).toBe('MulterError');
+      expect(getErrorType(new Mp3ParserError('Unexpected'))).toBe('internal');
+      expect(getErrorType(new Error('ENOENT'))).toBe('internal');
+    });
+  });
+
+  describe('AppMetrics', () => {
+    it('should record parse time and frames through the parser options', async () => {
+      const metrics = new AppMetrics(dir);
+      const frames = createFrames(3);
+
+      analyzeBuffer(frames, metrics.withParseMetrics({}));
+      const text = await metrics.registry.render();
+
+      expect(text).toContain('\nmp3_frames_parsed_total 3\n');
+      expect(text).toContain('\nmp3_parse_duration_seconds_count 1\n');
+    });
+
+    it('should report the uploads directory and admission slots', async () => {
+      const metrics = new AppMetrics(dir);
+      const concurrency = new ConcurrencyLimiter(1, 1, 5);
+      fs.writeFileSync(path.join(dir, 'upload'), Buffer.alloc(1234));
+
+      metrics.watchAdmission(concurrency);
+      await concurrency.acquire();
+      void concurrency.acquire();
+      const text = await metrics.registry.render();
+
+      expect(text).toContain('\nmp3_uploads_dir_bytes 1234\n');
+      expect(text).toContain('\nmp3_analyses_in_flight 1\n');
+      expect(text).toContain('\nmp3_analyses_queued 1\n');
+    });
+
+    it('should count errors by type and code', async () => {
+      const metrics = new AppMetrics(dir);
+
+      metrics.recordError(new NoFramesError(), 'NO_FRAMES');
+      metrics.recordError(new NoFramesError(), 'NO_FRAMES');
+
+      expect(await metrics.registry.render()).toContain(
+        'mp3_request_errors_total{type="NoFramesError",code="NO_FRAMES"} 2'
+      );
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import { Registry } from '../registry';
+
+describe('Registry', () => {
+  it('should render counters by label values', async () => {
+    const registry = new Registry();
+    const counter = registry.counter('requests_total', 'Requests served', ['route', 'status']);
+
+    counter.inc({ route: '/a', status: '200' });
+    counter.inc({ status: '200', route: '/a' });
+    counter.inc({ route: '/b', status: '404' }, 3);
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP requests_total Requests served',
+        '# TYPE requests_total counter',
+        'requests_total{route="/a",status="200"} 2',
+        'requests_total{route="/b",status="404"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should render histograms with cumulative buckets', async () => {
+    const registry = new Registry();
+    const histogram = registry.histogram('size_bytes', 'Sizes', [10, 100]);
+
+    histogram.observe(5);
+    histogram.observe(10);
+    histogram.observe(50);
+    histogram.observe(500);
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP size_bytes Sizes',
+        '# TYPE size_bytes histogram',
+        'size_bytes_bucket{le="10"} 2',
+        'size_bytes_bucket{le="100"} 3',
+        'size_bytes_bucket{le="+Inf"} 4',
+        'size_bytes_sum 565',
+        'size_bytes_count 4',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should read gauges when rendering', async () => {
+    const registry = new Registry();
+    let value = 1;
+    registry.gauge('queued', 'Queued', () => Promise.resolve(value));
+
+    value = 7;
+
+    expect(await registry.render()).toContain('\nqueued 7\n');
+  });
+
+  it('should escape label values', async () => {
+    const registry = new Registry();
+    registry.counter('errors_total', 'Errors', ['type']).inc({ type: 'a "b"\\\nc' });
+
+    expect(await registry.render()).toContain('errors_total{type="a \\"b\\"\\\\\\nc"} 1');
+  });
+});
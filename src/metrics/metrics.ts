@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import multer from 'multer';
+import { ConcurrencyLimiter } from '../limits/concurrency-limiter';
+import { ErrorCode, Mp3ParserError, ParserOptions } from '../types';
+import { Counter, Histogram, Registry } from './registry';
+
+// 64KB to 1GB, four times larger each step
+const UPLOAD_SIZE_BUCKETS = [16, 18, 20, 22, 24, 26, 28, 30].map((power) => 2 ** power);
+
+const PARSE_DURATION_BUCKETS = [0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Total size of the files in a directory and the directories below it. Files deleted
+ * while it is being measured are skipped.
+ */
+export const getDirectorySize = async (dir: string): Promise<number> => {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  const sizes = await Promise.all(
+    entries.map(async (entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return getDirectorySize(entryPath);
+      }
+      try {
+        return (await fs.promises.stat(entryPath)).size;
+      } catch {
+        return 0;
+      }
+    })
+  );
+  return sizes.reduce((total, size) => total + size, 0);
+};
+
+/**
+ * Names the kind of error behind an error response: the parser error class for known
+ * parser and request errors, MulterError for upload problems, and internal otherwise.
+ */
+export const getErrorType = (error: unknown): string => {
+  if (error instanceof multer.MulterError) {
+    return 'MulterError';
+  }
+  if (error instanceof Mp3ParserError && error.code !== 'INTERNAL') {
+    return error.constructor.name;
+  }
+  return 'internal';
+};
+
+/**
+ * The service's metrics, collected in-process and served at /metrics.
+ */
+export class AppMetrics {
+  public readonly registry = new Registry();
+  private requests: Counter;
+  private uploadSize: Histogram;
+  private parseDuration: Histogram;
+  private framesParsed: Counter;
+  private errors: Counter;
+
+  constructor(uploadsDir: string) {
+    this.requests = this.registry.counter(
+      'http_requests_total',
+      'HTTP requests by method, route and status code',
+      ['method', 'route', 'status']
+    );
+    this.uploadSize = this.registry.histogram(
+      'mp3_upload_size_bytes',
+      'Size of uploaded files and request bodies',
+      UPLOAD_SIZE_BUCKETS
+    );
+    this.parseDuration = this.registry.histogram(
+      'mp3_parse_duration_seconds',
+      'Time spent parsing each file, not counting time spent waiting for data',
+      PARSE_DURATION_BUCKETS
+    );
+    this.framesParsed = this.registry.counter('mp3_frames_parsed_total', 'Audio frames parsed');
+    this.errors = this.registry.counter(
+      'mp3_request_errors_total',
+      'Error responses by error type and code',
+      ['type', 'code']
+    );
+    this.registry.gauge('mp3_uploads_dir_bytes', 'Size of the files in the uploads directory', () =>
+      getDirectorySize(uploadsDir)
+    );
+  }
+
+  public recordRequest(method: string, route: string, status: number): void {
+    this.requests.inc({ method, route, status: String(status) });
+  }
+
+  public recordUpload(size: number): void {
+    this.uploadSize.observe(size);
+  }
+
+  public recordError(error: unknown, code: ErrorCode): void {
+    this.errors.inc({ type: getErrorType(error), code });
+  }
+
+  /**
+   * Adds a callback to the options that records the parse time and frames of each file
+   * parsed with them.
+   */
+  public withParseMetrics(options: ParserOptions): ParserOptions {
+    const { onParsed } = options;
+    return {
+      ...options,
+      onParsed: (stats) => {
+        onParsed?.(stats);
+        this.parseDuration.observe(stats.parseTimeMs / 1000);
+        this.framesParsed.inc({}, stats.frameCount);
+      },
+    };
+  }
+
+  /**
+   * Reports the analyses holding or waiting for one of the limiter's slots.
+   */
+  public watchAdmission(concurrency: ConcurrencyLimiter): void {
+    this.registry.gauge(
+      'mp3_analyses_in_flight',
+      'Uploads being received or analysed',
+      () => concurrency.active
+    );
+    this.registry.gauge(
+      'mp3_analyses_queued',
+      'Uploads waiting for an analysis slot',
+      () => concurrency.queued
+    );
+  }
+}
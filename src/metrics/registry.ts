@@ -0,0 +1,212 @@
+/**
+ * A small in-process metrics registry that renders the Prometheus text exposition
+ * format, so the service can be scraped without an agent or client library.
+ */
+
+type Labels = Record<string, string>;
+
+// Reads a value when the metrics are rendered, such as the size of a directory
+export type Collect = () => number | Promise<number>;
+
+interface Metric {
+  render(): Promise<string[]>;
+}
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const escapeHelp = (help: string): string => help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatNumber = (value: number): string => {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+};
+
+const header = (name: string, help: string, type: string): string[] => [
+  `# HELP ${name} ${escapeHelp(help)}`,
+  `# TYPE ${name} ${type}`,
+];
+
+/**
+ * Values kept for each combination of label values. The label names are fixed when the
+ * metric is created, and every observation must give a value for each of them.
+ */
+class LabelledValues<T> {
+  private labelNames: readonly string[];
+  private create: () => T;
+  private values = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(labelNames: readonly string[], create: () => T) {
+    this.labelNames = labelNames;
+    this.create = create;
+  }
+
+  public get(labels: Labels): T {
+    const ordered: Labels = {};
+    for (const name of this.labelNames) {
+      ordered[name] = labels[name] ?? '';
+    }
+
+    const key = JSON.stringify(ordered);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: this.create() };
+      this.values.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  public entries(): { labels: Labels; value: T }[] {
+    return [...this.values.values()];
+  }
+}
+
+/**
+ * A count that only goes up, such as requests served.
+ */
+export class Counter implements Metric {
+  private name: string;
+  private help: string;
+  private values: LabelledValues<{ count: number }>;
+
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.values = new LabelledValues(labelNames, () => ({ count: 0 }));
+  }
+
+  public inc(labels: Labels = {}, amount = 1): void {
+    this.values.get(labels).count += amount;
+  }
+
+  public render(): Promise<string[]> {
+    return Promise.resolve([
+      ...header(this.name, this.help, 'counter'),
+      ...this.values
+        .entries()
+        .map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value.count}`),
+    ]);
+  }
+}
+
+/**
+ * A value that goes up and down, read when the metrics are rendered.
+ */
+export class Gauge implements Metric {
+  private name: string;
+  private help: string;
+  private collect: Collect;
+
+  constructor(name: string, help: string, collect: Collect) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+  }
+
+  public async render(): Promise<string[]> {
+    const value = await this.collect();
+    return [...header(this.name, this.help, 'gauge'), `${this.name} ${formatNumber(value)}`];
+  }
+}
+
+interface HistogramValues {
+  // Observations in each bucket, not cumulative; the last is for values above every bound
+  counts: number[];
+  sum: number;
+}
+
+/**
+ * Counts observations, such as durations or sizes, in buckets with the given upper
+ * bounds.
+ */
+export class Histogram implements Metric {
+  private name: string;
+  private help: string;
+  private buckets: readonly number[];
+  private values: LabelledValues<HistogramValues>;
+
+  constructor(
+    name: string,
+    help: string,
+    buckets: readonly number[],
+    labelNames: readonly string[] = []
+  ) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+    this.values = new LabelledValues(labelNames, () => ({
+      counts: new Array<number>(buckets.length + 1).fill(0),
+      sum: 0,
+    }));
+  }
+
+  public observe(value: number, labels: Labels = {}): void {
+    const values = this.values.get(labels);
+    const found = this.buckets.findIndex((bound) => value <= bound);
+    const index = found === -1 ? this.buckets.length : found;
+    values.counts[index] = (values.counts[index] ?? 0) + 1;
+    values.sum += value;
+  }
+
+  public render(): Promise<string[]> {
+    const lines = header(this.name, this.help, 'histogram');
+
+    for (const { labels, value } of this.values.entries()) {
+      let cumulative = 0;
+      [...this.buckets, Infinity].forEach((bound, index) => {
+        cumulative += value.counts[index] ?? 0;
+        const bucketLabels = formatLabels({ ...labels, le: formatNumber(bound) });
+        lines.push(`${this.name}_bucket${bucketLabels} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${cumulative}`);
+    }
+    return Promise.resolve(lines);
+  }
+}
+
+/**
+ * Holds the metrics of a process and renders them together. A metric registered under
+ * a name already in use replaces the earlier one.
+ */
+export class Registry {
+  private metrics = new Map<string, Metric>();
+
+  public counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(name, new Counter(name, help, labelNames));
+  }
+
+  public gauge(name: string, help: string, collect: Collect): Gauge {
+    return this.register(name, new Gauge(name, help, collect));
+  }
+
+  public histogram(
+    name: string,
+    help: string,
+    buckets: readonly number[],
+    labelNames: readonly string[] = []
+  ): Histogram {
+    return this.register(name, new Histogram(name, help, buckets, labelNames));
+  }
+
+  /**
+   * The metrics in the Prometheus text format, in the order they were registered.
+   */
+  public async render(): Promise<string> {
+    const sections = await Promise.all([...this.metrics.values()].map((metric) => metric.render()));
+    return `${sections.flat().join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(name: string, metric: T): T {
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
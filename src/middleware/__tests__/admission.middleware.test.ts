@@ -0,0 +1,100 @@
+import { describe, it, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import * as os from 'os';
+import { createAdmissionControl } from '../admission.middleware';
+import { createErrorHandler } from '../error.middleware';
+import { requestId } from '../request-id.middleware';
+import { ConcurrencyLimiter } from '../../limits/concurrency-limiter';
+import { TokenBucketRateLimiter } from '../../limits/rate-limiter';
+import { AppMetrics } from '../../metrics/metrics';
+
+const createApp = (
+  concurrency: ConcurrencyLimiter,
+  rateLimiter: TokenBucketRateLimiter | null = null,
+  apiKeys: ReadonlySet<string> = new Set()
+) => {
+  const app = express();
+  app.use(requestId);
+  app.post('/', createAdmissionControl({ concurrency, rateLimiter, apiKeys }), (req, res) => {
+    res.json({ active: concurrency.active });
+  });
+  app.use(createErrorHandler(new AppMetrics(os.tmpdir())));
+  return app;
+};
+
+describe('createAdmissionControl', () => {
+  it('should hold a slot while the request is handled and free it afterwards', async () => {
+    const concurrency = new ConcurrencyLimiter(1, 0, 5);
+
+    const response = await request(createApp(concurrency)).post('/');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ active: 1 });
+    expect(concurrency.active).toBe(0);
+  });
+
+  it('should answer 503 with Retry-After when the queue is full', async () => {
+    const concurrency = new ConcurrencyLimiter(1, 0, 5);
+    const release = await concurrency.acquire();
+
+    const response = await request(createApp(concurrency)).post('/');
+    release();
+
+    expect(response.status).toBe(503);
+    expect(response.headers['retry-after']).toBe('5');
+    expect(response.body).toMatchObject({
+      code: 'SERVER_BUSY',
+      details: { retryAfterSeconds: 5 },
+    });
+  });
+
+  it('should let a queued request through once a slot is free', async () => {
+    const concurrency = new ConcurrencyLimiter(1, 1, 5);
+    const release = await concurrency.acquire();
+
+    const pending = request(createApp(concurrency)).post('/');
+    setTimeout(release, 50);
+
+    expect((await pending).status).toBe(200);
+  });
+
+  it('should answer 429 with Retry-After once a client is over its rate limit', async () => {
+    const rateLimiter = new TokenBucketRateLimiter(
+      { requestsPerMinute: 6, burst: 1, maxClients: 10 },
+      { now: () => 0 }
+    );
+    const app = createApp(new ConcurrencyLimiter(1, 0, 5), rateLimiter);
+
+    expect((await request(app).post('/')).status).toBe(200);
+    const response = await request(app).post('/');
+
+    expect(response.status).toBe(429);
+    expect(response.headers['retry-after']).toBe('10');
+    expect(response.body).toMatchObject({ code: 'RATE_LIMITED' });
+  });
+
+  it('should rate limit each API key separately', async () => {
+    const rateLimiter = new TokenBucketRateLimiter(
+      { requestsPerMinute: 6, burst: 1, maxClients: 10 },
+      { now: () => 0 }
+    );
+    const app = createApp(new ConcurrencyLimiter(1, 0, 5), rateLimiter, new Set(['one', 'two']));
+
+    expect((await request(app).post('/').set('X-API-Key', 'one')).status).toBe(200);
+    expect((await request(app).post('/').set('X-API-Key', 'two')).status).toBe(200);
+    expect((await request(app).post('/').set('X-API-Key', 'one')).status).toBe(429);
+  });
+
+  it('should rate limit unknown API keys by IP address', async () => {
+    const rateLimiter = new TokenBucketRateLimiter(
+      { requestsPerMinute: 6, burst: 1, maxClients: 10 },
+      { now: () => 0 }
+    );
+    const app = createApp(new ConcurrencyLimiter(1, 0, 5), rateLimiter, new Set(['one']));
+
+    expect((await request(app).post('/').set('X-API-Key', 'made-up-1')).status).toBe(200);
+    expect((await request(app).post('/').set('X-API-Key', 'made-up-2')).status).toBe(429);
+    expect((await request(app).post('/').set('X-API-Key', 'one')).status).toBe(200);
+  });
+});
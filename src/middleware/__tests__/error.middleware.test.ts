@@ -0,0 +1,92 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import multer from 'multer';
+import * as os from 'os';
+import { createErrorHandler } from '../error.middleware';
+import { requestId } from '../request-id.middleware';
+import { AppMetrics } from '../../metrics/metrics';
+import { CorruptedMp3Error, InvalidRequestError, Mp3ParserError } from '../../types';
+import { errorBody } from '../../__tests__/helpers/responses';
+
+const createApp = (error: Error) => {
+  const app = express();
+  app.use(requestId);
+  app.get('/', () => {
+    throw error;
+  });
+  app.use(createErrorHandler(new AppMetrics(os.tmpdir())));
+  return app;
+};
+
+describe('createErrorHandler', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the code, details and request ID of parser errors', async () => {
+    const response = await request(
+      createApp(new CorruptedMp3Error('1 of 1 protected frames failed', { offset: 417 }))
+    ).get('/');
+
+    expect(response.status).toBe(422);
+    expect(response.body).toEqual({
+      error: '1 of 1 protected frames failed',
+      code: 'CORRUPTED_FRAMES',
+      requestId: response.headers['x-request-id'],
+      details: { offset: 417 },
+    });
+  });
+
+  it('should keep a request ID sent by the client', async () => {
+    const response = await request(createApp(new InvalidRequestError('Bad')))
+      .get('/')
+      .set('X-Request-Id', 'abc-123');
+
+    expect(response.status).toBe(400);
+    expect(response.headers['x-request-id']).toBe('abc-123');
+    expect(response.body).toMatchObject({ code: 'INVALID_REQUEST', requestId: 'abc-123' });
+  });
+
+  it('should replace a request ID that is not plain text', async () => {
+    const response = await request(createApp(new InvalidRequestError('Bad')))
+      .get('/')
+      .set('X-Request-Id', 'a b');
+
+    expect(errorBody(response).requestId).not.toBe('a b');
+    expect(errorBody(response).requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should map multer size errors to 413', async () => {
+    const response = await request(createApp(new multer.MulterError('LIMIT_FILE_SIZE'))).get('/');
+
+    expect(response.status).toBe(413);
+    expect(response.body).toMatchObject({ error: 'File is too large', code: 'FILE_TOO_LARGE' });
+  });
+
+  it('should log unexpected errors without sending their message', async () => {
+    const log = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const error = new Error("ENOENT: no such file or directory, open '/srv/uploads/file'");
+
+    const response = await request(createApp(error)).get('/');
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({
+      error: 'Internal server error',
+      code: 'INTERNAL',
+      requestId: response.headers['x-request-id'],
+    });
+    expect(log).toHaveBeenCalledWith(`Request ${errorBody(response).requestId} failed:`, error);
+  });
+
+  it('should treat parser errors without a code of their own as internal', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = await request(createApp(new Mp3ParserError('Analysis is not finished'))).get(
+      '/'
+    );
+
+    expect(response.status).toBe(500);
+    expect(errorBody(response).error).toBe('Internal server error');
+  });
+});
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ConcurrencyLimiter } from '../limits/concurrency-limiter';
+import { TokenBucketRateLimiter } from '../limits/rate-limiter';
+import { RateLimitError } from '../types';
+
+export interface AdmissionLimits {
+  concurrency: ConcurrencyLimiter;
+  // No rate limiting when null
+  rateLimiter: TokenBucketRateLimiter | null;
+  // API keys that are rate limited on their own
+  apiKeys?: ReadonlySet<string>;
+}
+
+/**
+ * Tells clients apart for rate limiting: by the X-API-Key header when it is one of the
+ * known keys, and otherwise by IP address. Keys are only believed when they are known,
+ * so a client can't get a fresh limit by sending a new key with each request.
+ */
+export const getClientKey = (req: Request, apiKeys: ReadonlySet<string>): string => {
+  const apiKey = req.get('x-api-key');
+  return apiKey && apiKeys.has(apiKey) ? `key:${apiKey}` : `ip:${req.ip ?? 'unknown'}`;
+};
+
+/**
+ * Admission control for the routes that take uploads. Clients over their rate limit get
+ * a 429. Everyone else waits for one of the limited analysis slots before the upload is
+ * read, and gets a 503 if too many are already waiting. Both responses say when to try
+ * again in a Retry-After header. The slot is held until the response has finished.
+ */
+export const createAdmissionControl =
+  ({ concurrency, rateLimiter, apiKeys = new Set() }: AdmissionLimits): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const rate = rateLimiter?.take(getClientKey(req, apiKeys));
+    if (rate && !rate.allowed) {
+      next(
+        new RateLimitError('Too many requests, slow down', {
+          retryAfterSeconds: Math.ceil(rate.retryAfterMs / 1000),
+        })
+      );
+      return;
+    }
+
+    // A client that goes away while waiting gives up its place in the queue
+    const controller = new AbortController();
+    const onClose = () => controller.abort(new Error('Client disconnected'));
+    res.once('close', onClose);
+
+    concurrency.acquire(controller.signal).then(
+      (release) => {
+        res.off('close', onClose);
+        if (controller.signal.aborted) {
+          release();
+          return;
+        }
+        res.once('close', release);
+        next();
+      },
+      (error: Error) => {
+        res.off('close', onClose);
+        if (!controller.signal.aborted) {
+          next(error);
+        }
+      }
+    );
+  };
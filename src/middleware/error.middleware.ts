@@ -1,31 +1,61 @@
-import { Request, Response, NextFunction } from 'express';
+import { ErrorRequestHandler, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
-import { Mp3ParserError, ErrorResponse } from '../types';
+import { ErrorCode, ErrorResponse, toClientError } from '../types';
+import { getRequestId } from './request-id.middleware';
+import { AppMetrics } from '../metrics/metrics';
 
-export const errorHandler = (
-  err: Error,
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void => {
+const STATUS_CODES: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  NO_FILE: 400,
+  NOT_FOUND: 404,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FORMAT: 415,
+  INVALID_MP3: 422,
+  NO_FRAMES: 422,
+  TRUNCATED_FRAME: 422,
+  CORRUPTED_FRAMES: 422,
+  INVALID_ARCHIVE: 422,
+  INVALID_RANGE: 422,
+  PARSE_TIMEOUT: 503,
+  RATE_LIMITED: 429,
+  SERVER_BUSY: 503,
+  INTERNAL: 500,
+};
+
+const toErrorResponse = (err: Error, requestId: string): ErrorResponse => {
   if (err instanceof multer.MulterError) {
-    if (err.code === 'LIMIT_FILE_SIZE') {
-      res.status(400).json({ error: 'File is too large' } as ErrorResponse);
-      return;
-    }
-    res.status(400).json({ error: err.message } as ErrorResponse);
-    return;
+    return err.code === 'LIMIT_FILE_SIZE'
+      ? { error: 'File is too large', code: 'FILE_TOO_LARGE', requestId }
+      : { error: err.message, code: 'INVALID_REQUEST', requestId };
   }
 
-  if (err instanceof Mp3ParserError) {
-    res.status(400).json({ error: err.message } as ErrorResponse);
-    return;
-  }
+  const { code, message, details } = toClientError(err);
+  return { error: message, code, requestId, ...(details && { details }) };
+};
 
-  if (err) {
-    res.status(400).json({ error: err.message } as ErrorResponse);
-    return;
-  }
+/**
+ * Builds the handler that sends every error as an `ErrorResponse` with the status for
+ * its code, counting it in `appMetrics`. Errors the application doesn't expect are
+ * logged with the request ID, and the client is only told that something went wrong.
+ */
+export const createErrorHandler =
+  (appMetrics: AppMetrics): ErrorRequestHandler =>
+  (
+    err: Error,
+    req: Request,
+    res: Response,
+    // Express recognises error handlers by their four parameters
+    _next: NextFunction
+  ): void => {
+    const requestId = getRequestId(req, res);
+    const body = toErrorResponse(err, requestId);
+    appMetrics.recordError(err, body.code);
 
-  next();
-};
+    if (body.code === 'INTERNAL') {
+      console.error(`Request ${requestId} failed:`, err);
+    }
+    if (body.details?.retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', String(body.details.retryAfterSeconds));
+    }
+    res.status(STATUS_CODES[body.code]).json(body);
+  };
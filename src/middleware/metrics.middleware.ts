@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AppMetrics } from '../metrics/metrics';
+
+const getUploadedFiles = (req: Request): Express.Multer.File[] => {
+  if (req.file) {
+    return [req.file];
+  }
+  return Array.isArray(req.files) ? req.files : Object.values(req.files ?? {}).flat();
+};
+
+/**
+ * Counts each response by method, route and status once it has been sent, and records
+ * the size of the files uploaded with it. Requests that matched no route are counted
+ * under "unmatched", so unknown paths don't each get their own series.
+ */
+export const createRequestMetrics =
+  (appMetrics: AppMetrics): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    res.once('finish', () => {
+      const route = (req.route as { path?: unknown } | undefined)?.path;
+      appMetrics.recordRequest(
+        req.method,
+        typeof route === 'string' ? route : 'unmatched',
+        res.statusCode
+      );
+
+      for (const file of getUploadedFiles(req)) {
+        appMetrics.recordUpload(file.size);
+      }
+    });
+    next();
+  };
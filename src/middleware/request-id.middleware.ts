@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+// Request IDs passed in by a proxy are kept if they are short and plain
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Returns the request's ID, assigning one the first time it is asked for. The ID in an
+ * incoming X-Request-Id header is used when there is one, and is echoed back in the
+ * response so a client can quote it.
+ */
+export const getRequestId = (req: Request, res: Response): string => {
+  if (!req.requestId) {
+    const header = req.get('x-request-id');
+    req.requestId = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+    res.setHeader('X-Request-Id', req.requestId);
+  }
+  return req.requestId;
+};
+
+export const requestId = (req: Request, res: Response, next: NextFunction): void => {
+  getRequestId(req, res);
+  next();
+};
@@ -1,35 +1,283 @@
+import { Request } from 'express';
 import multer from 'multer';
 import * as path from 'path';
 import * as fs from 'fs';
-import { UPLOAD_CONFIG } from '../config/constants';
+import { createHash } from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { BATCH_CONFIG } from '../config/constants';
+import { RouteLimits } from '../config/config';
+import { Mp3AnalysisStream } from '../core/mp3-analysis-stream';
+import { withParseTimeout } from '../core/parse-timeout';
+import { detectArchive } from '../core/archive';
+import { SNIFF_SIZE, describeFormat, sniffFormat } from '../core/format-sniffer';
+import { ParserOptions, UnsupportedFormatError, UploadStorage } from '../types';
 
-// Create uploads directory if it doesn't exist
-const uploadsDir = path.join(process.cwd(), 'uploads');
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
+export interface UploadSettings {
+  uploadsDir: string;
+  // MIME types that let an upload through when its content isn't recognised
+  allowedMimetypes: string[];
+  // Starts the name of every file stored, so an app can find its own files at shutdown
+  filePrefix?: string;
 }
 
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, uploadsDir);
+const createDiskStorage = ({
+  uploadsDir,
+  filePrefix = '',
+}: UploadSettings): multer.StorageEngine => {
+  // Create uploads directory if it doesn't exist
+  if (!fs.existsSync(uploadsDir)) {
+    fs.mkdirSync(uploadsDir, { recursive: true });
+  }
+
+  return multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, uploadsDir);
+    },
+    filename: (req, file, cb) => {
+      const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+      const extension = path.extname(file.originalname);
+      cb(null, `${filePrefix}${file.fieldname}-${uniqueSuffix}${extension}`);
+    },
+  });
+};
+
+/**
+ * Storage that pipes the upload straight into the parser instead of storing it. The
+ * analysis is set on `req.file.analysis`, and parser errors fail the upload.
+ */
+const createAnalysisStorage = (
+  getOptions: (req: Request) => ParserOptions,
+  parseTimeoutMs: number
+): multer.StorageEngine => ({
+  _handleFile: (req, file, cb) => {
+    let options: ParserOptions;
+    try {
+      options = getOptions(req);
+    } catch (error) {
+      cb(error);
+      return;
+    }
+
+    withParseTimeout(options, parseTimeoutMs, async (timedOptions) => {
+      const analysisStream = new Mp3AnalysisStream(timedOptions);
+      await pipeline(file.stream, analysisStream);
+      return analysisStream;
+    }).then(
+      (analysisStream) =>
+        cb(null, { size: analysisStream.bytesRead, analysis: analysisStream.analysis }),
+      (error: unknown) => cb(error)
+    );
   },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
-    cb(null, `${file.fieldname}-${uniqueSuffix}${path.extname(file.originalname)}`);
+  _removeFile: (req, file, cb) => {
+    // Nothing was stored
+    cb(null);
   },
 });
 
-export const upload = multer({
-  storage,
-  fileFilter: (req, file, cb) => {
-    const allowedTypes: readonly string[] = UPLOAD_CONFIG.ALLOWED_MIMETYPES;
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only MP3 files are allowed'));
+/**
+ * Wraps a storage engine so that each file is hashed with SHA-256 on its way to the
+ * storage. The hex digest is set on `req.file.hash`.
+ */
+const createHashingStorage = (storage: multer.StorageEngine): multer.StorageEngine => ({
+  _handleFile: (req, file, cb) => {
+    const hash = createHash('sha256');
+    const hashing = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    pipeline(file.stream, hashing).catch(() => {
+      // The storage sees the error on its own stream
+    });
+    storage._handleFile(req, { ...file, stream: hashing }, (error, info) => {
+      if (error) {
+        cb(error);
+        return;
+      }
+      cb(null, { ...info, hash: hash.digest('hex') });
+    });
+  },
+  _removeFile: (req, file, cb) => storage._removeFile(req, file, cb),
+});
+
+/**
+ * Reads at least `size` bytes from the start of the stream (fewer if it ends first).
+ * The returned stream replays them before the rest of the original stream.
+ */
+const peek = async (stream: Readable, size: number): Promise<{ head: Buffer; rest: Readable }> => {
+  const iterator: AsyncIterator<Buffer> = stream[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let length = 0;
+  let isDone = false;
+
+  while (length < size) {
+    const next = await iterator.next();
+    if (next.done) {
+      isDone = true;
+      break;
+    }
+    chunks.push(next.value);
+    length += next.value.length;
+  }
+
+  const head = Buffer.concat(chunks);
+  async function* replay(): AsyncGenerator<Buffer> {
+    yield head;
+    while (!isDone) {
+      const next = await iterator.next();
+      if (next.done) {
+        isDone = true;
+      } else {
+        yield next.value;
+      }
     }
+  }
+  return { head, rest: Readable.from(replay(), { objectMode: false }) };
+};
+
+// Reads the stream to its end without keeping it, and resolves with its size
+const discard = async (stream: Readable): Promise<number> => {
+  let size = 0;
+  for await (const chunk of stream) {
+    size += (chunk as Buffer).length;
+  }
+  return size;
+};
+
+/**
+ * Wraps a storage engine so that each file's first bytes are checked before it is
+ * stored. The client's MIME type can't be relied on (curl and many browsers send
+ * application/octet-stream), so `check` decides from the content and returns an error
+ * to reject the file. A rejected file fails the upload, unless `keepRejected` is set:
+ * then its content is discarded and the error is set on the file's `rejection`, so the
+ * other files in the request still arrive.
+ */
+const createSniffingStorage = (
+  storage: multer.StorageEngine,
+  check: (head: Buffer, file: Express.Multer.File) => Error | null,
+  keepRejected = false
+): multer.StorageEngine => ({
+  _handleFile: (req, file, cb) => {
+    peek(file.stream, SNIFF_SIZE).then(({ head, rest }) => {
+      const error = check(head, file);
+      if (!error) {
+        storage._handleFile(req, { ...file, stream: rest }, cb);
+      } else if (keepRejected) {
+        discard(rest).then((size) => cb(null, { size, rejection: error }), cb);
+      } else {
+        rest.destroy();
+        cb(error);
+      }
+    }, cb);
   },
-  limits: {
-    fileSize: UPLOAD_CONFIG.MAX_FILE_SIZE,
+  _removeFile: (req, file, cb) => {
+    if (file.rejection) {
+      // Nothing was stored
+      cb(null);
+      return;
+    }
+    storage._removeFile(req, file, cb);
   },
 });
+
+/**
+ * Accepts files that start like an MP3 and rejects the other audio formats by name.
+ * Content that isn't recognised (such as an MP3 with junk before its first frame) is
+ * accepted only when the client says it is an MP3, and the parser has the last word.
+ */
+const checkMp3 = (
+  head: Buffer,
+  file: Express.Multer.File,
+  allowedTypes: string[]
+): Error | null => {
+  const format = sniffFormat(head);
+
+  if (format === 'mp3' || (format === 'unknown' && allowedTypes.includes(file.mimetype))) {
+    return null;
+  }
+  return new UnsupportedFormatError(
+    format === 'unknown'
+      ? 'Only MP3 files are allowed'
+      : `Only MP3 files are allowed (detected ${describeFormat(format)})`
+  );
+};
+
+// Batches also take zip and tar archives, recognised from their first bytes
+const checkMp3OrArchive = (
+  head: Buffer,
+  file: Express.Multer.File,
+  allowedMimetypes: string[]
+): Error | null => {
+  const format = sniffFormat(head);
+  const allowedTypes = [...allowedMimetypes, ...BATCH_CONFIG.ARCHIVE_MIMETYPES];
+
+  if (
+    format === 'mp3' ||
+    detectArchive(head) !== null ||
+    (format === 'unknown' && allowedTypes.includes(file.mimetype))
+  ) {
+    return null;
+  }
+  return new UnsupportedFormatError(
+    format === 'unknown'
+      ? 'Only MP3 files and zip or tar archives are allowed'
+      : `Only MP3 files and zip or tar archives are allowed (detected ${describeFormat(format)})`
+  );
+};
+
+/**
+ * Upload middleware that stores MP3s in the uploads directory, up to the route's
+ * maximum file size.
+ */
+export const createUpload = (limits: RouteLimits, settings: UploadSettings): multer.Multer =>
+  multer({
+    storage: createSniffingStorage(createDiskStorage(settings), (head, file) =>
+      checkMp3(head, file, settings.allowedMimetypes)
+    ),
+    limits: { fileSize: limits.maxFileSize },
+  });
+
+/**
+ * Upload middleware for batches, which take archives as well as MP3s. An archive holds
+ * many MP3s, so the batch route's maximum file size is usually larger. A file that is
+ * neither doesn't fail the batch: it arrives with its `rejection` and nothing stored.
+ */
+export const createBatchUpload = (limits: RouteLimits, settings: UploadSettings): multer.Multer =>
+  multer({
+    storage: createSniffingStorage(
+      createDiskStorage(settings),
+      (head, file) => checkMp3OrArchive(head, file, settings.allowedMimetypes),
+      true
+    ),
+    limits: {
+      fileSize: limits.maxFileSize,
+      files: BATCH_CONFIG.MAX_FILES,
+    },
+  });
+
+/**
+ * Upload middleware for routes that can take an analysis made while the file arrives.
+ * With 'stream' storage, `getOptions` gives the parser options for the request, and the
+ * parse is limited to the route's `parseTimeoutMs`. Either way the upload is hashed as
+ * it arrives, for looking its analysis up in a cache.
+ */
+export const createAnalyzingUpload = (
+  storageType: UploadStorage,
+  getOptions: (req: Request) => ParserOptions,
+  limits: RouteLimits,
+  settings: UploadSettings
+): multer.Multer =>
+  multer({
+    storage: createSniffingStorage(
+      createHashingStorage(
+        storageType === 'stream'
+          ? createAnalysisStorage(getOptions, limits.parseTimeoutMs)
+          : createDiskStorage(settings)
+      ),
+      (head, file) => checkMp3(head, file, settings.allowedMimetypes)
+    ),
+    limits: { fileSize: limits.maxFileSize },
+  });
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  JsonSchema,
+  enumSchema,
+  objectSchema,
+  optional,
+  ref,
+  required,
+  validate,
+} from '../json-schema';
+
+interface Point {
+  x: number;
+  label?: string;
+}
+
+describe('JSON Schema', () => {
+  const schemas: Record<string, JsonSchema> = {
+    Point: objectSchema<Point>({
+      x: required({ type: 'integer', minimum: 0 }),
+      label: optional({ type: 'string', pattern: '^[a-z]+$' }),
+    }),
+    Colour: enumSchema<'red' | 'green'>({ red: true, green: true }),
+  };
+
+  describe('objectSchema', () => {
+    it('should list required properties and allow no others', () => {
+      expect(schemas.Point).toMatchObject({
+        type: 'object',
+        required: ['x'],
+        additionalProperties: false,
+      });
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept valid values', () => {
+      expect(validate({ x: 1 }, ref('Point'), schemas)).toEqual([]);
+      expect(validate({ x: 0, label: 'a' }, ref('Point'), schemas)).toEqual([]);
+      expect(validate('red', ref('Colour'), schemas)).toEqual([]);
+    });
+
+    it('should describe each problem with its path', () => {
+      expect(validate({ x: -1, label: 'A', y: 2 }, ref('Point'), schemas)).toEqual([
+        '$.x must be at least 0',
+        '$.label must match ^[a-z]+$',
+        '$.y is not allowed',
+      ]);
+      expect(validate({}, ref('Point'), schemas)).toEqual(['$.x is required']);
+      expect(validate({ x: 1.5 }, ref('Point'), schemas)).toEqual([
+        '$.x must be integer (got number)',
+      ]);
+      expect(validate('blue', ref('Colour'), schemas)).toEqual([
+        '$ must be one of red, green (got blue)',
+      ]);
+    });
+
+    it('should check array items and oneOf', () => {
+      const points: JsonSchema = { type: 'array', items: ref('Point') };
+      expect(validate([{ x: 1 }, { x: 'a' }], points, schemas)).toEqual([
+        '$[1].x must be integer (got string)',
+      ]);
+
+      const either: JsonSchema = { oneOf: [ref('Point'), ref('Colour')] };
+      expect(validate('green', either, schemas)).toEqual([]);
+      expect(validate(null, either, schemas)).toEqual([
+        '$ must match exactly one schema (matched 0)',
+      ]);
+    });
+
+    it('should report refs to unknown schemas', () => {
+      expect(validate({}, ref('Missing'), schemas)).toEqual(['$ refers to unknown Missing']);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, afterAll } from '@jest/globals';
+import request, { Response } from 'supertest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { openApiDocument, ResponseObject } from '../openapi';
+import { validate } from '../json-schema';
+import { createApp } from '../../app';
+import { loadConfig } from '../../config/config';
+import { FRAME_SIZE, createFrames } from '../../__tests__/helpers/fixtures';
+import { batchBody, jobBody } from '../../__tests__/helpers/responses';
+
+interface Layer {
+  route?: { path: string; methods: Record<string, boolean> };
+  handle: { stack?: Layer[] };
+}
+
+const uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-openapi-'));
+const { handler: app } = createApp({
+  config: { ...loadConfig({}), uploadsDir, rateLimitPerMinute: 0, minFreeDiskBytes: 0 },
+});
+
+// Every method and path served by the app, including those in its routers
+const listRoutes = (stack: Layer[]): string[] =>
+  stack.flatMap((layer) => {
+    if (layer.route) {
+      const route = layer.route;
+      return Object.keys(route.methods).map(
+        (method) => `${method} ${route.path.replace(/:(\w+)/g, '{$1}')}`
+      );
+    }
+    return layer.handle.stack ? listRoutes(layer.handle.stack) : [];
+  });
+
+// An ID3v2.3 tag with a title and a picture, an Info frame with a LAME tag, the audio,
+// and an ID3v1.1 tag, so that most of the optional parts of an analysis are present
+const createTaggedMp3 = (): Buffer => {
+  const frame = (id: string, data: Buffer): Buffer => {
+    const header = Buffer.alloc(10);
+    header.write(id, 0, 'latin1');
+    header.writeUInt32BE(data.length, 4);
+    return Buffer.concat([header, data]);
+  };
+  const body = Buffer.concat([
+    frame('TIT2', Buffer.from('\0Title', 'latin1')),
+    frame('APIC', Buffer.from('\0image/png\0\x03Cover\0\x89PNG', 'latin1')),
+  ]);
+  const size = Buffer.from([0, 0, (body.length >> 7) & 0x7f, body.length & 0x7f]);
+  const id3v2 = Buffer.concat([Buffer.from('ID3\x03\0\0', 'latin1'), size, body]);
+
+  const infoFrame = createFrames(1);
+  infoFrame.write('Info', 36, 'latin1');
+  infoFrame.writeUInt32BE(0x01, 40);
+  infoFrame.writeUInt32BE(20, 44);
+  infoFrame.write('LAME3.100', 48, 'latin1');
+  infoFrame.writeUIntBE((576 << 12) | 1000, 48 + 21, 3);
+
+  const id3v1 = Buffer.alloc(128);
+  id3v1.write('TAG', 0, 'latin1');
+  id3v1.write('Title', 3, 'latin1');
+  id3v1[126] = 3;
+
+  return Buffer.concat([id3v2, infoFrame, createFrames(20), id3v1]);
+};
+
+const resolveResponse = (method: string, path: string, status: number): ResponseObject => {
+  const operation = openApiDocument.paths[path]?.[method as 'get'];
+  const response = operation?.responses[String(status)];
+  if (!response) {
+    throw new Error(`${method.toUpperCase()} ${path} does not document a ${status} response`);
+  }
+  if ('$ref' in response) {
+    const name = response.$ref.replace('#/components/responses/', '');
+    return openApiDocument.components.responses[name] as ResponseObject;
+  }
+  return response;
+};
+
+/**
+ * Checks that the status and content type of a response are documented for the route,
+ * and that a JSON body matches the documented schema.
+ */
+const expectToMatchDocument = (response: Response, method: string, path: string): void => {
+  const documented = resolveResponse(method, path, response.status);
+  const contentType = String(response.headers['content-type'] ?? '').split(';')[0] as string;
+
+  if (!documented.content) {
+    expect(response.text ?? '').toBe('');
+    return;
+  }
+  const mediaType = documented.content[contentType];
+  expect(Object.keys(documented.content)).toContain(contentType);
+
+  if (contentType === 'application/json' && mediaType?.schema) {
+    expect(validate(response.body, mediaType.schema, openApiDocument.components.schemas)).toEqual(
+      []
+    );
+  }
+  if (contentType === 'application/x-ndjson' && mediaType?.schema) {
+    const schema = mediaType.schema;
+    const problems = response.text
+      .trim()
+      .split('\n')
+      .flatMap((line) => validate(JSON.parse(line), schema, openApiDocument.components.schemas));
+    expect(problems).toEqual([]);
+  }
+};
+
+describe('OpenAPI document', () => {
+  afterAll(() => {
+    fs.rmSync(uploadsDir, { recursive: true, force: true });
+  });
+
+  it('should document every route the app serves', () => {
+    const served = new Set(listRoutes(app.router.stack as unknown as Layer[]));
+    const documented = Object.entries(openApiDocument.paths).flatMap(([path, methods]) =>
+      Object.keys(methods).map((method) => `${method} ${path}`)
+    );
+
+    expect(documented.sort()).toEqual([...served].sort());
+  });
+
+  it('should only refer to schemas, parameters and responses it defines', () => {
+    const refs = JSON.stringify(openApiDocument).match(/#\/components\/\w+\/\w+/g) ?? [];
+
+    for (const ref of refs) {
+      const [, , group, name] = ref.split('/') as [string, string, string, string];
+      const defined = openApiDocument.components[group as 'schemas'];
+      expect(defined).toHaveProperty(name);
+    }
+  });
+
+  describe('responses', () => {
+    it('should match for the service routes', async () => {
+      expectToMatchDocument(await request(app).get('/health'), 'get', '/health');
+      expectToMatchDocument(await request(app).get('/ready'), 'get', '/ready');
+      expectToMatchDocument(await request(app).get('/metrics'), 'get', '/metrics');
+      expectToMatchDocument(await request(app).get('/openapi.json'), 'get', '/openapi.json');
+      expectToMatchDocument(await request(app).get('/docs'), 'get', '/docs');
+    });
+
+    it('should match for an upload with tags, a LAME header and silence', async () => {
+      const response = await request(app)
+        .post('/file-upload')
+        .attach('file', createTaggedMp3(), 'tagged.mp3');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('tags');
+      expect(response.body).toHaveProperty('trailingTags');
+      expect(response.body).toHaveProperty('gapless');
+      expectToMatchDocument(response, 'post', '/file-upload');
+    });
+
+    it('should match for upload errors', async () => {
+      const responses = await Promise.all([
+        request(app).post('/file-upload'),
+        request(app).post('/file-upload').attach('file', Buffer.from('fLaC'), 'a.mp3'),
+        request(app).post('/file-upload').attach('file', Buffer.alloc(100), 'a.mp3'),
+        request(app)
+          .post('/file-upload?strict=true')
+          .attach('file', createFrames(3).subarray(0, FRAME_SIZE * 2 + 100), 'a.mp3'),
+      ]);
+
+      expect(responses.map(({ status }) => status)).toEqual([400, 415, 422, 422]);
+      responses.forEach((response) => expectToMatchDocument(response, 'post', '/file-upload'));
+    });
+
+    it('should match for raw bodies', async () => {
+      const response = await request(app)
+        .post('/analyze')
+        .set('Content-Type', 'audio/mpeg')
+        .send(createTaggedMp3());
+
+      expect(response.status).toBe(200);
+      expectToMatchDocument(response, 'post', '/analyze');
+    });
+
+    it('should match for the frame index', async () => {
+      const response = await request(app)
+        .post('/frame-index')
+        .attach('file', createFrames(3), 'a.mp3');
+
+      expect(response.status).toBe(200);
+      expectToMatchDocument(response, 'post', '/frame-index');
+    });
+
+    it('should match for batches with good and bad files', async () => {
+      const response = await request(app)
+        .post('/batch')
+        .attach('files', createTaggedMp3(), 'good.mp3')
+        .attach('files', createFrames(1).subarray(0, 4), 'short.mp3');
+
+      expect(response.status).toBe(200);
+      expect(batchBody(response).summary).toMatchObject({ succeeded: 1, failed: 1 });
+      expectToMatchDocument(response, 'post', '/batch');
+    });
+
+    it('should match for jobs', async () => {
+      const created = await request(app).post('/jobs').attach('file', createTaggedMp3(), 'a.mp3');
+      expectToMatchDocument(created, 'post', '/jobs');
+
+      let job = created;
+      for (let i = 0; i < 50 && jobBody(job).state !== 'done'; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        job = await request(app).get(`/jobs/${jobBody(created).id}`);
+      }
+      expect(jobBody(job).state).toBe('done');
+      expectToMatchDocument(job, 'get', '/jobs/{id}');
+
+      expectToMatchDocument(
+        await request(app).delete(`/jobs/${jobBody(created).id}`),
+        'delete',
+        '/jobs/{id}'
+      );
+      expectToMatchDocument(await request(app).get('/jobs/unknown'), 'get', '/jobs/{id}');
+    });
+
+    it('should match for cuts', async () => {
+      const response = await request(app)
+        .post('/cut?startFrame=1&endFrame=3')
+        .attach('file', createFrames(5), 'a.mp3');
+
+      expect(response.status).toBe(200);
+      expectToMatchDocument(response, 'post', '/cut');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { OpenApiDocument, Operation, Parameter, ResponseOrRef } from './openapi';
+import { JsonSchema } from './json-schema';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Backticks in descriptions become code, as they do in the README
+const formatText = (text: string): string =>
+  escapeHtml(text).replace(/`([^`]+)`/g, '<code>$1</code>');
+
+const refName = (ref: string): string => ref.slice(ref.lastIndexOf('/') + 1);
+
+const describeSchema = (schema: JsonSchema | undefined): string => {
+  if (!schema) return '';
+  if (schema.$ref) {
+    const name = refName(schema.$ref);
+    return `<a href="#schema-${name}">${name}</a>`;
+  }
+  if (schema.type === 'array' && schema.items) {
+    return `array of ${describeSchema(schema.items)}`;
+  }
+  if (schema.enum) {
+    return schema.enum.map((value) => `<code>${escapeHtml(String(value))}</code>`).join(' | ');
+  }
+  return escapeHtml(schema.format ? `${schema.type} (${schema.format})` : (schema.type ?? ''));
+};
+
+const renderParameters = (document: OpenApiDocument, operation: Operation): string => {
+  const parameters = (operation.parameters ?? []).map((parameter): Parameter => {
+    if ('$ref' in parameter) {
+      return document.components.parameters[refName(parameter.$ref)] as Parameter;
+    }
+    return parameter;
+  });
+  if (parameters.length === 0) return '';
+
+  const rows = parameters.map(
+    (parameter) =>
+      `<tr><td><code>${escapeHtml(parameter.name)}</code></td><td>${parameter.in}</td>` +
+      `<td>${describeSchema(parameter.schema)}</td><td>${formatText(parameter.description)}</td></tr>`
+  );
+  return `<table><tr><th>Parameter</th><th>In</th><th>Type</th><th>Description</th></tr>${rows.join('')}</table>`;
+};
+
+const renderResponses = (
+  document: OpenApiDocument,
+  responses: Record<string, ResponseOrRef>
+): string => {
+  const rows = Object.entries(responses).map(([status, response]) => {
+    const resolved =
+      'description' in response ? response : document.components.responses[refName(response.$ref)];
+    const content = Object.entries(resolved?.content ?? {}).map(
+      ([type, { schema }]) => `<code>${escapeHtml(type)}</code> ${describeSchema(schema)}`
+    );
+    return `<tr><td>${status}</td><td>${formatText(resolved?.description ?? '')}</td><td>${content.join('<br>')}</td></tr>`;
+  });
+  return `<table><tr><th>Status</th><th>Description</th><th>Body</th></tr>${rows.join('')}</table>`;
+};
+
+const renderSchema = (name: string, schema: JsonSchema): string => {
+  const properties = Object.entries(schema.properties ?? {});
+  const body =
+    properties.length > 0
+      ? `<table><tr><th>Property</th><th>Type</th><th>Description</th></tr>${properties
+          .map(
+            ([property, propertySchema]) =>
+              `<tr><td><code>${property}</code>${schema.required?.includes(property) ? '' : ' (optional)'}</td>` +
+              `<td>${describeSchema(propertySchema)}</td><td>${formatText(propertySchema.description ?? '')}</td></tr>`
+          )
+          .join('')}</table>`
+      : schema.oneOf
+        ? `<p>One of:</p><pre>${escapeHtml(JSON.stringify(schema.oneOf, null, 2))}</pre>`
+        : `<p>${describeSchema(schema)}</p>`;
+
+  return `<section id="schema-${name}"><h3>${name}</h3>${schema.description ? `<p>${formatText(schema.description)}</p>` : ''}${body}</section>`;
+};
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+h2 { border-bottom: 1px solid #ddd; padding-bottom: 0.3rem; margin-top: 2.5rem; }
+.method { display: inline-block; min-width: 4rem; font-weight: bold; text-transform: uppercase; }
+table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; font-size: 0.9rem; }
+th, td { border: 1px solid #ddd; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f5f5f5; }
+code { background: #f3f3f3; padding: 0 0.2rem; }
+pre { background: #f7f7f7; padding: 0.5rem; overflow-x: auto; }
+`;
+
+/**
+ * Renders the OpenAPI document as a self-contained HTML page, with no scripts or
+ * resources from elsewhere.
+ */
+export const renderDocsPage = (document: OpenApiDocument): string => {
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(
+      ([method, operation]) =>
+        `<section id="${operation.operationId}"><h3><span class="method">${method}</span> <code>${escapeHtml(path)}</code></h3>` +
+        `<p>${formatText(operation.summary)}</p>` +
+        (operation.description ? `<p>${formatText(operation.description)}</p>` : '') +
+        renderParameters(document, operation) +
+        renderResponses(document, operation.responses) +
+        '</section>'
+    )
+  );
+  const schemas = Object.entries(document.components.schemas).map(([name, schema]) =>
+    renderSchema(name, schema)
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.info.title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(document.info.title)} <small>${escapeHtml(document.info.version)}</small></h1>
+<p>${formatText(document.info.description)}</p>
+<p>The machine-readable document is at <a href="/openapi.json">/openapi.json</a>.</p>
+<h2>Routes</h2>
+${operations.join('\n')}
+<h2>Schemas</h2>
+${schemas.join('\n')}
+</body>
+</html>
+`;
+};
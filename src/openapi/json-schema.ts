@@ -0,0 +1,172 @@
+/**
+ * The part of JSON Schema used by the OpenAPI document, with helpers that tie object
+ * schemas to the TypeScript types they describe, and a validator for checking
+ * responses against them.
+ */
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  format?: string;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+}
+
+interface PropertySchema<IsRequired extends boolean> {
+  isRequired: IsRequired;
+  schema: JsonSchema;
+}
+
+/**
+ * A schema for each property of `T`, marked required or optional to match the type.
+ * Leaving a property out, adding one the type doesn't have or getting its optionality
+ * wrong fails to compile.
+ */
+export type PropertySchemas<T> = {
+  [K in keyof T]-?: object extends Pick<T, K> ? PropertySchema<false> : PropertySchema<true>;
+};
+
+export const required = (schema: JsonSchema): PropertySchema<true> => ({
+  isRequired: true,
+  schema,
+});
+
+export const optional = (schema: JsonSchema): PropertySchema<false> => ({
+  isRequired: false,
+  schema,
+});
+
+/**
+ * The schema of an object type. No other properties are allowed, so a response with a
+ * property the document doesn't describe fails validation.
+ */
+export const objectSchema = <T>(
+  properties: PropertySchemas<T>,
+  description?: string
+): JsonSchema => {
+  const entries = Object.entries<PropertySchema<boolean>>(properties);
+  return {
+    type: 'object',
+    ...(description && { description }),
+    properties: Object.fromEntries(entries.map(([name, { schema }]) => [name, schema])),
+    required: entries.filter(([, { isRequired }]) => isRequired).map(([name]) => name),
+    additionalProperties: false,
+  };
+};
+
+/**
+ * The schema of a union of string literals. Every member of the union has to be listed.
+ */
+export const enumSchema = <T extends string>(
+  values: Record<T, true>,
+  description?: string
+): JsonSchema => ({
+  type: 'string',
+  ...(description && { description }),
+  enum: Object.keys(values),
+});
+
+export const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const hasType = (value: unknown, type: NonNullable<JsonSchema['type']>): boolean => {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Checks a value against a schema, following `$ref`s into `schemas`. Returns a
+ * description of each problem found, such as `$.crc.failed must be integer`, or an empty
+ * list when the value is valid.
+ */
+export const validate = (
+  value: unknown,
+  schema: JsonSchema,
+  schemas: Record<string, JsonSchema>,
+  path = '$'
+): string[] => {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    const target = schemas[name];
+    return target ? validate(value, target, schemas, path) : [`${path} refers to unknown ${name}`];
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      (option) => validate(value, option, schemas, path).length === 0
+    );
+    return matches.length === 1
+      ? []
+      : [`${path} must match exactly one schema (matched ${matches.length})`];
+  }
+
+  if (schema.type && !hasType(value, schema.type)) {
+    return [`${path} must be ${schema.type} (got ${describeValue(value)})`];
+  }
+
+  const problems: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    problems.push(`${path} must be one of ${schema.enum.join(', ')} (got ${String(value)})`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      problems.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      problems.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    problems.push(`${path} must match ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, index) => {
+      problems.push(...validate(item, items, schemas, `${path}[${index}]`));
+    });
+  }
+
+  if (hasType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (!(name in object)) {
+        problems.push(`${path}.${name} is required`);
+      }
+    }
+    for (const [name, item] of Object.entries(object)) {
+      const propertySchema = properties[name];
+      if (propertySchema) {
+        problems.push(...validate(item, propertySchema, schemas, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${path}.${name} is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        problems.push(...validate(item, schema.additionalProperties, schemas, `${path}.${name}`));
+      }
+    }
+  }
+  return problems;
+};
@@ -0,0 +1,749 @@
+import {
+  ApeItem,
+  ApeTag,
+  BatchFileResult,
+  BatchResponse,
+  BatchSummary,
+  BitrateMode,
+  BitrateProfile,
+  ChannelMode,
+  CrcReport,
+  ErrorCode,
+  ErrorDetails,
+  ErrorResponse,
+  FrameIndexEntry,
+  Gap,
+  GaplessInfo,
+  Id3v1Tag,
+  Id3v2Picture,
+  Id3v2Tag,
+  Job,
+  JobState,
+  LameTag,
+  Lyrics3Tag,
+  Mp3Analysis,
+  MpegVersion,
+  ReadinessCheck,
+  ReadinessResponse,
+  ReplayGain,
+  ReplayGainAdjustment,
+  ReplayGainOriginator,
+  SilenceRange,
+  SilenceReport,
+  TrailingTags,
+  UploadSuccessResponse,
+  VbrHeader,
+} from '../types';
+import {
+  JsonSchema,
+  PropertySchemas,
+  enumSchema,
+  objectSchema,
+  optional,
+  ref,
+  required,
+} from './json-schema';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface Parameter {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  description: string;
+  required?: boolean;
+  schema: JsonSchema;
+}
+
+export interface MediaType {
+  schema?: JsonSchema;
+}
+
+export interface ResponseObject {
+  description: string;
+  headers?: Record<string, { description: string; schema: JsonSchema }>;
+  content?: Record<string, MediaType>;
+}
+
+// A response, or a reference to one in components.responses
+export type ResponseOrRef = ResponseObject | { $ref: string };
+
+export interface Operation {
+  summary: string;
+  description?: string;
+  operationId: string;
+  tags: string[];
+  parameters?: (Parameter | { $ref: string })[];
+  requestBody?: { required: boolean; content: Record<string, MediaType> };
+  responses: Record<string, ResponseOrRef>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Partial<Record<HttpMethod, Operation>>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    parameters: Record<string, Parameter>;
+    responses: Record<string, ResponseObject>;
+  };
+}
+
+const integer = (description?: string): JsonSchema => ({
+  type: 'integer',
+  ...(description && { description }),
+});
+
+const number = (description?: string): JsonSchema => ({
+  type: 'number',
+  ...(description && { description }),
+});
+
+const string = (description?: string): JsonSchema => ({
+  type: 'string',
+  ...(description && { description }),
+});
+
+const boolean = (description?: string): JsonSchema => ({
+  type: 'boolean',
+  ...(description && { description }),
+});
+
+const arrayOf = (items: JsonSchema, description?: string): JsonSchema => ({
+  type: 'array',
+  ...(description && { description }),
+  items,
+});
+
+const ERROR_CODES: Record<ErrorCode, true> = {
+  INVALID_REQUEST: true,
+  NO_FILE: true,
+  NOT_FOUND: true,
+  FILE_TOO_LARGE: true,
+  UNSUPPORTED_FORMAT: true,
+  INVALID_MP3: true,
+  NO_FRAMES: true,
+  TRUNCATED_FRAME: true,
+  CORRUPTED_FRAMES: true,
+  INVALID_ARCHIVE: true,
+  INVALID_RANGE: true,
+  PARSE_TIMEOUT: true,
+  RATE_LIMITED: true,
+  SERVER_BUSY: true,
+  INTERNAL: true,
+};
+
+const silenceRange = objectSchema<SilenceRange>({
+  startMs: required(number()),
+  endMs: required(number()),
+});
+
+const replayGainAdjustment = objectSchema<ReplayGainAdjustment>({
+  gainDb: required(number()),
+  originator: required(ref('ReplayGainOriginator')),
+});
+
+const mp3AnalysisProperties: PropertySchemas<Mp3Analysis> = {
+  frameCount: required(integer('Audio frames, not counting a Xing/Info or VBRI header frame')),
+  durationMs: required(integer('Sum of the frame durations, rounded to the millisecond')),
+  bitrate: required(ref('BitrateProfile')),
+  sampleRate: required(integer('Hz, from the first audio frame')),
+  channelMode: required(ref('ChannelMode')),
+  mpegVersion: required(ref('MpegVersion')),
+  layer: required({ type: 'integer', enum: [1, 2, 3] }),
+  audioBytes: required(integer('Total size of the audio frames')),
+  tags: optional(ref('Id3v2Tag')),
+  trailingTags: optional(ref('TrailingTags')),
+  vbrHeader: optional(ref('VbrHeader')),
+  frameCountMismatch: required(
+    boolean('True when the VBR header declares a different number of frames than were counted')
+  ),
+  crc: required(ref('CrcReport')),
+  gaps: required(arrayOf(ref('Gap'), 'Byte ranges skipped as junk, up to 1000')),
+  gapless: optional(ref('GaplessInfo')),
+  silence: optional(ref('SilenceReport')),
+};
+
+const batchFileProperties = {
+  name: required(string('Name of the uploaded file, or of the file in its archive')),
+  archive: optional(string('Name of the archive the file came from')),
+};
+
+const schemas: Record<string, JsonSchema> = {
+  ErrorCode: enumSchema<ErrorCode>(ERROR_CODES, 'Stable code for matching on errors'),
+  ErrorDetails: objectSchema<ErrorDetails>({
+    offset: optional(integer('Byte position in the file the error relates to')),
+    limit: optional(integer('The limit that was exceeded, such as a size in bytes')),
+    retryAfterSeconds: optional(integer('When to try again, also sent as Retry-After')),
+  }),
+  ErrorResponse: objectSchema<ErrorResponse>({
+    error: required(string('Human-readable message, which may change')),
+    code: required(ref('ErrorCode')),
+    requestId: required(string('Also sent in the X-Request-Id header')),
+    details: optional(ref('ErrorDetails')),
+  }),
+  ChannelMode: enumSchema<ChannelMode>({
+    stereo: true,
+    joint_stereo: true,
+    dual_channel: true,
+    mono: true,
+  }),
+  MpegVersion: enumSchema<MpegVersion>({ '1': true, '2': true, '2.5': true }),
+  BitrateMode: enumSchema<BitrateMode>({ CBR: true, VBR: true, ABR: true }),
+  BitrateProfile: objectSchema<BitrateProfile>({
+    average: required(integer('kbps')),
+    min: required(integer('kbps')),
+    max: required(integer('kbps')),
+    mode: required(ref('BitrateMode')),
+  }),
+  ReplayGainOriginator: enumSchema<ReplayGainOriginator>({
+    unspecified: true,
+    artist: true,
+    user: true,
+    automatic: true,
+    rms: true,
+  }),
+  ReplayGainAdjustment: replayGainAdjustment,
+  ReplayGain: objectSchema<ReplayGain>({
+    peak: optional(number('Peak sample amplitude, 1.0 being full scale')),
+    track: optional(ref('ReplayGainAdjustment')),
+    album: optional(ref('ReplayGainAdjustment')),
+  }),
+  LameTag: objectSchema<LameTag>({
+    encoder: required(string('Such as LAME3.100')),
+    vbrMethod: required(integer()),
+    revision: optional(integer()),
+    lowpassHz: optional(integer()),
+    replayGain: optional(ref('ReplayGain')),
+    encoderDelay: optional(integer('Samples added before the audio')),
+    encoderPadding: optional(integer('Samples added after the audio')),
+    musicLength: optional(integer('Bytes from the start of the tag frame to the end of the audio')),
+    musicCrc: optional(integer('CRC-16 of the audio frames')),
+    tagCrcValid: optional(boolean("Whether the tag's own CRC-16 matches")),
+  }),
+  VbrHeader: objectSchema<VbrHeader>({
+    type: required({ type: 'string', enum: ['Xing', 'Info', 'VBRI'] }),
+    frames: optional(integer()),
+    bytes: optional(integer()),
+    toc: optional(arrayOf(integer())),
+    quality: optional(integer()),
+    lame: optional(ref('LameTag')),
+  }),
+  Id3v2Picture: objectSchema<Id3v2Picture>({
+    mimeType: required(string()),
+    pictureType: required(integer()),
+    description: required(string()),
+    size: required(integer('Bytes of image data, which is not returned')),
+  }),
+  Id3v2Tag: objectSchema<Id3v2Tag>({
+    version: required(string('Such as 2.4.0')),
+    title: optional(string()),
+    artist: optional(string()),
+    album: optional(string()),
+    track: optional(string()),
+    year: optional(string()),
+    comment: optional(string()),
+    pictures: required(arrayOf(ref('Id3v2Picture'))),
+  }),
+  Id3v1Tag: objectSchema<Id3v1Tag>({
+    version: required({ type: 'string', enum: ['1.0', '1.1'] }),
+    title: required(string()),
+    artist: required(string()),
+    album: required(string()),
+    year: required(string()),
+    comment: required(string()),
+    track: optional(integer('ID3v1.1 only')),
+    genre: required(integer()),
+  }),
+  ApeItem: objectSchema<ApeItem>({
+    key: required(string()),
+    type: required({ type: 'string', enum: ['text', 'binary', 'external', 'reserved'] }),
+    value: optional(string('Left out for binary items')),
+    size: required(integer()),
+  }),
+  ApeTag: objectSchema<ApeTag>({
+    version: required(integer('1000 or 2000')),
+    size: required(integer('Bytes, including the header and footer')),
+    items: required(arrayOf(ref('ApeItem'))),
+  }),
+  Lyrics3Tag: objectSchema<Lyrics3Tag>({
+    version: required({ type: 'string', enum: ['2.00'] }),
+    size: required(integer()),
+    fields: required({ type: 'object', additionalProperties: { type: 'string' } }),
+  }),
+  TrailingTags: objectSchema<TrailingTags>({
+    id3v1: optional(ref('Id3v1Tag')),
+    apev2: optional(ref('ApeTag')),
+    lyrics3: optional(ref('Lyrics3Tag')),
+  }),
+  CrcReport: objectSchema<CrcReport>({
+    protectedFrames: required(integer()),
+    passed: required(integer()),
+    failed: required(integer()),
+    unchecked: required(integer('Protected Layer II frames, which are not checked')),
+    failedOffsets: required(arrayOf(integer(), 'Up to 1000')),
+  }),
+  Gap: objectSchema<Gap>({
+    offset: required(integer()),
+    length: required(integer()),
+  }),
+  SilenceRange: silenceRange,
+  SilenceReport: objectSchema<SilenceReport>({
+    thresholdDb: required(number()),
+    silentFrames: required(integer()),
+    leading: optional(ref('SilenceRange')),
+    trailing: optional(ref('SilenceRange')),
+    internal: required(arrayOf(ref('SilenceRange'), 'Up to 1000')),
+  }),
+  GaplessInfo: objectSchema<GaplessInfo>({
+    encoderDelay: required(integer()),
+    encoderPadding: required(integer()),
+    sampleCount: required(integer()),
+    durationMs: required(number('Exact playback time, not rounded')),
+  }),
+  Mp3Analysis: objectSchema<Mp3Analysis>(mp3AnalysisProperties),
+  UploadSuccessResponse: objectSchema<UploadSuccessResponse>({
+    ...mp3AnalysisProperties,
+    hash: required({
+      ...string('SHA-256 of the file in hex, also sent as the ETag'),
+      pattern: '^[0-9a-f]{64}$',
+    }),
+    cached: required(boolean('True when the analysis came from the cache')),
+  }),
+  FrameIndexEntry: objectSchema<FrameIndexEntry>({
+    offset: required(integer()),
+    size: required(integer()),
+    bitrate: required(integer('kbps')),
+    padding: required(boolean()),
+    sampleRate: required(integer('Hz')),
+    channelMode: required(ref('ChannelMode')),
+    timestampMs: required(number()),
+  }),
+  BatchFileResult: {
+    oneOf: [
+      objectSchema<Extract<BatchFileResult, { analysis: Mp3Analysis }>>({
+        ...batchFileProperties,
+        analysis: required(ref('Mp3Analysis')),
+      }),
+      objectSchema<Extract<BatchFileResult, { error: string }>>({
+        ...batchFileProperties,
+        error: required(string()),
+        code: required(ref('ErrorCode')),
+      }),
+    ],
+  },
+  BatchSummary: objectSchema<BatchSummary>({
+    files: required(integer()),
+    succeeded: required(integer()),
+    failed: required(integer()),
+    frameCount: required(integer()),
+    durationMs: required(integer()),
+    audioBytes: required(integer()),
+  }),
+  BatchResponse: objectSchema<BatchResponse>({
+    results: required(arrayOf(ref('BatchFileResult'))),
+    summary: required(ref('BatchSummary')),
+  }),
+  ReadinessCheck: objectSchema<ReadinessCheck>({
+    name: required(string('Such as `uploadsDirWritable`, `diskSpace` or `shuttingDown`')),
+    ok: required(boolean()),
+  }),
+  ReadinessResponse: objectSchema<ReadinessResponse>({
+    ready: required(boolean('True when every check passed')),
+    checks: required(arrayOf(ref('ReadinessCheck'))),
+  }),
+  JobState: enumSchema<JobState>({ queued: true, running: true, done: true, failed: true }),
+  Job: objectSchema<Job>({
+    id: required(string()),
+    state: required(ref('JobState')),
+    progress: required({ ...integer('Percentage of the file parsed'), minimum: 0, maximum: 100 }),
+    bytesParsed: required(integer()),
+    totalBytes: required(integer()),
+    createdAt: required({ type: 'string', format: 'date-time' }),
+    result: optional(ref('Mp3Analysis')),
+    error: optional(string('Why the job failed')),
+    errorCode: optional(ref('ErrorCode')),
+  }),
+};
+
+const json = (name: string): Record<string, MediaType> => ({
+  'application/json': { schema: ref(name) },
+});
+
+const errorResponse = (description: string): ResponseObject => ({
+  description,
+  content: json('ErrorResponse'),
+});
+
+const retryAfter = {
+  'Retry-After': { description: 'Seconds to wait before trying again', schema: integer() },
+};
+
+const responses: Record<string, ResponseObject> = {
+  BadRequest: errorResponse('`NO_FILE` or `INVALID_REQUEST`'),
+  NotFound: errorResponse('`NOT_FOUND`'),
+  PayloadTooLarge: errorResponse('`FILE_TOO_LARGE`'),
+  UnsupportedMediaType: errorResponse('`UNSUPPORTED_FORMAT`'),
+  UnprocessableEntity: errorResponse(
+    '`INVALID_MP3`, `NO_FRAMES`, or in strict mode `CORRUPTED_FRAMES` or `TRUNCATED_FRAME`'
+  ),
+  TooManyRequests: {
+    ...errorResponse('`RATE_LIMITED`: the client has sent too many uploads'),
+    headers: retryAfter,
+  },
+  ServiceUnavailable: {
+    ...errorResponse('`PARSE_TIMEOUT`, or `SERVER_BUSY` when too many uploads are waiting'),
+    headers: retryAfter,
+  },
+  InternalError: errorResponse('`INTERNAL`: something unexpected went wrong'),
+};
+
+const responseRef = (name: string) => ({ $ref: `#/components/responses/${name}` });
+
+// The errors every upload route can return
+const uploadErrors = {
+  '400': responseRef('BadRequest'),
+  '413': responseRef('PayloadTooLarge'),
+  '415': responseRef('UnsupportedMediaType'),
+  '422': responseRef('UnprocessableEntity'),
+  '429': responseRef('TooManyRequests'),
+  '500': responseRef('InternalError'),
+  '503': responseRef('ServiceUnavailable'),
+};
+
+const parameterRef = (name: string) => ({ $ref: `#/components/parameters/${name}` });
+
+const parserParameters = [
+  parameterRef('strict'),
+  parameterRef('crcFailureThreshold'),
+  parameterRef('silenceThresholdDb'),
+  parameterRef('minSilenceMs'),
+];
+
+const parameters: Record<string, Parameter> = {
+  strict: {
+    name: 'strict',
+    in: 'query',
+    description: '`true` to reject files with too many failed CRC checks or a cut-short last frame',
+    schema: { type: 'string', enum: ['true', 'false'] },
+  },
+  crcFailureThreshold: {
+    name: 'crcFailureThreshold',
+    in: 'query',
+    description: 'Share of checked frames allowed to fail their CRC in strict mode',
+    schema: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  silenceThresholdDb: {
+    name: 'silenceThresholdDb',
+    in: 'query',
+    description: 'Level in dBFS below which a frame counts as silent, default -60',
+    schema: { type: 'number', maximum: 0 },
+  },
+  minSilenceMs: {
+    name: 'minSilenceMs',
+    in: 'query',
+    description: 'Shortest silence listed between audible frames, default 500',
+    schema: { type: 'number', minimum: 0 },
+  },
+  jobId: {
+    name: 'id',
+    in: 'path',
+    description: 'The job ID returned when it was created',
+    required: true,
+    schema: string(),
+  },
+};
+
+const multipartFile = (field: string, description: string, isArray = false) => ({
+  required: true,
+  content: {
+    'multipart/form-data': {
+      schema: {
+        type: 'object' as const,
+        properties: {
+          [field]: isArray
+            ? arrayOf({ type: 'string', format: 'binary' }, description)
+            : { type: 'string' as const, format: 'binary', description },
+        },
+        required: [field],
+      },
+    },
+  },
+});
+
+const text = (description: string): ResponseObject => ({
+  description,
+  content: { 'text/plain': { schema: string() } },
+});
+
+/**
+ * The OpenAPI description of the API, served at /openapi.json and rendered at /docs.
+ * The schemas are checked against the TypeScript types when the project compiles, and
+ * the tests check real responses against them.
+ */
+export const openApiDocument: OpenApiDocument = {
+  openapi: '3.1.0',
+  info: {
+    title: 'MP3 File Analysis API',
+    version: '0.0.1',
+    description:
+      'Counts the frames of MP3 files and reports their stream properties, tags, CRC ' +
+      'checks, gaps and silence. Every response has an X-Request-Id header, and every ' +
+      'error response is an ErrorResponse.',
+  },
+  paths: {
+    '/health': {
+      get: {
+        summary: 'Check that the server is running',
+        operationId: 'getHealth',
+        tags: ['Service'],
+        responses: {
+          '200': { description: '`OK`', content: { 'text/html': { schema: string() } } },
+        },
+      },
+    },
+    '/ready': {
+      get: {
+        summary: 'Check that the server can take uploads',
+        description:
+          'Checks that the uploads directory is writable and has enough free space, and ' +
+          'fails while the server is shutting down.',
+        operationId: 'getReady',
+        tags: ['Service'],
+        responses: {
+          '200': { description: 'Every check passed', content: json('ReadinessResponse') },
+          '503': { description: 'A check failed', content: json('ReadinessResponse') },
+        },
+      },
+    },
+    '/metrics': {
+      get: {
+        summary: 'Metrics in the Prometheus text format',
+        operationId: 'getMetrics',
+        tags: ['Service'],
+        responses: { '200': text('Request, upload, parsing and error metrics') },
+      },
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This document',
+        operationId: 'getOpenApiDocument',
+        tags: ['Service'],
+        responses: {
+          '200': { description: 'OpenAPI 3.1 document', content: { 'application/json': {} } },
+        },
+      },
+    },
+    '/docs': {
+      get: {
+        summary: 'This document as a web page',
+        operationId: 'getDocs',
+        tags: ['Service'],
+        responses: {
+          '200': { description: 'HTML page', content: { 'text/html': { schema: string() } } },
+        },
+      },
+    },
+    '/file-upload': {
+      post: {
+        summary: 'Analyse an MP3 file',
+        description:
+          'Analyses are cached by the SHA-256 of the file. Send a hash from an earlier ' +
+          'ETag in If-None-Match, without a file, to get a 304 while it is still cached.',
+        operationId: 'uploadFile',
+        tags: ['Analysis'],
+        parameters: [
+          ...parserParameters,
+          {
+            name: 'If-None-Match',
+            in: 'header',
+            description: 'Quoted SHA-256 hashes of files analysed before',
+            schema: string(),
+          },
+        ],
+        requestBody: multipartFile('file', 'The MP3 file'),
+        responses: {
+          '200': {
+            description: 'The analysis',
+            headers: { ETag: { description: 'The quoted SHA-256 of the file', schema: string() } },
+            content: json('UploadSuccessResponse'),
+          },
+          '304': { description: 'The analysis of the If-None-Match hash is still cached' },
+          ...uploadErrors,
+        },
+      },
+    },
+    '/analyze': {
+      post: {
+        summary: 'Analyse an MP3 sent as the request body',
+        operationId: 'analyzeBody',
+        tags: ['Analysis'],
+        parameters: parserParameters,
+        requestBody: {
+          required: true,
+          content: {
+            'audio/mpeg': { schema: { type: 'string', format: 'binary' } },
+            'application/octet-stream': { schema: { type: 'string', format: 'binary' } },
+          },
+        },
+        responses: {
+          '200': { description: 'The analysis', content: json('Mp3Analysis') },
+          ...uploadErrors,
+        },
+      },
+      put: {
+        summary: 'Analyse an MP3 sent as the request body',
+        operationId: 'analyzeBodyPut',
+        tags: ['Analysis'],
+        parameters: parserParameters,
+        requestBody: {
+          required: true,
+          content: { 'audio/mpeg': { schema: { type: 'string', format: 'binary' } } },
+        },
+        responses: {
+          '200': { description: 'The analysis', content: json('Mp3Analysis') },
+          ...uploadErrors,
+        },
+      },
+    },
+    '/frame-index': {
+      post: {
+        summary: 'List the offset, size and timestamp of every frame',
+        operationId: 'getFrameIndex',
+        tags: ['Analysis'],
+        parameters: [
+          {
+            name: 'format',
+            in: 'query',
+            description: 'NDJSON of FrameIndexEntry objects (the default), CSV or binary records',
+            schema: { type: 'string', enum: ['ndjson', 'csv', 'binary'] },
+          },
+        ],
+        requestBody: multipartFile('file', 'The MP3 file'),
+        responses: {
+          '200': {
+            description: 'The frame index, streamed as the file is parsed',
+            content: {
+              'application/x-ndjson': { schema: ref('FrameIndexEntry') },
+              'text/csv': { schema: string() },
+              'application/octet-stream': { schema: { type: 'string', format: 'binary' } },
+            },
+          },
+          ...uploadErrors,
+        },
+      },
+    },
+    '/batch': {
+      post: {
+        summary: 'Analyse many MP3 files, or zip and tar archives of them',
+        operationId: 'analyzeBatch',
+        tags: ['Analysis'],
+        parameters: parserParameters,
+        requestBody: multipartFile('files', 'MP3 files and archives', true),
+        responses: {
+          '200': { description: 'A result for each file', content: json('BatchResponse') },
+          // A file of another type fails on its own, so the batch is never a 415
+          '400': responseRef('BadRequest'),
+          '413': responseRef('PayloadTooLarge'),
+          '422': responseRef('UnprocessableEntity'),
+          '429': responseRef('TooManyRequests'),
+          '500': responseRef('InternalError'),
+          '503': responseRef('ServiceUnavailable'),
+        },
+      },
+    },
+    '/jobs': {
+      post: {
+        summary: 'Start analysing an MP3 file in the background',
+        operationId: 'createJob',
+        tags: ['Jobs'],
+        parameters: parserParameters,
+        requestBody: multipartFile('file', 'The MP3 file'),
+        responses: {
+          '202': {
+            description: 'The job, which can be polled at its Location',
+            headers: { Location: { description: 'URL of the job', schema: string() } },
+            content: json('Job'),
+          },
+          ...uploadErrors,
+        },
+      },
+    },
+    '/jobs/{id}': {
+      get: {
+        summary: 'Get the state of a job, and its result once done',
+        operationId: 'getJob',
+        tags: ['Jobs'],
+        parameters: [parameterRef('jobId')],
+        responses: {
+          '200': { description: 'The job', content: json('Job') },
+          '404': responseRef('NotFound'),
+        },
+      },
+      delete: {
+        summary: 'Cancel a job, or delete a finished one',
+        operationId: 'deleteJob',
+        tags: ['Jobs'],
+        parameters: [parameterRef('jobId')],
+        responses: {
+          '204': { description: 'The job was cancelled or deleted' },
+          '404': responseRef('NotFound'),
+        },
+      },
+    },
+    '/cut': {
+      post: {
+        summary: 'Trim an MP3 to a range, or split it into segments',
+        description:
+          'Give one of a frame range, a time range or a segment length. Frames are cut ' +
+          'whole, without re-encoding.',
+        operationId: 'cutFile',
+        tags: ['Editing'],
+        parameters: [
+          ...['startFrame', 'endFrame'].map((name) => ({
+            name,
+            in: 'query' as const,
+            description: 'Frame range, the end exclusive',
+            schema: { type: 'integer' as const, minimum: 0 },
+          })),
+          ...['startMs', 'endMs'].map((name) => ({
+            name,
+            in: 'query' as const,
+            description: 'Time range in milliseconds',
+            schema: { type: 'number' as const, minimum: 0 },
+          })),
+          {
+            name: 'segmentFrames',
+            in: 'query',
+            description: 'Split into segments of this many frames',
+            schema: { type: 'integer', minimum: 1 },
+          },
+          {
+            name: 'segmentMs',
+            in: 'query',
+            description: 'Split into segments of this many milliseconds',
+            schema: { type: 'number', minimum: 0 },
+          },
+          {
+            name: 'tags',
+            in: 'query',
+            description: '`true` to keep the ID3v2 and trailing tags',
+            schema: { type: 'string', enum: ['true', 'false'] },
+          },
+          ...parserParameters,
+        ],
+        requestBody: multipartFile('file', 'The MP3 file'),
+        responses: {
+          '200': {
+            description: 'The trimmed MP3, or a zip of the segments',
+            content: {
+              'audio/mpeg': { schema: { type: 'string', format: 'binary' } },
+              'application/zip': { schema: { type: 'string', format: 'binary' } },
+            },
+          },
+          ...uploadErrors,
+        },
+      },
+    },
+  },
+  components: { schemas, parameters, responses },
+};
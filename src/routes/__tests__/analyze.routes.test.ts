@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createAnalyzeRouter } from '../analyze.routes';
+import { createErrorHandler } from '../../middleware/error.middleware';
+import { loadConfig } from '../../config/config';
+import { AppMetrics } from '../../metrics/metrics';
+import { FRAME_SIZE, createFrames } from '../../__tests__/helpers/fixtures';
+import { analysisBody, errorBody } from '../../__tests__/helpers/responses';
+
+const config = loadConfig({});
+const metrics = new AppMetrics(config.uploadsDir);
+const app = express();
+app.use(createAnalyzeRouter(config.routes.analyze, metrics));
+app.use(createErrorHandler(metrics));
+
+describe('Analyze Routes', () => {
+  describe('POST /analyze', () => {
+    it('should analyse an audio/mpeg body', async () => {
+      const response = await request(app)
+        .post('/analyze')
+        .set('Content-Type', 'audio/mpeg')
+        .send(createFrames(10));
+
+      expect(response.status).toBe(200);
+      expect(analysisBody(response).frameCount).toBe(10);
+      expect(analysisBody(response).audioBytes).toBe(10 * FRAME_SIZE);
+    });
+
+    it('should accept PUT with an application/octet-stream body', async () => {
+      const response = await request(app)
+        .put('/analyze')
+        .set('Content-Type', 'application/octet-stream')
+        .send(createFrames(3));
+
+      expect(response.status).toBe(200);
+      expect(analysisBody(response).frameCount).toBe(3);
+    });
+
+    it('should return 400 without a body', async () => {
+      const response = await request(app).post('/analyze');
+
+      expect(response.status).toBe(400);
+      expect(errorBody(response).error).toBe('No file uploaded');
+    });
+
+    it('should return 415 for other content types', async () => {
+      const response = await request(app)
+        .post('/analyze')
+        .set('Content-Type', 'text/plain')
+        .send('not an mp3');
+
+      expect(response.status).toBe(415);
+      expect(errorBody(response).error).toBe('Only MP3 files are allowed');
+    });
+
+    it('should return 415 for other audio formats whatever their content type', async () => {
+      const wav = Buffer.alloc(10000);
+      wav.write('RIFF', 0);
+      wav.write('WAVE', 8);
+      const flac = Buffer.from('fLaC\0\0\0\x22');
+
+      const wavResponse = await request(app)
+        .put('/analyze')
+        .set('Content-Type', 'application/octet-stream')
+        .send(wav);
+      const flacResponse = await request(app)
+        .post('/analyze')
+        .set('Content-Type', 'audio/mpeg')
+        .send(flac);
+
+      expect(wavResponse.status).toBe(415);
+      expect(wavResponse.body).toMatchObject({
+        error: 'Only MP3 files are allowed (detected WAV)',
+        code: 'UNSUPPORTED_FORMAT',
+      });
+      expect(flacResponse.status).toBe(415);
+      expect(errorBody(flacResponse).error).toBe('Only MP3 files are allowed (detected FLAC)');
+    });
+
+    it('should return 422 when no frames are found', async () => {
+      const response = await request(app)
+        .post('/analyze')
+        .set('Content-Type', 'audio/mpeg')
+        .send(Buffer.alloc(1000));
+
+      expect(response.status).toBe(422);
+      expect(response.body).toMatchObject({
+        error: 'No valid MP3 frames found',
+        code: 'NO_FRAMES',
+      });
+    });
+
+    it('should apply strict mode from the query string', async () => {
+      // Protected frames with a zero CRC word
+      const buffer = createFrames(2);
+      buffer.writeUInt8(0xfa, 1);
+      buffer.writeUInt8(0xfa, FRAME_SIZE + 1);
+
+      const response = await request(app)
+        .post('/analyze?strict=true')
+        .set('Content-Type', 'audio/mpeg')
+        .send(buffer);
+
+      expect(response.status).toBe(422);
+      expect(errorBody(response).error).toBe('2 of 2 protected frames failed the CRC check');
+    });
+
+    it('should reject a body whose declared length is too large', async () => {
+      const response = await request(app)
+        .post('/analyze')
+        .set('Content-Type', 'audio/mpeg')
+        .send(Buffer.alloc(11 * 1024 * 1024));
+
+      expect(response.status).toBe(413);
+      expect(errorBody(response).error).toBe('File is too large');
+    });
+  });
+
+  describe('POST /analyze with chunked transfer encoding', () => {
+    let server: http.Server;
+    let port: number;
+
+    beforeAll((done) => {
+      server = app.listen(0, () => {
+        port = (server.address() as AddressInfo).port;
+        done();
+      });
+    });
+
+    afterAll((done) => {
+      server.close(() => done());
+    });
+
+    // Sends each chunk as it is written, without a Content-Length
+    const postChunked = (chunks: Buffer[]): Promise<{ status: number; body: unknown }> =>
+      new Promise((resolve, reject) => {
+        const req = http.request(
+          {
+            port,
+            method: 'POST',
+            path: '/analyze',
+            headers: { 'Content-Type': 'audio/mpeg', 'Transfer-Encoding': 'chunked' },
+          },
+          (res) => {
+            const data: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => data.push(chunk));
+            res.on('end', () =>
+              resolve({
+                status: res.statusCode ?? 0,
+                body: JSON.parse(Buffer.concat(data).toString()) as unknown,
+              })
+            );
+          }
+        );
+        req.on('error', reject);
+        for (const chunk of chunks) {
+          req.write(chunk);
+        }
+        req.end();
+      });
+
+    it('should analyse a body of unknown length', async () => {
+      const data = createFrames(20);
+      const chunks = [data.subarray(0, 1000), data.subarray(1000, 5000), data.subarray(5000)];
+
+      const response = await postChunked(chunks);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ frameCount: 20 });
+    });
+
+    it('should return 422 for an empty body', async () => {
+      const response = await postChunked([]);
+
+      expect(response.status).toBe(422);
+      expect(response.body).toMatchObject({ error: 'File is empty', code: 'INVALID_MP3' });
+    });
+
+    it('should reject a chunked body once it passes the size limit', async () => {
+      const chunk = Buffer.alloc(1024 * 1024);
+
+      const response = await postChunked(Array.from({ length: 11 }, () => chunk));
+
+      expect(response.status).toBe(413);
+      expect(response.body).toMatchObject({
+        error: 'File is too large',
+        code: 'FILE_TOO_LARGE',
+        details: { limit: 10 * 1024 * 1024 },
+      });
+    });
+  });
+});
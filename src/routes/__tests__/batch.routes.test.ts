@@ -0,0 +1,158 @@
+import { describe, it, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { createBatchRouter } from '../batch.routes';
+import { createErrorHandler } from '../../middleware/error.middleware';
+import { loadConfig } from '../../config/config';
+import { AppMetrics } from '../../metrics/metrics';
+import { FRAME_SIZE, createFrames, createTar } from '../../__tests__/helpers/fixtures';
+import { batchBody, errorBody } from '../../__tests__/helpers/responses';
+
+const config = loadConfig({});
+const metrics = new AppMetrics(config.uploadsDir);
+const app = express();
+app.use(createBatchRouter(config.routes.batch, config, metrics));
+app.use(createErrorHandler(metrics));
+
+describe('Batch Routes', () => {
+  describe('POST /batch', () => {
+    it('should return 400 if no files are uploaded', async () => {
+      const response = await request(app).post('/batch');
+
+      expect(response.status).toBe(400);
+      expect(errorBody(response).error).toBe('No files uploaded');
+    });
+
+    it('should analyse each file and report failures without failing the batch', async () => {
+      const response = await request(app)
+        .post('/batch')
+        .attach('files', createFrames(3), 'one.mp3')
+        .attach('files', Buffer.alloc(1000), 'silence.mp3')
+        .attach('files', createFrames(5), 'two.mp3');
+
+      expect(response.status).toBe(200);
+      expect(batchBody(response).results).toHaveLength(3);
+      expect(batchBody(response).results[0]).toMatchObject({
+        name: 'one.mp3',
+        analysis: { frameCount: 3 },
+      });
+      expect(batchBody(response).results[1]).toEqual({
+        name: 'silence.mp3',
+        error: 'No valid MP3 frames found',
+        code: 'NO_FRAMES',
+      });
+      expect(batchBody(response).results[2]).toMatchObject({
+        name: 'two.mp3',
+        analysis: { frameCount: 5 },
+      });
+      expect(batchBody(response).summary).toEqual({
+        files: 3,
+        succeeded: 2,
+        failed: 1,
+        frameCount: 8,
+        durationMs:
+          Math.round(((3 * 1152) / 44100) * 1000) + Math.round(((5 * 1152) / 44100) * 1000),
+        audioBytes: 8 * FRAME_SIZE,
+      });
+    });
+
+    it('should analyse the MP3s inside an archive', async () => {
+      const tar = createTar([
+        { name: 'album/01.mp3', data: createFrames(2) },
+        { name: 'album/notes.txt', data: Buffer.from('liner notes') },
+        { name: 'album/02.MP3', data: createFrames(4) },
+      ]);
+
+      const response = await request(app)
+        .post('/batch')
+        .attach('files', tar, { filename: 'album.tar', contentType: 'application/x-tar' });
+
+      expect(response.status).toBe(200);
+      expect(batchBody(response).results.map((result) => [result.archive, result.name])).toEqual([
+        ['album.tar', 'album/01.mp3'],
+        ['album.tar', 'album/02.MP3'],
+      ]);
+      expect(batchBody(response).summary.frameCount).toBe(6);
+    });
+
+    it('should report an unreadable archive as a failed file', async () => {
+      const tar = createTar([{ name: 'song.mp3', data: createFrames(1) }]);
+      tar.writeUInt8(0x41, 10);
+
+      const response = await request(app)
+        .post('/batch')
+        .attach('files', tar, { filename: 'broken.tar', contentType: 'application/x-tar' })
+        .attach('files', createFrames(1), 'ok.mp3');
+
+      expect(response.status).toBe(200);
+      expect(batchBody(response).results[0]).toEqual({
+        name: 'broken.tar',
+        error: 'Invalid tar archive',
+        code: 'INVALID_ARCHIVE',
+      });
+      expect(batchBody(response).summary).toMatchObject({ files: 2, succeeded: 1, failed: 1 });
+    });
+
+    it('should report files of other types without failing the batch', async () => {
+      const response = await request(app)
+        .post('/batch')
+        .attach('files', createFrames(2), 'one.mp3')
+        .attach('files', Buffer.from('text'), { filename: 'a.txt', contentType: 'text/plain' })
+        .attach('files', createFrames(3), 'two.mp3');
+
+      expect(response.status).toBe(200);
+      expect(batchBody(response).results).toEqual([
+        { name: 'one.mp3', analysis: expect.objectContaining({ frameCount: 2 }) },
+        {
+          name: 'a.txt',
+          error: 'Only MP3 files and zip or tar archives are allowed',
+          code: 'UNSUPPORTED_FORMAT',
+        },
+        { name: 'two.mp3', analysis: expect.objectContaining({ frameCount: 3 }) },
+      ]);
+      expect(batchBody(response).summary).toMatchObject({ files: 3, succeeded: 2, failed: 1 });
+    });
+
+    it('should name the format of other audio files in their results', async () => {
+      const ogg = Buffer.concat([Buffer.from('OggS', 'latin1'), Buffer.alloc(100)]);
+
+      const response = await request(app)
+        .post('/batch')
+        .attach('files', createFrames(2), 'one.mp3')
+        .attach('files', ogg, { filename: 'song.mp3', contentType: 'audio/mpeg' })
+        .attach('files', createFrames(3), 'two.mp3');
+
+      expect(response.status).toBe(200);
+      expect(batchBody(response).results[1]).toEqual({
+        name: 'song.mp3',
+        error: 'Only MP3 files and zip or tar archives are allowed (detected Ogg)',
+        code: 'UNSUPPORTED_FORMAT',
+      });
+      expect(batchBody(response).summary).toMatchObject({ files: 3, succeeded: 2, failed: 1 });
+    });
+
+    it('should answer 200 when every file is of another format', async () => {
+      const wav = Buffer.alloc(100);
+      wav.write('RIFF', 0, 'latin1');
+      wav.write('WAVE', 8, 'latin1');
+      const flac = Buffer.concat([Buffer.from('fLaC', 'latin1'), Buffer.alloc(100)]);
+
+      const response = await request(app)
+        .post('/batch')
+        .attach('files', wav, {
+          filename: 'a.wav',
+          contentType: 'application/octet-stream',
+        })
+        .attach('files', flac, 'b.mp3');
+
+      expect(response.status).toBe(200);
+      expect(
+        batchBody(response).results.map((result) => 'error' in result && result.error)
+      ).toEqual([
+        'Only MP3 files and zip or tar archives are allowed (detected WAV)',
+        'Only MP3 files and zip or tar archives are allowed (detected FLAC)',
+      ]);
+      expect(batchBody(response).summary).toMatchObject({ files: 2, succeeded: 0, failed: 2 });
+    });
+  });
+});
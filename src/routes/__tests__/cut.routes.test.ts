@@ -0,0 +1,135 @@
+import { describe, it, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCutRouter } from '../cut.routes';
+import { createErrorHandler } from '../../middleware/error.middleware';
+import { loadConfig } from '../../config/config';
+import { AppMetrics } from '../../metrics/metrics';
+import { analyzeBuffer } from '../../core/mp3-analyzer';
+import { openArchive } from '../../core/archive';
+import { createFrames } from '../../__tests__/helpers/fixtures';
+import { errorBody } from '../../__tests__/helpers/responses';
+
+const config = loadConfig({});
+const metrics = new AppMetrics(config.uploadsDir);
+const app = express();
+app.use(createCutRouter(config.routes.cut, config, metrics));
+app.use(createErrorHandler(metrics));
+
+describe('Cut Routes', () => {
+  const cut = (query: string, data: Buffer = createFrames(100)) =>
+    request(app).post(`/cut${query}`).attach('file', data, 'episode.mp3').responseType('blob');
+
+  describe('POST /cut', () => {
+    it('should return 400 if no file is uploaded', async () => {
+      const response = await request(app).post('/cut?startFrame=0');
+
+      expect(response.status).toBe(400);
+      expect(errorBody(response).error).toBe('No file uploaded');
+    });
+
+    it('should return the frames in a frame range as an MP3', async () => {
+      const response = await cut('?startFrame=10&endFrame=40');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('audio/mpeg');
+      expect(response.headers['content-disposition']).toContain('episode-cut.mp3');
+      expect(analyzeBuffer(response.body as Buffer)).toMatchObject({
+        frameCount: 30,
+        vbrHeader: { type: 'Info', frames: 30 },
+      });
+    });
+
+    it('should cut a time range', async () => {
+      const response = await cut('?startMs=1000');
+
+      expect(response.status).toBe(200);
+      expect(analyzeBuffer(response.body as Buffer).frameCount).toBe(100 - 38);
+    });
+
+    it('should keep the tags when asked', async () => {
+      const tag = Buffer.alloc(128);
+      tag.write('TAG', 0, 'latin1');
+      tag.write('Episode 1', 3, 'latin1');
+
+      const response = await cut(
+        '?startFrame=0&endFrame=5&tags=true',
+        Buffer.concat([createFrames(10), tag])
+      );
+
+      expect(analyzeBuffer(response.body as Buffer).trailingTags?.id3v1?.title).toBe('Episode 1');
+    });
+
+    it('should return the segments of a split in a zip archive', async () => {
+      const response = await cut('?segmentFrames=40');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/zip');
+      expect(response.headers['content-disposition']).toContain('episode-segments.zip');
+
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-cut-'));
+      const zipPath = path.join(dir, 'segments.zip');
+      fs.writeFileSync(zipPath, response.body as Buffer);
+      const { entries, close } = await openArchive(zipPath, 'zip', {
+        maxEntrySize: 1024 * 1024,
+        maxExtractedSize: 1024 * 1024,
+      });
+      try {
+        expect(entries.map((entry) => entry.name)).toEqual([
+          'episode-001.mp3',
+          'episode-002.mp3',
+          'episode-003.mp3',
+        ]);
+        const counts = await Promise.all(
+          entries.map(async (entry) => analyzeBuffer(await entry.read()).frameCount)
+        );
+        expect(counts).toEqual([40, 40, 20]);
+      } finally {
+        await close();
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it.each([
+      ['', 'Specify a frame range, a time range or a segment length'],
+      [
+        '?startFrame=1&startMs=10',
+        'Specify only one of a frame range, a time range or a segment length',
+      ],
+      ['?startFrame=1.5', 'startFrame must be a whole number of frames'],
+      ['?endMs=-1', 'endMs must be a non-negative number'],
+      ['?segmentMs=0', 'segmentMs must be greater than 0'],
+    ])('should return 400 for %s', async (query, message) => {
+      const response = await request(app)
+        .post(`/cut${query}`)
+        .attach('file', createFrames(100), 'episode.mp3');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ error: message, code: 'INVALID_REQUEST' });
+    });
+
+    it.each([
+      ['?startFrame=20&endFrame=10', 'The end of the range must be after its start'],
+      ['?startFrame=500', 'The file only has 100 frames'],
+    ])('should return 422 for %s', async (query, message) => {
+      const response = await request(app)
+        .post(`/cut${query}`)
+        .attach('file', createFrames(100), 'episode.mp3');
+
+      expect(response.status).toBe(422);
+      expect(response.body).toMatchObject({ error: message, code: 'INVALID_RANGE' });
+    });
+
+    it('should return 422 for a file without frames', async () => {
+      const response = await request(app)
+        .post('/cut?startFrame=0')
+        .attach('file', Buffer.alloc(1000), 'episode.mp3');
+
+      expect(response.status).toBe(422);
+      expect(errorBody(response).error).toBe('No valid MP3 frames found');
+    });
+  });
+});
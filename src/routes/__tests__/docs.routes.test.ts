@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import { createDocsRouter } from '../docs.routes';
+import { openApiDocument } from '../../openapi/openapi';
+
+describe('Docs Routes', () => {
+  const app = express();
+  app.use(createDocsRouter());
+
+  describe('GET /openapi.json', () => {
+    it('should serve the OpenAPI document', async () => {
+      const response = await request(app).get('/openapi.json');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^application\/json/);
+      expect(response.body).toEqual(openApiDocument);
+      expect(response.body).toHaveProperty('openapi', '3.1.0');
+    });
+  });
+
+  describe('GET /docs', () => {
+    it('should serve an HTML page describing every route and schema', async () => {
+      const response = await request(app).get('/docs');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/html/);
+      expect(response.text).toContain('<!DOCTYPE html>');
+      for (const path of Object.keys(openApiDocument.paths)) {
+        expect(response.text).toContain(`<code>${path}</code>`);
+      }
+      for (const name of Object.keys(openApiDocument.components.schemas)) {
+        expect(response.text).toContain(`id="schema-${name}"`);
+      }
+    });
+
+    it('should not load scripts or styles from elsewhere', async () => {
+      const response = await request(app).get('/docs');
+
+      expect(response.text).not.toMatch(/<script|<link/);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFrameIndexRouter } from '../frame-index.routes';
+import { createErrorHandler } from '../../middleware/error.middleware';
+import { loadConfig } from '../../config/config';
+import { AppMetrics } from '../../metrics/metrics';
+import { errorBody } from '../../__tests__/helpers/responses';
+
+const config = loadConfig({});
+const metrics = new AppMetrics(config.uploadsDir);
+const app = express();
+app.use(createFrameIndexRouter(config.routes.frameIndex, config, metrics));
+app.use(createErrorHandler(metrics));
+
+describe('Frame Index Routes', () => {
+  const frameSize = 417; // 128kbps, 44.1kHz, MPEG1 Layer III
+
+  const createMp3Buffer = (numFrames: number): Buffer => {
+    const buffer = Buffer.alloc(frameSize * numFrames);
+    for (let i = 0; i < numFrames; i++) {
+      const offset = i * frameSize;
+      buffer[offset] = 0xff;
+      buffer[offset + 1] = 0xfa;
+      buffer[offset + 2] = 0x90;
+      buffer[offset + 3] = 0xc0; // mono
+    }
+    return buffer;
+  };
+
+  describe('POST /frame-index', () => {
+    it('should return 400 if no file is uploaded', async () => {
+      const response = await request(app).post('/frame-index');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error');
+    });
+
+    it('should return 400 for an unknown format and delete the upload', async () => {
+      const uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-frame-index-'));
+      const ownApp = express();
+      ownApp.use(
+        createFrameIndexRouter(
+          config.routes.frameIndex,
+          { uploadsDir, allowedMimetypes: config.allowedMimetypes },
+          metrics
+        )
+      );
+      ownApp.use(createErrorHandler(metrics));
+
+      try {
+        const response = await request(ownApp)
+          .post('/frame-index?format=xml')
+          .attach('file', createMp3Buffer(2), 'test.mp3');
+
+        expect(response.status).toBe(400);
+        expect(errorBody(response).error).toMatch(/Format must be one of/);
+        expect(fs.readdirSync(uploadsDir)).toEqual([]);
+      } finally {
+        fs.rmSync(uploadsDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should return 422 when the file has no frames', async () => {
+      const response = await request(app)
+        .post('/frame-index')
+        .attach('file', Buffer.alloc(1000), 'silence.mp3');
+
+      expect(response.status).toBe(422);
+      expect(errorBody(response).error).toBe('No valid MP3 frames found');
+    });
+
+    it('should stream one NDJSON line per frame', async () => {
+      const response = await request(app)
+        .post('/frame-index')
+        .attach('file', createMp3Buffer(3), 'test.mp3');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/application\/x-ndjson/);
+
+      const lines = response.text
+        .trim()
+        .split('\n')
+        .map((line): unknown => JSON.parse(line));
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toEqual({
+        offset: frameSize,
+        size: frameSize,
+        bitrate: 128,
+        padding: false,
+        sampleRate: 44100,
+        channelMode: 'mono',
+        timestampMs: (1152 / 44100) * 1000,
+      });
+    });
+
+    it('should return CSV with a header row', async () => {
+      const response = await request(app)
+        .post('/frame-index?format=csv')
+        .attach('file', createMp3Buffer(2), 'test.mp3');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/text\/csv/);
+
+      const rows = response.text.trim().split('\n');
+      expect(rows[0]).toBe('offset,size,bitrate,padding,sampleRate,channelMode,timestampMs');
+      expect(rows[1]).toBe('0,417,128,0,44100,mono,0');
+      expect(rows).toHaveLength(3);
+    });
+
+    it('should return fixed-size binary records', async () => {
+      const response = await request(app)
+        .post('/frame-index?format=binary')
+        .attach('file', createMp3Buffer(4), 'test.mp3')
+        // Buffers the body whatever its content type
+        .responseType('blob');
+
+      expect(response.status).toBe(200);
+      const body = response.body as Buffer;
+      expect(body.length).toBe(4 * 20);
+
+      const record = body.subarray(40, 60);
+      expect(record.readUInt32BE(0)).toBe(2 * frameSize);
+      expect(record.readUInt16BE(4)).toBe(frameSize);
+      expect(record.readUInt16BE(6)).toBe(128);
+      expect(record.readUInt16BE(8)).toBe(44100);
+      expect(record.readUInt8(10)).toBe(3 << 1); // mono, no padding
+      expect(record.readDoubleBE(12)).toBeCloseTo(((2 * 1152) / 44100) * 1000);
+    });
+  });
+});
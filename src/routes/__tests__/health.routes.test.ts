@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import * as os from 'os';
+import { createHealthRouter } from '../health.routes';
+import { createErrorHandler } from '../../middleware/error.middleware';
+import { AppMetrics } from '../../metrics/metrics';
+import { ReadinessResponse } from '../../types';
+import { errorBody } from '../../__tests__/helpers/responses';
+
+describe('Health Routes', () => {
+  const createApp = (getReadiness: () => Promise<ReadinessResponse>) => {
+    const app = express();
+    app.use(createHealthRouter(getReadiness));
+    app.use(createErrorHandler(new AppMetrics(os.tmpdir())));
+    return app;
+  };
+
+  const readiness = (ok: boolean): ReadinessResponse => ({
+    ready: ok,
+    checks: [{ name: 'diskSpace', ok }],
+  });
+
+  describe('GET /health', () => {
+    it('should answer OK', async () => {
+      const response = await request(createApp(() => Promise.resolve(readiness(false)))).get(
+        '/health'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('OK');
+    });
+  });
+
+  describe('GET /ready', () => {
+    it('should answer 200 when every check passes', async () => {
+      const response = await request(createApp(() => Promise.resolve(readiness(true)))).get(
+        '/ready'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(readiness(true));
+    });
+
+    it('should answer 503 when a check fails', async () => {
+      const response = await request(createApp(() => Promise.resolve(readiness(false)))).get(
+        '/ready'
+      );
+
+      expect(response.status).toBe(503);
+      expect(response.body).toEqual(readiness(false));
+    });
+
+    it('should pass errors to the error handler', async () => {
+      const response = await request(
+        createApp(() => Promise.reject(new Error('statfs failed')))
+      ).get('/ready');
+
+      expect(response.status).toBe(500);
+      expect(errorBody(response).code).toBe('INTERNAL');
+    });
+  });
+});
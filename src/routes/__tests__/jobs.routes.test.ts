@@ -0,0 +1,155 @@
+import { describe, it, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createJobsRouter } from '../jobs.routes';
+import { JobRunner } from '../../jobs/job-runner';
+import { InMemoryJobStore } from '../../jobs/job-store';
+import { createErrorHandler } from '../../middleware/error.middleware';
+import { loadConfig } from '../../config/config';
+import { AppMetrics } from '../../metrics/metrics';
+import { Job } from '../../types';
+import { FRAME_SIZE, createFrames } from '../../__tests__/helpers/fixtures';
+import { errorBody, jobBody } from '../../__tests__/helpers/responses';
+
+const config = loadConfig({});
+const metrics = new AppMetrics(config.uploadsDir);
+const app = express();
+app.use(
+  createJobsRouter(new JobRunner(new InMemoryJobStore()), config.routes.jobs, config, metrics)
+);
+app.use(createErrorHandler(metrics));
+
+describe('Jobs Routes', () => {
+  // Polls the job until it has finished
+  const waitForJob = async (id: string): Promise<Job> => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const response = await request(app).get(`/jobs/${id}`);
+      const job = response.body as Job;
+      if (job.state === 'done' || job.state === 'failed') {
+        return job;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Job did not finish');
+  };
+
+  describe('POST /jobs', () => {
+    it('should return 400 if no file is uploaded', async () => {
+      const response = await request(app).post('/jobs');
+
+      expect(response.status).toBe(400);
+      expect(errorBody(response).error).toBe('No file uploaded');
+    });
+
+    it('should accept the file and return the queued job', async () => {
+      const response = await request(app).post('/jobs').attach('file', createFrames(10), 'a.mp3');
+
+      expect(response.status).toBe(202);
+      expect(response.body).toMatchObject({
+        state: 'queued',
+        progress: 0,
+        bytesParsed: 0,
+        totalBytes: 10 * FRAME_SIZE,
+      });
+      expect(response.headers.location).toBe(`/jobs/${jobBody(response).id}`);
+    });
+
+    it('should return 400 for invalid parser options', async () => {
+      const response = await request(app)
+        .post('/jobs?crcFailureThreshold=2')
+        .attach('file', createFrames(1), 'a.mp3');
+
+      expect(response.status).toBe(400);
+      expect(errorBody(response).error).toBe(
+        'crcFailureThreshold must be a number between 0 and 1'
+      );
+    });
+
+    it('should return 503 and delete the upload when the queue is full', async () => {
+      const uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-jobs-'));
+      // Runs nothing, so the first job waits in the only place in the queue
+      const runner = new JobRunner(new InMemoryJobStore(), 0, 1000, 0, 1);
+      const fullApp = express();
+      fullApp.use(
+        createJobsRouter(
+          runner,
+          config.routes.jobs,
+          { uploadsDir, allowedMimetypes: config.allowedMimetypes },
+          metrics
+        )
+      );
+      fullApp.use(createErrorHandler(metrics));
+
+      try {
+        const queued = await request(fullApp)
+          .post('/jobs')
+          .attach('file', createFrames(1), 'a.mp3');
+        const turnedAway = await request(fullApp)
+          .post('/jobs')
+          .attach('file', createFrames(1), 'b.mp3');
+
+        expect(queued.status).toBe(202);
+        expect(turnedAway.status).toBe(503);
+        expect(turnedAway.headers['retry-after']).toBe('5');
+        expect(errorBody(turnedAway).code).toBe('SERVER_BUSY');
+        expect(fs.readdirSync(uploadsDir)).toHaveLength(1);
+      } finally {
+        await runner.cancelAll();
+        fs.rmSync(uploadsDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('GET /jobs/:id', () => {
+    it('should report the result once the job is done', async () => {
+      const created = await request(app).post('/jobs').attach('file', createFrames(20), 'a.mp3');
+
+      const job = await waitForJob(jobBody(created).id);
+
+      expect(job).toMatchObject({
+        state: 'done',
+        progress: 100,
+        bytesParsed: 20 * FRAME_SIZE,
+        result: { frameCount: 20 },
+      });
+    });
+
+    it('should report a failed job with its error', async () => {
+      const created = await request(app).post('/jobs').attach('file', Buffer.alloc(1000), 'a.mp3');
+
+      const job = await waitForJob(jobBody(created).id);
+
+      expect(job.state).toBe('failed');
+      expect(job.error).toBe('No valid MP3 frames found');
+      expect(job.errorCode).toBe('NO_FRAMES');
+      expect(job.result).toBeUndefined();
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app).get('/jobs/unknown');
+
+      expect(response.status).toBe(404);
+      expect(errorBody(response).error).toBe('Job not found');
+    });
+  });
+
+  describe('DELETE /jobs/:id', () => {
+    it('should forget the job', async () => {
+      const created = await request(app).post('/jobs').attach('file', createFrames(5), 'a.mp3');
+
+      const response = await request(app).delete(`/jobs/${jobBody(created).id}`);
+
+      expect(response.status).toBe(204);
+      expect((await request(app).get(`/jobs/${jobBody(created).id}`)).status).toBe(404);
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app).delete('/jobs/unknown');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
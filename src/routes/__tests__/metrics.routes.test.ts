@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import * as os from 'os';
+import { createMetricsRouter } from '../metrics.routes';
+import { createUploadRouter } from '../upload.routes';
+import { createRequestMetrics } from '../../middleware/metrics.middleware';
+import { createErrorHandler } from '../../middleware/error.middleware';
+import { loadConfig } from '../../config/config';
+import { AppMetrics } from '../../metrics/metrics';
+import { createFrames } from '../../__tests__/helpers/fixtures';
+
+describe('Metrics Routes', () => {
+  const config = loadConfig({});
+
+  const createApp = (metrics: AppMetrics) => {
+    const app = express();
+    app.use(createRequestMetrics(metrics));
+    app.use(createUploadRouter('disk', config.routes.upload, null, config, metrics));
+    app.use(createMetricsRouter(metrics));
+    app.use(createErrorHandler(metrics));
+    return app;
+  };
+
+  describe('GET /metrics', () => {
+    it('should serve the metrics in the Prometheus text format', async () => {
+      const response = await request(createApp(new AppMetrics(os.tmpdir()))).get('/metrics');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/plain;.* version=0\.0\.4/);
+      expect(response.text).toContain('# TYPE http_requests_total counter');
+      expect(response.text).toContain('# TYPE mp3_parse_duration_seconds histogram');
+    });
+
+    it('should count requests by route and status, and upload sizes', async () => {
+      const metrics = new AppMetrics(os.tmpdir());
+      const app = createApp(metrics);
+
+      await request(app).post('/file-upload').attach('file', createFrames(2), 'a.mp3');
+      await request(app).post('/file-upload');
+      await request(app).get('/unknown/path');
+      const response = await request(app).get('/metrics');
+
+      expect(response.text).toContain(
+        'http_requests_total{method="POST",route="/file-upload",status="200"} 1'
+      );
+      expect(response.text).toContain(
+        'http_requests_total{method="POST",route="/file-upload",status="400"} 1'
+      );
+      expect(response.text).toContain(
+        'http_requests_total{method="GET",route="unmatched",status="404"} 1'
+      );
+      expect(response.text).toContain('\nmp3_upload_size_bytes_sum 834\n');
+    });
+  });
+});
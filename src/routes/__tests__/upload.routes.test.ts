@@ -1,12 +1,22 @@
 import { describe, it, expect } from '@jest/globals';
 import request from 'supertest';
 import express from 'express';
-import uploadRoutes from '../upload.routes';
-import { errorHandler } from '../../middleware/error.middleware';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createUploadRouter } from '../upload.routes';
+import { createErrorHandler } from '../../middleware/error.middleware';
+import { LruAnalysisCache } from '../../cache/analysis-cache';
+import { loadConfig } from '../../config/config';
+import { AppMetrics } from '../../metrics/metrics';
+import { analysisBody, errorBody } from '../../__tests__/helpers/responses';
 
+const config = loadConfig({});
+const metrics = new AppMetrics(config.uploadsDir);
 const app = express();
-app.use(uploadRoutes);
-app.use(errorHandler);
+app.use(createUploadRouter('disk', config.routes.upload, null, config, metrics));
+app.use(createErrorHandler(metrics));
 
 describe('Upload Routes', () => {
   const createValidMp3Buffer = (): Buffer => {
@@ -38,12 +48,12 @@ describe('Upload Routes', () => {
       expect(response.body).toHaveProperty('error');
     });
 
-    it('should return 400 if non-MP3 file is uploaded', async () => {
+    it('should return 415 if non-MP3 file is uploaded', async () => {
       const response = await request(app)
         .post('/file-upload')
         .attach('file', Buffer.from('not an mp3'), 'test.txt');
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(415);
       expect(response.body).toHaveProperty('error');
     });
 
@@ -57,8 +67,33 @@ describe('Upload Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('frameCount');
-      expect(typeof response.body.frameCount).toBe('number');
-      expect(response.body.frameCount).toBeGreaterThan(0);
+      expect(typeof analysisBody(response).frameCount).toBe('number');
+      expect(analysisBody(response).frameCount).toBeGreaterThan(0);
+    });
+
+    it('should accept an MP3 sent as application/octet-stream', async () => {
+      const response = await request(app)
+        .post('/file-upload')
+        .attach('file', createValidMp3Buffer(), {
+          filename: 'test.bin',
+          contentType: 'application/octet-stream',
+        });
+
+      expect(response.status).toBe(200);
+      expect(analysisBody(response).frameCount).toBe(1);
+    });
+
+    it('should name the format of a renamed WAV file', async () => {
+      const wav = Buffer.alloc(44);
+      wav.write('RIFF', 0, 'latin1');
+      wav.write('WAVEfmt ', 8, 'latin1');
+
+      const response = await request(app)
+        .post('/file-upload')
+        .attach('file', wav, { filename: 'song.mp3', contentType: 'audio/mpeg' });
+
+      expect(response.status).toBe(415);
+      expect(errorBody(response).error).toBe('Only MP3 files are allowed (detected WAV)');
     });
 
     it('should reject file that is too large', async () => {
@@ -70,11 +105,11 @@ describe('Upload Routes', () => {
         .attach('file', largeBuffer, 'large.mp3')
         .set('Content-Type', 'multipart/form-data');
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(413);
       expect(response.body).toHaveProperty('error');
     });
 
-    it('should return 400 for empty MP3 file', async () => {
+    it('should return 422 for empty MP3 file', async () => {
       const emptyBuffer = Buffer.alloc(0);
 
       const response = await request(app)
@@ -82,7 +117,7 @@ describe('Upload Routes', () => {
         .attach('file', emptyBuffer, 'empty.mp3')
         .set('Content-Type', 'multipart/form-data');
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(422);
       expect(response.body).toHaveProperty('error');
     });
 
@@ -106,7 +141,269 @@ describe('Upload Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('frameCount');
-      expect(response.body.frameCount).toBe(numFrames);
+      expect(analysisBody(response).frameCount).toBe(numFrames);
+      expect(analysisBody(response).frameCountMismatch).toBe(false);
+      expect(analysisBody(response).durationMs).toBe(
+        Math.round(((numFrames * 1152) / 44100) * 1000)
+      );
+      expect(analysisBody(response).bitrate).toEqual({
+        average: 128,
+        min: 128,
+        max: 128,
+        mode: 'CBR',
+      });
+      expect(analysisBody(response).sampleRate).toBe(44100);
+      expect(analysisBody(response).channelMode).toBe('stereo');
+      expect(analysisBody(response).mpegVersion).toBe('1');
+      expect(analysisBody(response).layer).toBe(3);
+      expect(analysisBody(response).audioBytes).toBe(frameSize * numFrames);
+    });
+
+    it('should report CRC failures on protected frames', async () => {
+      // Frames from createValidMp3Buffer are protected but carry a zero CRC
+      const buffer = Buffer.concat([createValidMp3Buffer(), createValidMp3Buffer()]);
+
+      const response = await request(app)
+        .post('/file-upload')
+        .attach('file', buffer, 'corrupt.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(200);
+      expect(analysisBody(response).crc).toEqual({
+        protectedFrames: 2,
+        passed: 0,
+        failed: 2,
+        unchecked: 0,
+        failedOffsets: [0, 417],
+      });
+    });
+
+    it('should reject corrupted frames in strict mode', async () => {
+      const buffer = Buffer.concat([createValidMp3Buffer(), createValidMp3Buffer()]);
+
+      const response = await request(app)
+        .post('/file-upload?strict=true')
+        .attach('file', buffer, 'corrupt.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(422);
+      expect(response.body).toMatchObject({
+        error: '2 of 2 protected frames failed the CRC check',
+        code: 'CORRUPTED_FRAMES',
+        details: { offset: 0 },
+      });
+    });
+
+    it('should return 400 for an invalid CRC failure threshold', async () => {
+      const response = await request(app)
+        .post('/file-upload?strict=true&crcFailureThreshold=2')
+        .attach('file', createValidMp3Buffer(), 'test.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(400);
+      expect(errorBody(response).error).toMatch(/crcFailureThreshold/);
+    });
+
+    it('should return 400 for an empty CRC failure threshold', async () => {
+      const response = await request(app)
+        .post('/file-upload?strict=true&crcFailureThreshold=')
+        .attach('file', createValidMp3Buffer(), 'test.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(400);
+      expect(errorBody(response).error).toMatch(/crcFailureThreshold/);
+    });
+
+    it('should report silence using the thresholds from the query string', async () => {
+      const response = await request(app)
+        .post('/file-upload?silenceThresholdDb=-40&minSilenceMs=100')
+        .attach('file', createValidMp3Buffer(), 'test.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(200);
+      expect(analysisBody(response).silence).toMatchObject({ thresholdDb: -40, internal: [] });
+    });
+
+    it('should return 400 for an invalid silence threshold', async () => {
+      const response = await request(app)
+        .post('/file-upload?silenceThresholdDb=3')
+        .attach('file', createValidMp3Buffer(), 'test.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(400);
+      expect(errorBody(response).error).toBe(
+        'silenceThresholdDb must be a number of dB no greater than 0'
+      );
+    });
+
+    it('should delete the upload when the query string is invalid', async () => {
+      const uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mp3-upload-'));
+      const ownApp = express();
+      ownApp.use(
+        createUploadRouter(
+          'disk',
+          config.routes.upload,
+          null,
+          { uploadsDir, allowedMimetypes: config.allowedMimetypes },
+          metrics
+        )
+      );
+      ownApp.use(createErrorHandler(metrics));
+
+      try {
+        for (const query of ['strict=true&crcFailureThreshold=2', 'silenceThresholdDb=3']) {
+          const response = await request(ownApp)
+            .post(`/file-upload?${query}`)
+            .attach('file', createValidMp3Buffer(), 'test.mp3');
+
+          expect(response.status).toBe(400);
+        }
+        expect(fs.readdirSync(uploadsDir)).toEqual([]);
+      } finally {
+        fs.rmSync(uploadsDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('POST /file-upload with stream storage', () => {
+    const streamApp = express();
+    streamApp.use(createUploadRouter('stream', config.routes.upload, null, config, metrics));
+    streamApp.use(createErrorHandler(metrics));
+
+    const uploadsDir = path.join(process.cwd(), 'uploads');
+
+    it('should analyse the upload without writing it to disk', async () => {
+      const buffer = Buffer.concat([createValidMp3Buffer(), createValidMp3Buffer()]);
+      const filesBefore = fs.readdirSync(uploadsDir);
+
+      const response = await request(streamApp)
+        .post('/file-upload')
+        .attach('file', buffer, 'test.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(200);
+      expect(analysisBody(response).frameCount).toBe(2);
+      expect(analysisBody(response).crc.failedOffsets).toEqual([0, 417]);
+      expect(fs.readdirSync(uploadsDir)).toEqual(filesBefore);
+    });
+
+    it('should return parser errors from the upload', async () => {
+      const response = await request(streamApp)
+        .post('/file-upload?strict=true')
+        .attach('file', createValidMp3Buffer(), 'corrupt.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(422);
+      expect(errorBody(response).error).toBe('1 of 1 protected frames failed the CRC check');
+    });
+
+    it('should return 422 when the file has no frames', async () => {
+      const response = await request(streamApp)
+        .post('/file-upload')
+        .attach('file', Buffer.alloc(1000), 'silence.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(422);
+      expect(errorBody(response).error).toBe('No valid MP3 frames found');
+    });
+
+    it('should reject other formats before parsing them', async () => {
+      const flac = Buffer.concat([Buffer.from('fLaC', 'latin1'), Buffer.alloc(100)]);
+
+      const response = await request(streamApp)
+        .post('/file-upload')
+        .attach('file', flac, 'song.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(415);
+      expect(errorBody(response).error).toBe('Only MP3 files are allowed (detected FLAC)');
+    });
+
+    it('should reject file that is too large', async () => {
+      const response = await request(streamApp)
+        .post('/file-upload')
+        .attach('file', Buffer.alloc(11 * 1024 * 1024), 'large.mp3')
+        .set('Content-Type', 'multipart/form-data');
+
+      expect(response.status).toBe(413);
+      expect(errorBody(response).error).toBe('File is too large');
+    });
+  });
+
+  describe('POST /file-upload with a cache', () => {
+    const createCachingApp = () => {
+      const cacheApp = express();
+      cacheApp.use(
+        createUploadRouter(
+          'disk',
+          config.routes.upload,
+          new LruAnalysisCache({ maxEntries: 10, ttlMs: 60_000 }),
+          config,
+          metrics
+        )
+      );
+      cacheApp.use(createErrorHandler(metrics));
+      return cacheApp;
+    };
+
+    const buffer = Buffer.concat([createValidMp3Buffer(), createValidMp3Buffer()]);
+    const hash = createHash('sha256').update(buffer).digest('hex');
+
+    it('should return the hash of the upload and answer a repeat from the cache', async () => {
+      const cacheApp = createCachingApp();
+
+      const first = await request(cacheApp).post('/file-upload').attach('file', buffer, 'a.mp3');
+      const second = await request(cacheApp).post('/file-upload').attach('file', buffer, 'b.mp3');
+
+      expect(first.status).toBe(200);
+      expect(first.body).toMatchObject({ hash, cached: false, frameCount: 2 });
+      expect(first.headers['etag']).toBe(`"${hash}"`);
+      expect(second.status).toBe(200);
+      expect(second.body).toEqual({ ...first.body, cached: true });
+    });
+
+    it('should not answer with an analysis made with other options', async () => {
+      const cacheApp = createCachingApp();
+      await request(cacheApp).post('/file-upload').attach('file', buffer, 'a.mp3');
+
+      const response = await request(cacheApp)
+        .post('/file-upload?strict=true')
+        .attach('file', buffer, 'a.mp3');
+
+      expect(response.status).toBe(422);
+    });
+
+    it('should answer 304 without an upload when the If-None-Match hash is cached', async () => {
+      const cacheApp = createCachingApp();
+      await request(cacheApp).post('/file-upload').attach('file', buffer, 'a.mp3');
+
+      const response = await request(cacheApp)
+        .post('/file-upload')
+        .set('If-None-Match', `"${hash}"`);
+
+      expect(response.status).toBe(304);
+      expect(response.headers['etag']).toBe(`"${hash}"`);
+    });
+
+    it('should expect the upload when the If-None-Match hash is not cached', async () => {
+      const response = await request(createCachingApp())
+        .post('/file-upload')
+        .set('If-None-Match', `"${hash}"`)
+        .attach('file', buffer, 'a.mp3');
+
+      expect(response.status).toBe(200);
+      expect(analysisBody(response).cached).toBe(false);
+    });
+
+    it('should hash uploads analysed as they arrive', async () => {
+      const streamApp = express();
+      streamApp.use(createUploadRouter('stream', config.routes.upload, null, config, metrics));
+
+      const response = await request(streamApp)
+        .post('/file-upload')
+        .attach('file', buffer, 'a.mp3');
+
+      expect(response.body).toMatchObject({ hash, cached: false });
     });
   });
 });
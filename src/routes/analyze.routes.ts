@@ -0,0 +1,157 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Transform } from 'stream';
+import { Mp3AnalysisStream } from '../core/mp3-analysis-stream';
+import { SNIFF_SIZE, describeFormat, sniffFormat } from '../core/format-sniffer';
+import { withParseTimeout } from '../core/parse-timeout';
+import { UPLOAD_CONFIG } from '../config/constants';
+import { RouteLimits } from '../config/config';
+import { AppMetrics } from '../metrics/metrics';
+import {
+  ErrorResponse,
+  FileTooLargeError,
+  InvalidMp3Error,
+  InvalidRequestError,
+  Mp3Analysis,
+  ParserOptions,
+  UnsupportedFormatError,
+} from '../types';
+import { getParserOptions } from './parser-options';
+
+/**
+ * Holds back the start of the body until its format can be told from it, and fails
+ * with an UnsupportedFormatError when it is another audio format. Content that isn't
+ * recognised is let through for the parser to judge, as the content type allowed it.
+ */
+const createFormatCheck = (): Transform => {
+  const head: Buffer[] = [];
+  let headSize = 0;
+  let isChecked = false;
+
+  const check = (): Error | null => {
+    isChecked = true;
+    const format = sniffFormat(Buffer.concat(head));
+    return format === 'mp3' || format === 'unknown'
+      ? null
+      : new UnsupportedFormatError(
+          `Only MP3 files are allowed (detected ${describeFormat(format)})`
+        );
+  };
+
+  return new Transform({
+    transform: (chunk: Buffer, _encoding, callback) => {
+      if (isChecked) {
+        callback(null, chunk);
+        return;
+      }
+      head.push(chunk);
+      headSize += chunk.length;
+      if (headSize < SNIFF_SIZE) {
+        callback();
+        return;
+      }
+      const error = check();
+      callback(error, error ? undefined : Buffer.concat(head));
+    },
+    flush: (callback) => {
+      if (isChecked) {
+        callback();
+        return;
+      }
+      // A body shorter than the sniffed size is checked once it ends
+      const error = check();
+      callback(error, error || headSize === 0 ? undefined : Buffer.concat(head));
+    },
+  });
+};
+
+/**
+ * Streams the request body into the parser, once its first bytes show it isn't another
+ * audio format. Bodies over `maxFileSize` are rejected as soon as they pass it; the rest
+ * of the body is read and discarded so that the error response can still be delivered.
+ */
+const analyzeBody = (
+  req: Request,
+  options: ParserOptions,
+  maxFileSize: number,
+  metrics: AppMetrics
+): Promise<Mp3Analysis> =>
+  new Promise((resolve, reject) => {
+    const formatCheck = createFormatCheck();
+    const analysisStream = new Mp3AnalysisStream(options);
+    let size = 0;
+
+    const fail = (error: Error) => {
+      req.unpipe(formatCheck);
+      formatCheck.destroy();
+      analysisStream.destroy();
+      req.resume();
+      reject(error);
+    };
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxFileSize) {
+        fail(new FileTooLargeError(undefined, { limit: maxFileSize }));
+      }
+    });
+    req.on('error', (error) => fail(new InvalidMp3Error(`Error reading file: ${error.message}`)));
+    formatCheck.on('error', fail);
+
+    analysisStream.on('finish', () => {
+      metrics.recordUpload(size);
+      resolve(analysisStream.analysis);
+    });
+    analysisStream.on('error', (error) =>
+      reject(size === 0 ? new InvalidMp3Error('File is empty') : error)
+    );
+
+    req.pipe(formatCheck).pipe(analysisStream);
+  });
+
+/**
+ * Builds the raw-body analysis routes.
+ */
+export const createAnalyzeRouter = (limits: RouteLimits, metrics: AppMetrics): Router => {
+  const router = Router();
+
+  const handleAnalyze = async (
+    req: Request,
+    res: Response<Mp3Analysis | ErrorResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      // Neither a length nor chunked encoding means there is no body
+      const contentLength = Number(req.headers['content-length'] ?? 0);
+      if (contentLength === 0 && req.headers['transfer-encoding'] === undefined) {
+        throw new InvalidRequestError('No file uploaded', 'NO_FILE');
+      }
+
+      const allowedTypes: string[] = [...UPLOAD_CONFIG.RAW_BODY_MIMETYPES];
+      if (!req.is(allowedTypes)) {
+        throw new UnsupportedFormatError('Only MP3 files are allowed');
+      }
+
+      if (contentLength > limits.maxFileSize) {
+        throw new FileTooLargeError(undefined, { limit: limits.maxFileSize });
+      }
+
+      const analysis = await withParseTimeout(
+        metrics.withParseMetrics(getParserOptions(req)),
+        limits.parseTimeoutMs,
+        (options) => analyzeBody(req, options, limits.maxFileSize, metrics)
+      );
+
+      res.status(200).json(analysis);
+    } catch (error) {
+      // Discard any unread body so the error response can be delivered
+      req.resume();
+      next(error);
+    }
+  };
+
+  // The MP3 is the request body itself, sent with a fixed length or chunked
+  router.post('/analyze', handleAnalyze);
+  router.put('/analyze', handleAnalyze);
+
+  return router;
+};
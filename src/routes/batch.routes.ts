@@ -0,0 +1,60 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import * as fs from 'fs';
+import { createBatchUpload, UploadSettings } from '../middleware/upload.middleware';
+import { analyzeBatch } from '../core/batch';
+import { withParseTimeout } from '../core/parse-timeout';
+import { BatchRouteLimits } from '../config/config';
+import { AppMetrics } from '../metrics/metrics';
+import { BatchResponse, ErrorResponse, InvalidRequestError } from '../types';
+import { getParserOptions } from './parser-options';
+
+/**
+ * Builds the batch route, with `limits` applying to each uploaded file or archive.
+ */
+export const createBatchRouter = (
+  limits: BatchRouteLimits,
+  uploads: UploadSettings,
+  metrics: AppMetrics
+): Router => {
+  const router = Router();
+
+  router.post(
+    '/batch',
+    createBatchUpload(limits, uploads).array('files'),
+    async (req: Request, res: Response<BatchResponse | ErrorResponse>, next: NextFunction) => {
+      const files = Array.isArray(req.files) ? req.files : [];
+
+      try {
+        if (files.length === 0) {
+          throw new InvalidRequestError('No files uploaded', 'NO_FILE');
+        }
+
+        const batch = await withParseTimeout(
+          metrics.withParseMetrics(getParserOptions(req)),
+          limits.parseTimeoutMs,
+          (options) =>
+            analyzeBatch(
+              files.map(({ originalname: name, path, rejection }) =>
+                rejection ? { name, rejection } : { name, path }
+              ),
+              options,
+              limits
+            )
+        );
+
+        res.status(200).json(batch);
+      } catch (error) {
+        next(error);
+      } finally {
+        // Clean up the uploaded files
+        for (const file of files) {
+          if (fs.existsSync(file.path)) {
+            fs.unlinkSync(file.path);
+          }
+        }
+      }
+    }
+  );
+
+  return router;
+};
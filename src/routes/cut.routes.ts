@@ -0,0 +1,154 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createUpload, UploadSettings } from '../middleware/upload.middleware';
+import { withParseTimeout } from '../core/parse-timeout';
+import { RouteLimits } from '../config/config';
+import { AppMetrics } from '../metrics/metrics';
+import { createZip } from '../core/archive';
+import { CutRange, RangeUnit, cutMp3, readMp3Source, splitMp3 } from '../core/mp3-cut';
+import { ErrorResponse, InvalidRequestError } from '../types';
+import { getParserOptions } from './parser-options';
+
+type CutRequest =
+  | { mode: 'cut'; range: CutRange }
+  | { mode: 'split'; unit: RangeUnit; length: number };
+
+const PARAMETER_GROUPS = {
+  frameRange: ['startFrame', 'endFrame'],
+  timeRange: ['startMs', 'endMs'],
+  frameSegments: ['segmentFrames'],
+  timeSegments: ['segmentMs'],
+} as const;
+
+// A query parameter as a non-negative number, or an integer for frame counts
+const getNumber = (req: Request, name: string, unit: RangeUnit): number | undefined => {
+  const value = req.query[name];
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (value === '' || isNaN(number) || number < 0) {
+    throw new InvalidRequestError(`${name} must be a non-negative number`);
+  }
+  if (unit === 'frames' && !Number.isInteger(number)) {
+    throw new InvalidRequestError(`${name} must be a whole number of frames`);
+  }
+  return number;
+};
+
+const getSegmentLength = (req: Request, name: string, unit: RangeUnit): number => {
+  const length = getNumber(req, name, unit) as number;
+  if (length === 0) {
+    throw new InvalidRequestError(`${name} must be greater than 0`);
+  }
+  return length;
+};
+
+/**
+ * What to cut, from the query string: a frame range (?startFrame=&endFrame=), a time
+ * range in milliseconds (?startMs=&endMs=) or segments of a fixed length to split into
+ * (?segmentFrames= or ?segmentMs=).
+ */
+const getCutRequest = (req: Request): CutRequest => {
+  const groups = Object.entries(PARAMETER_GROUPS).filter(([, names]) =>
+    names.some((name) => req.query[name] !== undefined)
+  );
+
+  if (groups.length === 0) {
+    throw new InvalidRequestError('Specify a frame range, a time range or a segment length');
+  }
+  if (groups.length > 1) {
+    throw new InvalidRequestError(
+      'Specify only one of a frame range, a time range or a segment length'
+    );
+  }
+
+  switch (groups[0]?.[0]) {
+    case 'frameSegments':
+      return {
+        mode: 'split',
+        unit: 'frames',
+        length: getSegmentLength(req, 'segmentFrames', 'frames'),
+      };
+    case 'timeSegments':
+      return { mode: 'split', unit: 'ms', length: getSegmentLength(req, 'segmentMs', 'ms') };
+    case 'frameRange': {
+      const end = getNumber(req, 'endFrame', 'frames');
+      const start = getNumber(req, 'startFrame', 'frames') ?? 0;
+      return { mode: 'cut', range: { unit: 'frames', start, ...(end !== undefined && { end }) } };
+    }
+    default: {
+      const end = getNumber(req, 'endMs', 'ms');
+      const start = getNumber(req, 'startMs', 'ms') ?? 0;
+      return { mode: 'cut', range: { unit: 'ms', start, ...(end !== undefined && { end }) } };
+    }
+  }
+};
+
+/**
+ * Builds the trim and split route.
+ */
+export const createCutRouter = (
+  limits: RouteLimits,
+  uploads: UploadSettings,
+  metrics: AppMetrics
+): Router => {
+  const router = Router();
+
+  router.post(
+    '/cut',
+    createUpload(limits, uploads).single('file'),
+    async (req: Request, res: Response<Buffer | ErrorResponse>, next: NextFunction) => {
+      let filePath: string | undefined;
+
+      try {
+        if (!req.file) {
+          throw new InvalidRequestError('No file uploaded', 'NO_FILE');
+        }
+
+        filePath = req.file.path;
+        const cutRequest = getCutRequest(req);
+        const options = { keepTags: req.query.tags === 'true' };
+        const data = await fs.promises.readFile(filePath);
+        const source = await withParseTimeout(
+          metrics.withParseMetrics(getParserOptions(req)),
+          limits.parseTimeoutMs,
+          (parserOptions) => readMp3Source(data, parserOptions)
+        );
+        const baseName = path.basename(req.file.originalname, path.extname(req.file.originalname));
+
+        if (cutRequest.mode === 'cut') {
+          const mp3 = cutMp3(source, cutRequest.range, options);
+          res.status(200).type('audio/mpeg').attachment(`${baseName}-cut.mp3`).send(mp3);
+          return;
+        }
+
+        const segments = splitMp3(source, cutRequest.unit, cutRequest.length, options);
+        const digits = Math.max(3, String(segments.length).length);
+        const archive = createZip(
+          segments.map((data, index) => ({
+            name: `${baseName}-${String(index + 1).padStart(digits, '0')}.mp3`,
+            data,
+          }))
+        );
+
+        res
+          .status(200)
+          .type('application/zip')
+          .attachment(`${baseName}-segments.zip`)
+          .send(archive);
+      } catch (error) {
+        next(error);
+      } finally {
+        // Clean up the uploaded file
+        if (filePath && fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,22 @@
+import { Router, Request, Response } from 'express';
+import { openApiDocument } from '../openapi/openapi';
+import { renderDocsPage } from '../openapi/docs-page';
+
+/**
+ * Builds the routes that serve the OpenAPI document and a page rendering it.
+ */
+export const createDocsRouter = (): Router => {
+  const router = Router();
+  // Rendered once, since the document doesn't change while the server runs
+  const docsPage = renderDocsPage(openApiDocument);
+
+  router.get('/openapi.json', (req: Request, res: Response) => {
+    res.status(200).json(openApiDocument);
+  });
+
+  router.get('/docs', (req: Request, res: Response) => {
+    res.status(200).type('html').send(docsPage);
+  });
+
+  return router;
+};
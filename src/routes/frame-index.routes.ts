@@ -0,0 +1,145 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import * as fs from 'fs';
+import { createUpload, UploadSettings } from '../middleware/upload.middleware';
+import { StreamingMp3Parser } from '../core/streaming-mp3-parser';
+import { withParseTimeout } from '../core/parse-timeout';
+import { RouteLimits } from '../config/config';
+import { AppMetrics } from '../metrics/metrics';
+import { ChannelMode, ErrorResponse, FrameIndexEntry, InvalidRequestError } from '../types';
+
+const FORMATS = ['ndjson', 'csv', 'binary'] as const;
+
+type FrameIndexFormat = (typeof FORMATS)[number];
+
+const CONTENT_TYPES: Record<FrameIndexFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv',
+  binary: 'application/octet-stream',
+};
+
+const CSV_HEADER = 'offset,size,bitrate,padding,sampleRate,channelMode,timestampMs\n';
+
+const CHANNEL_MODES: ChannelMode[] = ['stereo', 'joint_stereo', 'dual_channel', 'mono'];
+
+// offset u32, size u16, bitrate u16, sample rate u16, flags u8, reserved u8, timestamp f64
+const BINARY_RECORD_SIZE = 20;
+
+const encodeEntry = (entry: FrameIndexEntry, format: FrameIndexFormat): string | Buffer => {
+  switch (format) {
+    case 'csv':
+      return (
+        [
+          entry.offset,
+          entry.size,
+          entry.bitrate,
+          entry.padding ? 1 : 0,
+          entry.sampleRate,
+          entry.channelMode,
+          entry.timestampMs,
+        ].join(',') + '\n'
+      );
+    case 'binary': {
+      const record = Buffer.alloc(BINARY_RECORD_SIZE);
+      record.writeUInt32BE(entry.offset, 0);
+      record.writeUInt16BE(entry.size, 4);
+      record.writeUInt16BE(entry.bitrate, 6);
+      record.writeUInt16BE(entry.sampleRate, 8);
+      // Bit 0: padding, bits 1-2: channel mode as in the frame header
+      record.writeUInt8(
+        (entry.padding ? 1 : 0) | (CHANNEL_MODES.indexOf(entry.channelMode) << 1),
+        10
+      );
+      record.writeDoubleBE(entry.timestampMs, 12);
+      return record;
+    }
+    default:
+      return JSON.stringify(entry) + '\n';
+  }
+};
+
+/**
+ * Resolves once the response can take more data, and rejects if the client goes
+ * away first so that parsing stops.
+ */
+const waitForDrain = (res: Response): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onDrain = () => {
+      res.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      res.off('drain', onDrain);
+      reject(new Error('Client disconnected'));
+    };
+
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+  });
+
+/**
+ * Builds the frame index route. Uploads are stored in the directory `uploads` names
+ * while their index is streamed back.
+ */
+export const createFrameIndexRouter = (
+  limits: RouteLimits,
+  uploads: UploadSettings,
+  metrics: AppMetrics
+): Router => {
+  const router = Router();
+
+  router.post(
+    '/frame-index',
+    createUpload(limits, uploads).single('file'),
+    async (req: Request, res: Response<ErrorResponse>, next: NextFunction) => {
+      let filePath: string | undefined;
+
+      try {
+        if (!req.file) {
+          throw new InvalidRequestError('No file uploaded', 'NO_FILE');
+        }
+        filePath = req.file.path;
+
+        const format = req.query.format ?? 'ndjson';
+        if (!FORMATS.some((value) => value === format)) {
+          throw new InvalidRequestError(`Format must be one of ${FORMATS.join(', ')}`);
+        }
+        const indexFormat = format as FrameIndexFormat;
+
+        const uploadPath = filePath;
+        // Headers are sent with the first frame, so a file without frames still gets
+        // a regular error response
+        await withParseTimeout(metrics.withParseMetrics({}), limits.parseTimeoutMs, (options) =>
+          new StreamingMp3Parser(uploadPath, options).analyze(async (entry) => {
+            if (!res.headersSent) {
+              res.status(200).type(CONTENT_TYPES[indexFormat]);
+              if (indexFormat === 'csv') {
+                res.write(CSV_HEADER);
+              }
+            }
+
+            if (!res.write(encodeEntry(entry, indexFormat))) {
+              await waitForDrain(res);
+            }
+          })
+        );
+
+        res.end();
+      } catch (error) {
+        if (res.headersSent) {
+          // The index is already partly sent; cut the response short so it isn't
+          // mistaken for a complete one
+          res.destroy();
+          return;
+        }
+        next(error);
+      } finally {
+        // Clean up the uploaded file
+        if (filePath && fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
+      }
+    }
+  );
+
+  return router;
+};
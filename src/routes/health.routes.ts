@@ -0,0 +1,29 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ReadinessResponse } from '../types';
+
+/**
+ * Builds the health check routes. /health only says the process is up, while /ready
+ * runs `getReadiness` and answers 503 when any of its checks fail, so a load balancer
+ * stops sending uploads.
+ */
+export const createHealthRouter = (getReadiness: () => Promise<ReadinessResponse>): Router => {
+  const router = Router();
+
+  router.get('/health', (req: Request, res: Response) => {
+    res.status(200).send('OK');
+  });
+
+  router.get(
+    '/ready',
+    async (req: Request, res: Response<ReadinessResponse>, next: NextFunction) => {
+      try {
+        const readiness = await getReadiness();
+        res.status(readiness.ready ? 200 : 503).json(readiness);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
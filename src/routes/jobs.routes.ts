@@ -0,0 +1,83 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import * as fs from 'fs';
+import { createUpload, UploadSettings } from '../middleware/upload.middleware';
+import { JobRunner } from '../jobs/job-runner';
+import { RouteLimits } from '../config/config';
+import { AppMetrics } from '../metrics/metrics';
+import { ErrorResponse, InvalidRequestError, Job, NotFoundError } from '../types';
+import { getParserOptions } from './parser-options';
+
+/**
+ * Builds the job routes. Uploads are analysed in the background by `runner`, and the
+ * client polls for the result.
+ */
+export const createJobsRouter = (
+  runner: JobRunner,
+  limits: RouteLimits,
+  uploads: UploadSettings,
+  metrics: AppMetrics
+) => {
+  const router = Router();
+
+  router.post(
+    '/jobs',
+    createUpload(limits, uploads).single('file'),
+    async (req: Request, res: Response<Job | ErrorResponse>, next: NextFunction) => {
+      try {
+        if (!req.file) {
+          throw new InvalidRequestError('No file uploaded', 'NO_FILE');
+        }
+
+        let job: Job;
+        try {
+          // The job owns the file from here on
+          job = await runner.submit(req.file.path, metrics.withParseMetrics(getParserOptions(req)));
+        } catch (error) {
+          fs.rmSync(req.file.path, { force: true });
+          throw error;
+        }
+
+        res.status(202).location(`/jobs/${job.id}`).json(job);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    '/jobs/:id',
+    async (
+      req: Request<{ id: string }>,
+      res: Response<Job | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const job = await runner.getJob(req.params.id);
+        if (!job) {
+          throw new NotFoundError('Job not found');
+        }
+
+        res.status(200).json(job);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    '/jobs/:id',
+    async (req: Request<{ id: string }>, res: Response<ErrorResponse>, next: NextFunction) => {
+      try {
+        if (!(await runner.cancel(req.params.id))) {
+          throw new NotFoundError('Job not found');
+        }
+
+        res.status(204).end();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,22 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AppMetrics } from '../metrics/metrics';
+
+// Version 0.0.4 of the Prometheus text exposition format; Express adds the charset
+const CONTENT_TYPE = 'text/plain; version=0.0.4';
+
+/**
+ * Builds the router that serves the metrics for Prometheus to scrape.
+ */
+export const createMetricsRouter = (appMetrics: AppMetrics): Router => {
+  const router = Router();
+
+  router.get('/metrics', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.type(CONTENT_TYPE).send(await appMetrics.registry.render());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
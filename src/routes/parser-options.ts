@@ -0,0 +1,41 @@
+import { Request } from 'express';
+import { InvalidRequestError, ParserOptions } from '../types';
+
+/**
+ * Parser options from the query string. ?strict=true fails the request when too many
+ * protected frames fail their CRC. ?silenceThresholdDb and ?minSilenceMs tune the
+ * silence report.
+ */
+export const getParserOptions = (req: Request): ParserOptions => {
+  const options: ParserOptions = { strict: req.query.strict === 'true' };
+
+  if (req.query.crcFailureThreshold !== undefined) {
+    const threshold = Number(req.query.crcFailureThreshold);
+    if (
+      req.query.crcFailureThreshold === '' ||
+      isNaN(threshold) ||
+      threshold < 0 ||
+      threshold > 1
+    ) {
+      throw new InvalidRequestError('crcFailureThreshold must be a number between 0 and 1');
+    }
+    options.crcFailureThreshold = threshold;
+  }
+
+  if (req.query.silenceThresholdDb !== undefined) {
+    const threshold = Number(req.query.silenceThresholdDb);
+    if (req.query.silenceThresholdDb === '' || isNaN(threshold) || threshold > 0) {
+      throw new InvalidRequestError('silenceThresholdDb must be a number of dB no greater than 0');
+    }
+    options.silenceThresholdDb = threshold;
+  }
+
+  if (req.query.minSilenceMs !== undefined) {
+    const minSilenceMs = Number(req.query.minSilenceMs);
+    if (req.query.minSilenceMs === '' || isNaN(minSilenceMs) || minSilenceMs < 0) {
+      throw new InvalidRequestError('minSilenceMs must be a non-negative number');
+    }
+    options.minSilenceMs = minSilenceMs;
+  }
+  return options;
+};
@@ -1,39 +1,119 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import * as fs from 'fs';
-import { upload } from '../middleware/upload.middleware';
+import { createAnalyzingUpload, UploadSettings } from '../middleware/upload.middleware';
 import { StreamingMp3Parser } from '../core/streaming-mp3-parser';
-import { UploadSuccessResponse, ErrorResponse } from '../types';
+import { withParseTimeout } from '../core/parse-timeout';
+import { AnalysisCache, getCacheKey } from '../cache/analysis-cache';
+import { RouteLimits } from '../config/config';
+import { AppMetrics } from '../metrics/metrics';
+import {
+  UploadSuccessResponse,
+  ErrorResponse,
+  InvalidRequestError,
+  Mp3Analysis,
+  ParserOptions,
+  UploadStorage,
+} from '../types';
+import { getParserOptions } from './parser-options';
 
-const router = Router();
+// The hashes named by an If-None-Match header, whether strong or weak
+const parseEntityTags = (header: string): string[] =>
+  header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .filter((tag) => /^"[0-9a-f]{64}"$/.test(tag))
+    .map((tag) => tag.slice(1, -1));
 
-router.post(
-  '/file-upload',
-  upload.single('file'),
-  async (req: Request, res: Response<UploadSuccessResponse | ErrorResponse>, next: NextFunction) => {
-    let filePath: string | undefined;
+/**
+ * Builds the upload router. With 'stream' storage the upload is analysed as it arrives
+ * and never written to disk. Analyses are kept in `cache` by the SHA-256 of the file, so
+ * a file uploaded again is answered without parsing it (with 'disk' storage; streamed
+ * uploads are parsed while they are hashed). A client that sends the hash in an
+ * If-None-Match header gets a 304 without uploading anything when it is cached.
+ */
+export const createUploadRouter = (
+  storageType: UploadStorage,
+  limits: RouteLimits,
+  cache: AnalysisCache | null,
+  uploads: UploadSettings,
+  metrics: AppMetrics
+): Router => {
+  const router = Router();
+  const getOptions = (req: Request): ParserOptions =>
+    metrics.withParseMetrics(getParserOptions(req));
 
+  const checkNotModified = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.file) {
-        res.status(400).json({ error: 'No file uploaded' });
-        return;
+      const header = req.get('if-none-match');
+      if (cache && header) {
+        const options = getParserOptions(req);
+        for (const hash of parseEntityTags(header)) {
+          if (await cache.get(getCacheKey(hash, options))) {
+            res.setHeader('ETag', `"${hash}"`);
+            res.status(304).end();
+            return;
+          }
+        }
       }
-
-      filePath = req.file.path;
-      const parser = new StreamingMp3Parser(filePath);
-      const frameCount = await parser.getFrameCount();
-
-      res.status(200).json({
-        frameCount,
-      });
+      next();
     } catch (error) {
       next(error);
-    } finally {
-      // Clean up the uploaded file
-      if (filePath && fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+    }
+  };
+
+  router.post(
+    '/file-upload',
+    checkNotModified,
+    createAnalyzingUpload(storageType, getOptions, limits, uploads).single('file'),
+    async (
+      req: Request,
+      res: Response<UploadSuccessResponse | ErrorResponse>,
+      next: NextFunction
+    ) => {
+      let filePath: string | undefined;
+
+      try {
+        if (!req.file) {
+          throw new InvalidRequestError('No file uploaded', 'NO_FILE');
+        }
+        filePath = req.file.path;
+
+        const hash = req.file.hash as string;
+        const cacheKey = getCacheKey(hash, getParserOptions(req));
+        const send = (analysis: Mp3Analysis, cached: boolean) => {
+          res.setHeader('ETag', `"${hash}"`);
+          res.status(200).json({ ...analysis, hash, cached });
+        };
+
+        if (req.file.analysis) {
+          await cache?.set(cacheKey, req.file.analysis);
+          send(req.file.analysis, false);
+          return;
+        }
+
+        const cachedAnalysis = await cache?.get(cacheKey);
+        if (cachedAnalysis) {
+          send(cachedAnalysis, true);
+          return;
+        }
+
+        const uploadPath = filePath;
+        const analysis = await withParseTimeout(getOptions(req), limits.parseTimeoutMs, (options) =>
+          new StreamingMp3Parser(uploadPath, options).analyze()
+        );
+        await cache?.set(cacheKey, analysis);
+
+        send(analysis, false);
+      } catch (error) {
+        next(error);
+      } finally {
+        // Clean up the uploaded file
+        if (filePath && fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
       }
     }
-  }
-);
+  );
 
-export default router;
+  return router;
+};
@@ -0,0 +1,77 @@
+import * as http from 'http';
+import { App } from './app';
+
+export interface ServerOptions {
+  port: number;
+  // How long requests in progress may take to finish at shutdown
+  shutdownTimeoutMs: number;
+}
+
+/**
+ * Stops the server gracefully. New connections are refused and idle ones closed, and
+ * requests in progress get up to `timeoutMs` to finish before their connections are
+ * cut. The app then cancels its jobs and deletes the uploads left behind. Resolves with
+ * false if requests had to be cut off.
+ */
+export const shutdown = async (
+  server: http.Server,
+  app: App,
+  timeoutMs: number
+): Promise<boolean> => {
+  app.beginShutdown();
+
+  const closed = new Promise<void>((resolve) => {
+    server.close(() => resolve());
+  });
+  server.closeIdleConnections();
+
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+  const isFinished = (await Promise.race([closed, deadline])) !== 'timeout';
+  clearTimeout(timer);
+
+  if (!isFinished) {
+    server.closeAllConnections();
+    await closed;
+  }
+  await app.close();
+  return isFinished;
+};
+
+/**
+ * Starts listening, and shuts down gracefully on SIGTERM or SIGINT before exiting.
+ * A second signal during shutdown exits straight away.
+ */
+export const startServer = (app: App, { port, shutdownTimeoutMs }: ServerOptions): http.Server => {
+  const server = app.handler.listen(port, () => {
+    console.log(`Server is running on http://localhost:${port}`);
+  });
+
+  let isStopping = false;
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (isStopping) {
+      process.exit(1);
+    }
+    isStopping = true;
+    console.log(`${signal} received, shutting down`);
+
+    shutdown(server, app, shutdownTimeoutMs).then(
+      (isFinished) => {
+        if (!isFinished) {
+          console.log(`Requests still running after ${shutdownTimeoutMs}ms were cut off`);
+        }
+        process.exit(0);
+      },
+      (error: unknown) => {
+        console.error('Shutdown failed', error);
+        process.exit(1);
+      }
+    );
+  };
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+
+  return server;
+};
@@ -1,21 +1,494 @@
+// Stable error codes returned to API clients; the HTTP status depends on the code
+export type ErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NO_FILE'
+  | 'NOT_FOUND'
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_FORMAT'
+  | 'INVALID_MP3'
+  | 'NO_FRAMES'
+  | 'TRUNCATED_FRAME'
+  | 'CORRUPTED_FRAMES'
+  | 'INVALID_ARCHIVE'
+  | 'INVALID_RANGE'
+  | 'PARSE_TIMEOUT'
+  | 'RATE_LIMITED'
+  | 'SERVER_BUSY'
+  | 'INTERNAL';
+
+export interface ErrorDetails {
+  // Position in the file the error relates to
+  offset?: number;
+  // The limit that was exceeded, such as a maximum file size in bytes
+  limit?: number;
+  // When to try again, also sent as the Retry-After header
+  retryAfterSeconds?: number;
+}
+
 export class Mp3ParserError extends Error {
-  constructor(message: string) {
+  public readonly code: ErrorCode = 'INTERNAL';
+  public readonly details: ErrorDetails | undefined;
+
+  constructor(message: string, details?: ErrorDetails) {
     super(message);
     this.name = 'Mp3ParserError';
+    this.details = details;
   }
 }
 
 export class InvalidMp3Error extends Mp3ParserError {
-  constructor(message: string = 'Invalid MP3 file') {
-    super(message);
+  public readonly code: ErrorCode = 'INVALID_MP3';
+
+  constructor(message: string = 'Invalid MP3 file', details?: ErrorDetails) {
+    super(message, details);
     this.name = 'InvalidMp3Error';
   }
 }
 
-export interface UploadSuccessResponse {
+export class NoFramesError extends InvalidMp3Error {
+  public readonly code: ErrorCode = 'NO_FRAMES';
+
+  constructor(message: string = 'No valid MP3 frames found', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'NoFramesError';
+  }
+}
+
+export class TruncatedFrameError extends InvalidMp3Error {
+  public readonly code: ErrorCode = 'TRUNCATED_FRAME';
+
+  constructor(message: string = 'MP3 frame is truncated', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'TruncatedFrameError';
+  }
+}
+
+export class CorruptedMp3Error extends Mp3ParserError {
+  public readonly code: ErrorCode = 'CORRUPTED_FRAMES';
+
+  constructor(message: string = 'MP3 file is corrupted', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'CorruptedMp3Error';
+  }
+}
+
+export class InvalidArchiveError extends Mp3ParserError {
+  public readonly code: ErrorCode = 'INVALID_ARCHIVE';
+
+  constructor(message: string = 'Invalid archive', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'InvalidArchiveError';
+  }
+}
+
+export class UnsupportedFormatError extends Mp3ParserError {
+  public readonly code: ErrorCode = 'UNSUPPORTED_FORMAT';
+
+  constructor(message: string = 'Unsupported file format', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+export class FileTooLargeError extends Mp3ParserError {
+  public readonly code: ErrorCode = 'FILE_TOO_LARGE';
+
+  constructor(message: string = 'File is too large', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+export class ParseTimeoutError extends Mp3ParserError {
+  public readonly code: ErrorCode = 'PARSE_TIMEOUT';
+
+  constructor(message: string = 'Parsing took too long', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'ParseTimeoutError';
+  }
+}
+
+export class InvalidRangeError extends Mp3ParserError {
+  public readonly code: ErrorCode = 'INVALID_RANGE';
+
+  constructor(message: string = 'Invalid range', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'InvalidRangeError';
+  }
+}
+
+export class RateLimitError extends Mp3ParserError {
+  public readonly code: ErrorCode = 'RATE_LIMITED';
+
+  constructor(message: string = 'Too many requests', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ServerBusyError extends Mp3ParserError {
+  public readonly code: ErrorCode = 'SERVER_BUSY';
+
+  constructor(message: string = 'Server is busy', details?: ErrorDetails) {
+    super(message, details);
+    this.name = 'ServerBusyError';
+  }
+}
+
+// Problems with the request itself, such as a missing file or a bad query parameter
+export class InvalidRequestError extends Mp3ParserError {
+  public readonly code: ErrorCode;
+
+  constructor(
+    message: string = 'Invalid request',
+    code: 'INVALID_REQUEST' | 'NO_FILE' = 'INVALID_REQUEST'
+  ) {
+    super(message);
+    this.name = 'InvalidRequestError';
+    this.code = code;
+  }
+}
+
+export class NotFoundError extends Mp3ParserError {
+  public readonly code: ErrorCode = 'NOT_FOUND';
+
+  constructor(message: string = 'Not found') {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConfigError extends Error {
+  constructor(message: string = 'Invalid configuration') {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// What a client may be told about an error
+export interface ClientError {
+  code: ErrorCode;
+  message: string;
+  details?: ErrorDetails;
+}
+
+// Sent in place of the message of an unexpected error, which may describe the server
+const INTERNAL_ERROR_MESSAGE = 'Internal server error';
+
+/**
+ * The code and message of an error that can be shown to a client. Any error that isn't
+ * an Mp3ParserError with a code of its own is reported as INTERNAL, without its message.
+ */
+export const toClientError = (error: unknown): ClientError => {
+  if (error instanceof Mp3ParserError && error.code !== 'INTERNAL') {
+    return {
+      code: error.code,
+      message: error.message,
+      ...(error.details && { details: error.details }),
+    };
+  }
+  return { code: 'INTERNAL', message: INTERNAL_ERROR_MESSAGE };
+};
+
+export interface ParserOptions {
+  // Fail with CorruptedMp3Error when the CRC failure rate exceeds the threshold, and
+  // with TruncatedFrameError when the audio ends partway through a frame
+  strict?: boolean;
+  crcFailureThreshold?: number; // 0-1, fraction of checked frames
+  // Matching frames that must follow a candidate before it is accepted
+  syncConfirmationFrames?: number;
+  // Level in dBFS below which a frame counts as silent
+  silenceThresholdDb?: number;
+  // Shortest silence reported between audible frames
+  minSilenceMs?: number;
+  // Stops the analysis with the signal's reason once it is aborted
+  signal?: AbortSignal;
+  // Called when parsing reaches the end of the data, whether or not the file is valid
+  onParsed?: (stats: ParseStats) => void;
+}
+
+export interface ParseStats {
+  // Audio frames found
   frameCount: number;
+  bytesRead: number;
+  // Time spent decoding, not counting time spent waiting for data
+  parseTimeMs: number;
 }
 
+// Where uploads go: written to `uploads/` and parsed afterwards, or parsed as they arrive
+export type UploadStorage = 'disk' | 'stream';
+
+export type MpegVersion = '1' | '2' | '2.5';
+
+export type MpegLayer = 1 | 2 | 3;
+
+export type ChannelMode = 'stereo' | 'joint_stereo' | 'dual_channel' | 'mono';
+
+export interface FrameHeader {
+  version: MpegVersion;
+  layer: MpegLayer;
+  hasCrc: boolean;
+  bitrate: number; // kbps
+  sampleRate: number; // Hz
+  padding: boolean;
+  channelMode: ChannelMode;
+  modeExtension: number;
+  samplesPerFrame: number;
+  frameSize: number; // bytes, including the header
+}
+
+// Who set a ReplayGain adjustment
+export type ReplayGainOriginator = 'unspecified' | 'artist' | 'user' | 'automatic' | 'rms';
+
+export interface ReplayGainAdjustment {
+  gainDb: number;
+  originator: ReplayGainOriginator;
+}
+
+export interface ReplayGain {
+  peak?: number; // peak sample amplitude, 1.0 being full scale
+  track?: ReplayGainAdjustment;
+  album?: ReplayGainAdjustment;
+}
+
+export interface LameTag {
+  encoder: string; // e.g. 'LAME3.100'
+  vbrMethod: number;
+  // The rest is only present when the whole tag fits in the frame
+  revision?: number;
+  lowpassHz?: number;
+  replayGain?: ReplayGain;
+  encoderDelay?: number; // samples added before the audio
+  encoderPadding?: number; // samples added after the audio
+  musicLength?: number; // bytes from the start of the tag frame to the end of the audio
+  musicCrc?: number; // CRC-16 of the audio frames
+  tagCrcValid?: boolean; // whether the tag's own CRC-16 matches
+}
+
+export interface VbrHeader {
+  type: 'Xing' | 'Info' | 'VBRI';
+  frames?: number;
+  bytes?: number;
+  toc?: number[];
+  quality?: number;
+  lame?: LameTag;
+}
+
+export interface Id3v2Picture {
+  mimeType: string;
+  pictureType: number;
+  description: string;
+  size: number; // bytes of image data
+}
+
+export interface Id3v2Tag {
+  version: string; // e.g. '2.4.0'
+  title?: string;
+  artist?: string;
+  album?: string;
+  track?: string;
+  year?: string;
+  comment?: string;
+  pictures: Id3v2Picture[];
+}
+
+export interface Id3v1Tag {
+  version: '1.0' | '1.1';
+  title: string;
+  artist: string;
+  album: string;
+  year: string;
+  comment: string;
+  track?: number; // ID3v1.1 only
+  genre: number;
+}
+
+export interface ApeItem {
+  key: string;
+  type: 'text' | 'binary' | 'external' | 'reserved';
+  value?: string; // omitted for binary items
+  size: number;
+}
+
+export interface ApeTag {
+  version: number; // 1000 or 2000
+  size: number; // bytes, including the header and footer
+  items: ApeItem[];
+}
+
+export interface Lyrics3Tag {
+  version: '2.00';
+  size: number; // bytes, including the 'LYRICSBEGIN' marker and footer
+  fields: Record<string, string>;
+}
+
+export interface TrailingTags {
+  id3v1?: Id3v1Tag;
+  apev2?: ApeTag;
+  lyrics3?: Lyrics3Tag;
+}
+
+export type BitrateMode = 'CBR' | 'VBR' | 'ABR';
+
+export interface BitrateProfile {
+  average: number; // kbps
+  min: number; // kbps
+  max: number; // kbps
+  mode: BitrateMode;
+}
+
+export interface StreamProperties {
+  durationMs: number;
+  bitrate: BitrateProfile;
+  sampleRate: number;
+  channelMode: ChannelMode;
+  mpegVersion: MpegVersion;
+  layer: MpegLayer;
+  audioBytes: number; // total size of the audio frames
+}
+
+export interface CrcReport {
+  protectedFrames: number;
+  passed: number;
+  failed: number;
+  unchecked: number; // protected frames whose layer can't be verified (Layer II)
+  failedOffsets: number[];
+}
+
+export interface Gap {
+  offset: number; // byte offset where the skipped region starts
+  length: number; // bytes
+}
+
+export interface SilenceRange {
+  startMs: number;
+  endMs: number;
+}
+
+export interface SilenceReport {
+  thresholdDb: number;
+  silentFrames: number;
+  leading?: SilenceRange; // from the start of the audio
+  trailing?: SilenceRange; // to the end of the audio
+  internal: SilenceRange[]; // runs between audible frames of at least the minimum length
+}
+
+// Sample-exact length from the LAME tag's encoder delay and padding
+export interface GaplessInfo {
+  encoderDelay: number; // samples
+  encoderPadding: number; // samples
+  sampleCount: number; // decoded samples per channel once delay and padding are removed
+  durationMs: number; // exact playback time of those samples, not rounded
+}
+
+export interface Mp3Analysis extends StreamProperties {
+  frameCount: number;
+  tags?: Id3v2Tag;
+  trailingTags?: TrailingTags;
+  vbrHeader?: VbrHeader;
+  // True when the VBR header declares a frame count that differs from the counted frames
+  frameCountMismatch: boolean;
+  crc: CrcReport;
+  // Regions between the frames that didn't belong to the stream
+  gaps: Gap[];
+  gapless?: GaplessInfo;
+  // Layer III only
+  silence?: SilenceReport;
+}
+
+export interface FrameIndexEntry {
+  offset: number; // byte offset of the frame header in the file
+  size: number; // bytes
+  bitrate: number; // kbps
+  padding: boolean;
+  sampleRate: number; // Hz
+  channelMode: ChannelMode;
+  timestampMs: number; // playback time at the start of the frame
+}
+
+export type FrameListener = (frame: FrameIndexEntry) => void | Promise<void>;
+
+export type UploadSuccessResponse = Mp3Analysis & {
+  // SHA-256 of the uploaded bytes, in hex; also sent as the ETag
+  hash: string;
+  // True when the analysis was found in the cache instead of being parsed
+  cached: boolean;
+};
+
 export interface ErrorResponse {
   error: string;
+  code: ErrorCode;
+  // Identifies the request in the server logs, also sent as the X-Request-Id header
+  requestId: string;
+  details?: ErrorDetails;
+}
+
+// Why a check failed is only logged, as it names paths and system errors
+export interface ReadinessCheck {
+  name: string;
+  ok: boolean;
+}
+
+export interface ReadinessResponse {
+  // True when every check passed
+  ready: boolean;
+  checks: ReadinessCheck[];
+}
+
+export type BatchFileResult =
+  | { name: string; archive?: string; analysis: Mp3Analysis }
+  | { name: string; archive?: string; error: string; code: ErrorCode };
+
+export interface BatchSummary {
+  files: number;
+  succeeded: number;
+  failed: number;
+  // Totals over the files that were analysed
+  frameCount: number;
+  durationMs: number;
+  audioBytes: number;
+}
+
+export interface BatchResponse {
+  results: BatchFileResult[];
+  summary: BatchSummary;
+}
+
+export type JobState = 'queued' | 'running' | 'done' | 'failed';
+
+export interface Job {
+  id: string;
+  state: JobState;
+  // Percentage of the file parsed so far, 0-100
+  progress: number;
+  bytesParsed: number;
+  totalBytes: number;
+  createdAt: string;
+  result?: Mp3Analysis;
+  // Why the job failed, as an error response would put it
+  error?: string;
+  errorCode?: ErrorCode;
+}
+
+// Multer's file type lives in the global Express namespace
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      // Set by the request ID middleware, or when an error response is sent
+      requestId?: string;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-namespace
+    namespace Multer {
+      interface File {
+        // Set by the stream storage, which analyses the upload instead of storing it
+        analysis?: Mp3Analysis;
+        // SHA-256 of the file in hex, set by storage that hashes uploads as they arrive
+        hash?: string;
+        // Why a batch upload refused the file; its content was discarded, not stored
+        rejection?: Error;
+      }
+    }
+  }
 }